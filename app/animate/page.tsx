@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+import { AsciiAnimationStudio } from '@/components/ascii-animation-studio';
+
+export const metadata: Metadata = {
+  title: 'ASCII animation',
+};
+
+/**
+ * Convert animated GIFs and short videos to ASCII animations
+ */
+export default function AsciiAnimationPage() {
+  return <AsciiAnimationStudio />;
+}
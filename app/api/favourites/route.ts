@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  addFavourite,
+  favouriteSchema,
+  formatGalleryError,
+  getGalleryItem,
+  listCollections,
+  removeFavourite,
+} from '@/lib/gallery';
+
+/**
+ * The signed-in user's favourites collections with their items.
+ */
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to see your favourites.' },
+        { status: 401 }
+      );
+    }
+
+    const collections = await listCollections(supabase);
+    return NextResponse.json({ success: true, collections }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error listing favourites:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load your favourites' },
+      { status: 500 }
+    );
+  }
+}
+
+// Adding (POST) and removing (DELETE) both look up the user and the item first
+async function updateFavourite(input: unknown, add: boolean) {
+  const favourite = favouriteSchema.safeParse(input);
+  if (!favourite.success) {
+    return NextResponse.json(
+      { success: false, message: formatGalleryError(favourite.error) },
+      { status: 400 }
+    );
+  }
+  const { itemId, collection } = favourite.data;
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to keep favourites.' },
+        { status: 401 }
+      );
+    }
+
+    const item = await getGalleryItem(supabase, itemId);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, message: `No gallery item found with id ${itemId}` },
+        { status: 404 }
+      );
+    }
+
+    if (add) {
+      await addFavourite(supabase, user.id, item, collection);
+    } else if (!(await removeFavourite(supabase, item, collection))) {
+      return NextResponse.json(
+        { success: false, message: `${item.title} is not in ${collection}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, collection });
+  } catch (error) {
+    console.error(`Error ${add ? 'adding' : 'removing'} favourite:`, error);
+    return NextResponse.json(
+      { success: false, message: `Could not ${add ? 'add' : 'remove'} the favourite` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a gallery item to one of the user's collections, creating it if needed.
+ * Body: { itemId, collection? (default "Favourites") }
+ */
+export async function POST(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+  return updateFavourite(requestData, true);
+}
+
+/**
+ * Remove a gallery item from one of the user's collections.
+ * Query parameters: itemId, collection (default "Favourites").
+ */
+export async function DELETE(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  return updateFavourite({
+    itemId: searchParams.get('itemId') ?? undefined,
+    collection: searchParams.get('collection') || undefined
+  }, false);
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getGalleryItem, setGalleryLike } from '@/lib/gallery';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Like (POST) and unlike (DELETE) share everything but the direction
+async function updateLike({ params }: RouteContext, liked: boolean) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to like gallery items.' },
+        { status: 401 }
+      );
+    }
+
+    const item = await getGalleryItem(supabase, id);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, message: `No gallery item found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const likeCount = await setGalleryLike(supabase, user.id, item, liked);
+    return NextResponse.json({ success: true, liked, likeCount });
+  } catch (error) {
+    console.error(`Error ${liked ? 'liking' : 'unliking'} gallery item:`, error);
+    return NextResponse.json(
+      { success: false, message: `Could not ${liked ? 'like' : 'unlike'} the item` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Like a gallery item as the signed-in user.
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  return updateLike(context, true);
+}
+
+/**
+ * Take back the signed-in user's like of a gallery item.
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  return updateLike(context, false);
+}
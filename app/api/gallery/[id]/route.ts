@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getGalleryItem, getRemixTree, listLikedItemIds } from '@/lib/gallery';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A gallery item by full or short id, with the remix tree it belongs to
+ * and, for signed-in users, whether they have liked it.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const item = await getGalleryItem(supabase, id);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, message: `No gallery item found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const [tree, likedIds] = await Promise.all([
+      getRemixTree(supabase, item),
+      user ? listLikedItemIds(supabase, [item.id]) : Promise.resolve([])
+    ]);
+
+    return NextResponse.json({ success: true, item, tree, liked: likedIds.length > 0 }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error loading gallery item:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load the gallery item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getGeneration } from '@/lib/generations';
+import {
+  formatGalleryError,
+  GalleryError,
+  galleryQuerySchema,
+  listGalleryItems,
+  listLikedItemIds,
+  publishGallerySchema,
+  publishGeneration,
+} from '@/lib/gallery';
+
+/**
+ * One page of the public gallery; no sign-in needed. Signed-in users also
+ * get likedIds, the items on the page they have liked.
+ * Query parameters: sort (newest, liked), tags (comma separated, all
+ * must match), cursor (nextCursor of the previous page), limit.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = galleryQuerySchema.safeParse({
+    sort: searchParams.get('sort') || undefined,
+    tags: searchParams.get('tags') || undefined,
+    cursor: searchParams.get('cursor') || undefined,
+    limit: searchParams.get('limit') || undefined
+  });
+  if (!query.success) {
+    return NextResponse.json(
+      { success: false, message: formatGalleryError(query.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const page = await listGalleryItems(supabase, query.data);
+    const { data: { user } } = await supabase.auth.getUser();
+    const likedIds = user ? await listLikedItemIds(supabase, page.items.map(item => item.id)) : [];
+    return NextResponse.json({ success: true, ...page, likedIds }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    if (error instanceof GalleryError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error listing gallery:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load the gallery' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Publish one of the signed-in user's generations to the gallery.
+ * Body: { generationId: full or short id, title?, description?, tags? }
+ */
+export async function POST(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  const input = publishGallerySchema.safeParse(requestData);
+  if (!input.success) {
+    return NextResponse.json(
+      { success: false, message: formatGalleryError(input.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to publish your images.' },
+        { status: 401 }
+      );
+    }
+
+    // Row level security only returns the user's own generations
+    const generation = await getGeneration(supabase, input.data.generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { success: false, message: `No generation found with id ${input.data.generationId}` },
+        { status: 404 }
+      );
+    }
+
+    const item = await publishGeneration(user.id, generation, input.data);
+    return NextResponse.json({ success: true, item }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GalleryError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error publishing generation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not publish the generation' },
+      { status: 500 }
+    );
+  }
+}
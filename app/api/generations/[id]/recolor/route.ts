@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getGeneration } from '@/lib/generations';
+import { formatGenerationParamsError, recolorOptionsSchema } from '@/lib/generation/params';
+import { GenerationError } from '@/lib/generation/errors';
+import { describeRecolor, recolorGeneration } from '@/lib/generation/recolor';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Quantize a past generation to a palette and save it as a new entry.
+ * Body: { palette: name or hex list, dither?: dither mode }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  const options = recolorOptionsSchema.safeParse(requestData);
+  if (!options.success) {
+    return NextResponse.json(
+      { success: false, message: formatGenerationParamsError(options.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to recolor images.' },
+        { status: 401 }
+      );
+    }
+
+    const source = await getGeneration(supabase, id);
+    if (!source) {
+      return NextResponse.json(
+        { success: false, message: `No generation found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const generation = await recolorGeneration(user.id, source, options.data);
+    return NextResponse.json({
+      success: true,
+      generation,
+      description: describeRecolor(options.data)
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof GenerationError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error recoloring generation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not recolor the generation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { deleteGeneration, getGeneration } from '@/lib/generations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A single generation of the signed-in user, by full or short id.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view your history.' },
+        { status: 401 }
+      );
+    }
+
+    const generation = await getGeneration(supabase, id);
+    if (!generation) {
+      return NextResponse.json(
+        { success: false, message: `No generation found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, generation }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error loading generation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load the generation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a generation of the signed-in user.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to manage your history.' },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteGeneration(supabase, id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: `No generation found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting generation:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not delete the generation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { listGenerations } from '@/lib/generations';
+
+/**
+ * Paginated generation history for the signed-in user.
+ * Query parameters: search, page (1-based), limit.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view your history.' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const result = await listGenerations(supabase, {
+      search: searchParams.get('search') || undefined,
+      page: Number(searchParams.get('page')) || 1,
+      pageSize: Number(searchParams.get('limit')) || undefined
+    });
+
+    return NextResponse.json({ success: true, ...result }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error listing generations:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load your generation history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { FINISHED_JOB_STATUSES, getJobQueue, toJobView, type JobEvent } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Comment line sent periodically so proxies keep the connection open
+const KEEP_ALIVE_MS = 15000;
+
+const isFinished = (event: JobEvent) => (FINISHED_JOB_STATUSES as string[]).includes(event.type);
+
+/**
+ * Server-Sent Events stream of a job's lifecycle. Events that already
+ * happened are replayed first, then new ones are sent as they occur:
+ *   event: progress  data: JobEvent
+ *   event: done      data: { job }   (then the stream closes)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = createRouteHandlerClient({ cookies });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, message: 'Please log in to view your jobs.' },
+      { status: 401 }
+    );
+  }
+
+  const queue = getJobQueue();
+  const found = await queue.find(user.id, id);
+  if (!found) {
+    return NextResponse.json(
+      { success: false, message: `No job found with id ${id}` },
+      { status: 404 }
+    );
+  }
+  const jobId = found.id;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const finish = async () => {
+        if (closed) return;
+        const job = await queue.find(user.id, jobId);
+        send('done', { job: job ? toJobView(job) : null });
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      // Listen before reading the stored events so nothing falls in between
+      const buffered: JobEvent[] = [];
+      let replaying = true;
+      const unsubscribe = queue.subscribe(jobId, event => {
+        if (replaying) {
+          buffered.push(event);
+          return;
+        }
+        send('progress', event);
+        if (isFinished(event)) finish();
+      });
+      const keepAlive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, KEEP_ALIVE_MS);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+        cleanup();
+      });
+
+      const job = await queue.find(user.id, jobId);
+      const stored = job?.events || [];
+      const seen = new Set(stored.map(event => `${event.at}|${event.type}|${event.message}`));
+      const missed = buffered.filter(event => !seen.has(`${event.at}|${event.type}|${event.message}`));
+      replaying = false;
+
+      [...stored, ...missed].forEach(event => send('progress', event));
+      if (!job || FINISHED_JOB_STATUSES.includes(job.status)) {
+        await finish();
+      }
+    },
+    cancel: () => {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
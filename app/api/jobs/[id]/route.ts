@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { FINISHED_JOB_STATUSES, getJobQueue, toJobView } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Status of one of the signed-in user's jobs, by full or short id.
+ * Succeeded jobs include the generated image in `job.result`.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view your jobs.' },
+        { status: 401 }
+      );
+    }
+
+    const job = await getJobQueue().find(user.id, id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, message: `No job found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: toJobView(job) }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error loading generation job:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load the job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Cancel a queued or running job of the signed-in user. The generation
+ * is refunded to the user's quota.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to manage your jobs.' },
+        { status: 401 }
+      );
+    }
+
+    const queue = getJobQueue();
+    const job = await queue.find(user.id, id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, message: `No job found with id ${id}` },
+        { status: 404 }
+      );
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { success: false, message: `Job ${id} has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}` },
+        { status: 409 }
+      );
+    }
+
+    const cancelled = await queue.cancel(job.id);
+    return NextResponse.json({ success: true, job: cancelled ? toJobView(cancelled) : null });
+  } catch (error) {
+    console.error('Error cancelling generation job:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not cancel the job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { GenerationError } from '@/lib/generation/errors';
+import {
+  executeGeneration,
+  parseGenerationRequest,
+  releaseReservation,
+  reserveGeneration,
+} from '@/lib/generation/pipeline';
+import { getJobQueue, toJobView } from '@/lib/jobs';
+
+/**
+ * Queue a generation. Validation, authentication and quota are checked
+ * before answering; the image is produced in the background and followed
+ * through /api/jobs/:id or streamed from /api/jobs/:id/events.
+ */
+export async function POST(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const params = parseGenerationRequest(requestData);
+    const supabase = createRouteHandlerClient({ cookies });
+    const reservation = await reserveGeneration(supabase, params);
+
+    // The job outlives this request; it records history and refunds with
+    // the service role, so it needs no session of its own
+    const job = await getJobQueue().enqueue(
+      { userId: reservation.userId, params: reservation.params },
+      {
+        run: (signal, emit) => executeGeneration(reservation, { signal, onEvent: emit }),
+        release: reason => releaseReservation(reservation, reason),
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job: toJobView(job),
+      remainingCredits: reservation.quota.remaining,
+      resetAt: reservation.quota.resetAt
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof GenerationError) {
+      return NextResponse.json(
+        { success: false, message: error.message, ...error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error queueing generation job:', error);
+    return NextResponse.json(
+      { success: false, message: 'An error occurred while processing your request' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * The signed-in user's recent jobs, newest first
+ */
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view your jobs.' },
+        { status: 401 }
+      );
+    }
+
+    const jobs = await getJobQueue().list(user.id);
+    return NextResponse.json({ success: true, jobs: jobs.map(toJobView) }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error listing generation jobs:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load your jobs' },
+      { status: 500 }
+    );
+  }
+}
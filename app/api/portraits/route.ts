@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getReferenceImage } from '@/lib/references';
+import { formatPortraitError, savePortrait, savePortraitSchema } from '@/lib/portraits';
+
+/**
+ * Save an ASCII portrait made in the portrait studio.
+ * Body: { referenceImageId, name?, settings, columns, rows, content }
+ */
+export async function POST(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  const portrait = savePortraitSchema.safeParse(requestData);
+  if (!portrait.success) {
+    return NextResponse.json(
+      { success: false, message: formatPortraitError(portrait.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to save portraits.' },
+        { status: 401 }
+      );
+    }
+
+    // Row level security only returns the user's own uploads
+    const reference = await getReferenceImage(supabase, portrait.data.referenceImageId);
+    if (!reference) {
+      return NextResponse.json(
+        { success: false, message: 'The uploaded photo was not found. Please upload it again.' },
+        { status: 404 }
+      );
+    }
+
+    const saved = await savePortrait(supabase, user.id, portrait.data);
+    return NextResponse.json({ success: true, portrait: saved }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving portrait:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not save the portrait' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isAllowedImageUrl } from '@/lib/image/remote';
 
 /**
  * Proxy for fetching images from external URLs.
@@ -19,20 +20,8 @@ export async function GET(request: NextRequest) {
     // Validate URL format
     const parsedUrl = new URL(url);
     
-    // Only allow certain domains for security (adjust as needed)
-    const allowedDomains = [
-      'api.retrodiffusion.ai',
-      'da8ztllw6by0f.cloudfront.net',
-      'cloudfront.net'
-    ];
-    
-    // Check if the domain is allowed
-    const isDomainAllowed = allowedDomains.some(domain => 
-      parsedUrl.hostname === domain || 
-      parsedUrl.hostname.endsWith('.' + domain)
-    );
-    
-    if (!isDomainAllowed) {
+    // Only allow the provider's image hosts for security
+    if (!isAllowedImageUrl(parsedUrl)) {
       return NextResponse.json(
         { error: 'Domain not allowed' },
         { status: 403 }
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getGenerationQuota } from '@/lib/quota';
+
+/**
+ * Current generation quota for the signed-in user.
+ */
+export async function GET() {
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view your quota.' },
+        { status: 401 }
+      );
+    }
+
+    const quota = await getGenerationQuota(supabase);
+    return NextResponse.json({
+      success: true,
+      tier: quota.tier,
+      limit: quota.limit,
+      used: quota.used,
+      remaining: quota.remaining,
+      resetAt: quota.resetAt
+    }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error reading generation quota:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not read your generation quota' },
+      { status: 500 }
+    );
+  }
+}
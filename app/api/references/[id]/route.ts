@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getReferenceImage } from '@/lib/references';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A reference image of the signed-in user, by full or short id.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to view reference images.' },
+        { status: 401 }
+      );
+    }
+
+    const reference = await getReferenceImage(supabase, id);
+    if (!reference) {
+      return NextResponse.json(
+        { success: false, message: `No reference image found with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reference }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error loading reference image:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not load the reference image' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { ReferenceImageError, saveReferenceImage } from '@/lib/references';
+
+/**
+ * Upload a reference image for image-to-image generation.
+ * Body: { imageUrl: PNG data URL, name?: original file name }
+ */
+export async function POST(request: NextRequest) {
+  let requestData;
+  try {
+    requestData = await request.json();
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request format' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Please log in to upload reference images.' },
+        { status: 401 }
+      );
+    }
+
+    const reference = await saveReferenceImage(user.id, {
+      imageUrl: requestData?.imageUrl,
+      name: requestData?.name
+    });
+    return NextResponse.json({ success: true, reference }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReferenceImageError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error uploading reference image:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not store the reference image' },
+      { status: 500 }
+    );
+  }
+}
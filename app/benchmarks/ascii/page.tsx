@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import { AsciiBenchmark } from '@/components/ascii-benchmark';
+
+export const metadata: Metadata = {
+  title: 'ASCII rendering benchmark',
+  robots: { index: false },
+};
+
+/**
+ * Developer page comparing ASCII conversion and drawing strategies
+ */
+export default function AsciiBenchmarkPage() {
+  return <AsciiBenchmark />;
+}
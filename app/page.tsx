@@ -11,6 +11,7 @@ import CrtToggle from '@/components/crt-toggle';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 import AuthModal from '@/components/auth-modal';
 import type { User } from "@supabase/supabase-js";
+import type { TerminalPrefill } from '@/lib/terminal/types';
 
 function ErrorFallback({ error, resetErrorBoundary }: { error: Error, resetErrorBoundary: () => void }) {
   return (
@@ -42,6 +43,8 @@ export default function Home() {
   const [content, setContent] = useState<React.ReactNode | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [showAuthModal, setShowAuthModal] = useState<boolean>(false);
+  // Set by the gallery's Remix button
+  const [remix, setRemix] = useState<TerminalPrefill | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [lastGenerationTime, setLastGenerationTime] = useState<number>(0);
   const MIN_GENERATION_INTERVAL = 3000; // 3 seconds between generations
@@ -142,7 +145,7 @@ export default function Home() {
 
             <div className="container mx-auto px-4 py-8 min-h-screen relative z-10">
               {user ? (
-                <Terminal />
+                <Terminal prefill={remix} />
               ) : (
                 <div className="w-full max-w-4xl mx-auto h-64 flex items-center justify-center">
                   <div className="text-center p-6 bg-black/80 rounded-lg border border-white/10 pixel-effect pixel-border">
@@ -162,7 +165,9 @@ export default function Home() {
                 </div>
               )}
               <div className="w-full max-w-6xl mx-auto mt-12 space-y-16">
-                <PixelGallery />
+                <PixelGallery
+                  onRemix={command => (user ? setRemix({ command }) : setShowAuthModal(true))}
+                />
                 <Testimonials />
                 <Roadmap />
                 <div className="pb-10" />
@@ -180,7 +185,7 @@ export default function Home() {
         setError(err instanceof Error ? err : new Error("Failed to render application"));
       }
     }
-  }, [booting, error, user, showAuthModal, supabase.auth]);
+  }, [booting, error, user, showAuthModal, remix, supabase.auth]);
 
   const handleGenerate = async () => {
     // Prevent multiple clicks
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+import { AsciiPortraitStudio } from '@/components/ascii-portrait-studio';
+
+export const metadata: Metadata = {
+  title: 'ASCII portrait studio',
+};
+
+/**
+ * Turn an uploaded photo into a tuned ASCII portrait
+ */
+export default function AsciiPortraitPage() {
+  return <AsciiPortraitStudio />;
+}
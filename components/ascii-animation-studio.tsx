@@ -0,0 +1,111 @@
+"use client"
+
+import { useState } from "react"
+import {
+  ASCII_CHARSET_NAMES,
+  ASCII_COLOR_MODES,
+  DEFAULT_ASCII_WIDTH,
+  MAX_ASCII_WIDTH,
+  MAX_ANIMATION_FRAMES,
+  MIN_ASCII_WIDTH,
+  type AsciiAnimationData,
+  type AsciiCharset,
+  type AsciiColorMode,
+} from "@/lib/ascii"
+import { ACCEPTED_ANIMATION_TYPES, convertAnimationToAscii } from "@/lib/ascii/browser"
+import { AsciiAnimation } from "./ascii-animation"
+
+const controlClassName = "bg-black/70 hover:bg-black/90 px-3 py-2 rounded text-white border border-white/20 disabled:opacity-50"
+
+/**
+ * Convert an animated GIF or short video to an ASCII animation in the
+ * browser and play it; nothing is uploaded
+ */
+export function AsciiAnimationStudio() {
+  const [file, setFile] = useState<File | null>(null)
+  const [width, setWidth] = useState(DEFAULT_ASCII_WIDTH)
+  const [charset, setCharset] = useState<AsciiCharset>("standard")
+  const [colorMode, setColorMode] = useState<AsciiColorMode>("truecolor")
+  const [animation, setAnimation] = useState<AsciiAnimationData | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: "info" | "error"; message: string } | null>(null)
+
+  const convert = async (source: File) => {
+    setBusy(true)
+    setStatus({ type: "info", message: `Reading ${source.name}...` })
+    try {
+      const converted = await convertAnimationToAscii(
+        source,
+        { width, charset, colorMode },
+        message => setStatus({ type: "info", message }),
+      )
+      setAnimation(converted)
+      setStatus(null)
+    } catch (error) {
+      console.error("Error converting animation:", error)
+      setStatus({ type: "error", message: error instanceof Error ? error.message : "Failed to convert the animation." })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="p-4 sm:p-8 font-mono text-sm text-emerald-300 space-y-4">
+      <h1 className="text-lg text-cyan-400">ASCII animation</h1>
+      <p className="text-gray-400">
+        Turn an animated GIF or a short MP4/WebM clip (up to {MAX_ANIMATION_FRAMES} frames) into ASCII art.
+        Everything runs in your browser.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-300">File</span>
+          <input
+            type="file"
+            accept={ACCEPTED_ANIMATION_TYPES.join(",")}
+            disabled={busy}
+            onChange={(e) => {
+              const picked = e.target.files?.[0]
+              if (!picked) return
+              setFile(picked)
+              convert(picked)
+            }}
+            className="text-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-300">Width: <span className="text-cyan-400">{width}</span></span>
+          <input
+            type="range"
+            min={MIN_ASCII_WIDTH}
+            max={MAX_ASCII_WIDTH}
+            value={width}
+            onChange={(e) => setWidth(Number(e.target.value))}
+            className="accent-emerald-400"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-300">Characters</span>
+          <select value={charset} onChange={(e) => setCharset(e.target.value as AsciiCharset)} className={controlClassName}>
+            {ASCII_CHARSET_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-300">Colour</span>
+          <select value={colorMode} onChange={(e) => setColorMode(e.target.value as AsciiColorMode)} className={controlClassName}>
+            {ASCII_COLOR_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+          </select>
+        </label>
+        <button className={controlClassName} disabled={busy || !file} onClick={() => file && convert(file)}>
+          Convert again
+        </button>
+      </div>
+
+      {status && <div className={status.type === "error" ? "text-red-400" : "text-amber-300"}>{status.message}</div>}
+
+      {animation && (
+        <AsciiAnimation animation={animation} exportName={file ? file.name.replace(/\.[^.]+$/, "") + "-ascii" : undefined} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Download, Pause, Play } from "lucide-react"
+import {
+  ASCII_ANIMATION_EXPORT_FORMATS,
+  MAX_ANIMATION_FPS,
+  MIN_ANIMATION_FPS,
+  averageFps,
+  playbackDelays,
+  type AsciiAnimationData,
+  type AsciiAnimationExportFormat,
+} from "@/lib/ascii"
+import { drawAsciiToCanvas } from "@/lib/ascii/canvas"
+import { downloadAsciiAnimation } from "@/lib/ascii/download"
+
+interface AsciiAnimationProps {
+  animation: AsciiAnimationData
+  // Initial playback rate; the animation's own timing when not given
+  fps?: number
+  loop?: boolean
+  autoPlay?: boolean
+  // File name (without extension) for exports
+  exportName?: string
+}
+
+// Size of one character on the canvas
+const CHAR_WIDTH = 6
+const CHAR_HEIGHT = 10
+
+const controlClassName = "bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1"
+
+const EXPORT_LABELS: Record<AsciiAnimationExportFormat, string> = {
+  svg: "Animated SVG (.svg)",
+  html: "HTML player (.html)",
+}
+
+/**
+ * Plays converted ASCII frames on a canvas, with play/pause, a frame
+ * rate control, looping and export as animated SVG or HTML
+ */
+export function AsciiAnimation({ animation, fps, loop: initialLoop = true, autoPlay = true, exportName = "ascii-animation" }: AsciiAnimationProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [frame, setFrame] = useState(0)
+  const [playing, setPlaying] = useState(autoPlay)
+  const [loop, setLoop] = useState(initialLoop)
+  // null keeps the animation's own frame delays
+  const [rate, setRate] = useState<number | null>(fps ?? null)
+  const [exportFormat, setExportFormat] = useState<AsciiAnimationExportFormat>("svg")
+
+  const delays = useMemo(() => playbackDelays(animation, rate ?? undefined), [animation, rate])
+  const originalFps = useMemo(() => Math.round(averageFps(animation)), [animation])
+
+  // Start again from the first frame when given a new animation
+  useEffect(() => {
+    setFrame(0)
+  }, [animation])
+
+  useEffect(() => {
+    if (!playing) return
+    const isLast = frame >= animation.frames.length - 1
+    if (isLast && !loop) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setFrame(isLast ? 0 : frame + 1), delays[frame])
+    return () => clearTimeout(timer)
+  }, [playing, frame, loop, delays, animation.frames.length])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const art = animation.frames[frame]
+    if (!canvas || !art) return
+
+    const ctx = canvas.getContext("2d", { alpha: false })
+    if (!ctx) return
+
+    drawAsciiToCanvas(ctx, art, {
+      cellWidth: CHAR_WIDTH,
+      cellHeight: CHAR_HEIGHT,
+      fontFamily: '"JetBrains Mono", monospace',
+    })
+  }, [animation, frame])
+
+  const togglePlaying = () => {
+    // Playing a finished, non-looping animation starts it over
+    if (!playing && !loop && frame >= animation.frames.length - 1) setFrame(0)
+    setPlaying(!playing)
+  }
+
+  const handleExport = () => {
+    downloadAsciiAnimation(animation, exportFormat, exportName, {
+      title: exportName,
+      fps: rate ?? undefined,
+      once: !loop,
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 my-4">
+      <canvas
+        ref={canvasRef}
+        className="border border-primary/30 rounded shadow-lg shadow-primary/20"
+        style={{ maxWidth: "100%", height: "auto" }}
+      />
+      <div className="flex flex-wrap items-center gap-3 text-xs font-mono text-gray-300">
+        <button onClick={togglePlaying} className={controlClassName} aria-label={playing ? "Pause" : "Play"}>
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          {playing ? "Pause" : "Play"}
+        </button>
+        <span>
+          Frame {frame + 1}/{animation.frames.length}
+        </span>
+        <label className="flex items-center gap-2">
+          FPS
+          <input
+            type="range"
+            min={MIN_ANIMATION_FPS}
+            max={MAX_ANIMATION_FPS}
+            step={1}
+            value={rate ?? originalFps}
+            onChange={(e) => setRate(Number(e.target.value))}
+            className="accent-emerald-400"
+          />
+          <span className="text-cyan-400 w-16">{rate ?? `${originalFps} (orig.)`}</span>
+        </label>
+        {rate !== null && (
+          <button onClick={() => setRate(null)} className={controlClassName}>Original timing</button>
+        )}
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+          Loop
+        </label>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as AsciiAnimationExportFormat)}
+          className="bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20"
+          title="Export format"
+        >
+          {ASCII_ANIMATION_EXPORT_FORMATS.map(option => (
+            <option key={option} value={option}>{EXPORT_LABELS[option]}</option>
+          ))}
+        </select>
+        <button onClick={handleExport} className={controlClassName}>
+          <Download className="w-3 h-3" /> Export
+        </button>
+      </div>
+    </div>
+  )
+}
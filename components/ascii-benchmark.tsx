@@ -0,0 +1,214 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type { AsciiArt } from "@/lib/ascii"
+import { convertBlobToAscii, type AsciiThread } from "@/lib/ascii/browser"
+import { drawAsciiToCanvas } from "@/lib/ascii/canvas"
+
+type Renderer = "gradients" | "batched"
+
+interface BenchmarkCase {
+  columns: number
+  rows: number
+  thread: AsciiThread
+  renderer: Renderer
+}
+
+interface BenchmarkResult extends BenchmarkCase {
+  convertMs: number
+  drawMs: number
+  // Longest gap between animation frames while the case ran
+  worstFrameMs: number
+  medianFrameMs: number
+}
+
+const GRID_SIZES = [
+  { columns: 100, rows: 120 },
+  { columns: 300, rows: 360 },
+]
+const THREADS: AsciiThread[] = ["main", "worker"]
+const RENDERERS: Renderer[] = ["gradients", "batched"]
+const RUNS_PER_CASE = 5
+const CHAR_WIDTH = 6
+const CHAR_HEIGHT = 10
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0
+}
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve))
+
+// Portrait-sized test image with gradients and noise, so no network is involved
+function createTestImage(): Promise<Blob> {
+  const canvas = document.createElement("canvas")
+  canvas.width = 900
+  canvas.height = 1080
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return Promise.reject(new Error("Canvas 2D is not supported"))
+
+  const gradient = ctx.createRadialGradient(450, 400, 50, 450, 540, 700)
+  gradient.addColorStop(0, "#f4c9a0")
+  gradient.addColorStop(0.5, "#5a3d7a")
+  gradient.addColorStop(1, "#0b0d1a")
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  for (let i = 0; i < 4000; i++) {
+    ctx.fillStyle = `hsl(${(i * 37) % 360}, 60%, ${30 + (i % 40)}%)`
+    ctx.fillRect((i * 7919) % canvas.width, (i * 104729) % canvas.height, 6, 6)
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the test image"))), "image/png")
+  })
+}
+
+// The previous renderer: a new linear gradient for every character
+function drawWithGradients(ctx: CanvasRenderingContext2D, art: AsciiArt) {
+  ctx.canvas.width = art.columns * CHAR_WIDTH
+  ctx.canvas.height = art.rows * CHAR_HEIGHT
+  ctx.fillStyle = "#000"
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  ctx.textBaseline = "top"
+  ctx.font = `${CHAR_HEIGHT}px monospace`
+
+  art.cells.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      const next = art.cells[y + 1]?.[x + 1]?.color || cell.color
+      const gradient = ctx.createLinearGradient(x * CHAR_WIDTH, y * CHAR_HEIGHT, (x + 1) * CHAR_WIDTH, (y + 1) * CHAR_HEIGHT)
+      gradient.addColorStop(0, `rgb(${cell.color[0]},${cell.color[1]},${cell.color[2]})`)
+      gradient.addColorStop(1, `rgb(${next[0]},${next[1]},${next[2]})`)
+      ctx.fillStyle = gradient
+      ctx.fillText(cell.char, x * CHAR_WIDTH, y * CHAR_HEIGHT)
+    })
+  })
+}
+
+/**
+ * Compares frame times of ASCII conversion on the main thread and in the
+ * worker, and of per-cell gradients against batched fills, for a small
+ * and a large grid
+ */
+export function AsciiBenchmark() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [results, setResults] = useState<BenchmarkResult[]>([])
+  const [status, setStatus] = useState<string>("")
+  const [running, setRunning] = useState<boolean>(false)
+
+  // Run one case, recording every animation frame gap while it runs
+  const runCase = async (image: Blob, ctx: CanvasRenderingContext2D, testCase: BenchmarkCase): Promise<BenchmarkResult> => {
+    const convertTimes: number[] = []
+    const drawTimes: number[] = []
+    const frameGaps: number[] = []
+
+    let recording = true
+    let lastFrame = performance.now()
+    const record = (time: number) => {
+      frameGaps.push(time - lastFrame)
+      lastFrame = time
+      if (recording) requestAnimationFrame(record)
+    }
+    requestAnimationFrame(record)
+
+    for (let run = 0; run < RUNS_PER_CASE; run++) {
+      const started = performance.now()
+      const art = await convertBlobToAscii(image, {
+        width: testCase.columns,
+        height: testCase.rows,
+        charset: "detailed",
+        invert: true,
+      }, testCase.thread)
+      const converted = performance.now()
+
+      if (testCase.renderer === "gradients") {
+        drawWithGradients(ctx, art)
+      } else {
+        drawAsciiToCanvas(ctx, art, { cellWidth: CHAR_WIDTH, cellHeight: CHAR_HEIGHT })
+      }
+      convertTimes.push(converted - started)
+      drawTimes.push(performance.now() - converted)
+      await nextFrame()
+    }
+
+    recording = false
+    await nextFrame()
+    return {
+      ...testCase,
+      convertMs: median(convertTimes),
+      drawMs: median(drawTimes),
+      worstFrameMs: Math.max(0, ...frameGaps),
+      medianFrameMs: median(frameGaps),
+    }
+  }
+
+  const run = async () => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!ctx || running) return
+
+    setRunning(true)
+    setResults([])
+    try {
+      const image = await createTestImage()
+      for (const size of GRID_SIZES) {
+        for (const thread of THREADS) {
+          for (const renderer of RENDERERS) {
+            setStatus(`Running ${size.columns}x${size.rows}, ${thread} thread, ${renderer}...`)
+            const result = await runCase(image, ctx, { ...size, thread, renderer })
+            setResults(prev => [...prev, result])
+          }
+        }
+      }
+      setStatus("Done")
+    } catch (error) {
+      console.error("Benchmark failed:", error)
+      setStatus(error instanceof Error ? `Failed: ${error.message}` : "Failed")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="p-4 sm:p-8 font-mono text-sm text-emerald-300 space-y-4">
+      <h1 className="text-lg text-cyan-400">ASCII rendering benchmark</h1>
+      <p className="text-gray-400">
+        Converts a 900x1080 test image {RUNS_PER_CASE} times per case and draws it with 6x10 px characters.
+        Times are medians in milliseconds; the worst frame shows how long the page was blocked.
+      </p>
+      <button
+        onClick={run}
+        disabled={running}
+        className="bg-black/70 hover:bg-black/90 px-3 py-2 rounded text-white border border-white/20 disabled:opacity-50"
+      >
+        {running ? "Running..." : "Run benchmark"}
+      </button>
+      {status && <div className="text-amber-300">{status}</div>}
+
+      {results.length > 0 && (
+        <table className="border-collapse">
+          <thead>
+            <tr className="text-left text-gray-300">
+              {["Grid", "Thread", "Renderer", "Convert", "Draw", "Median frame", "Worst frame"].map(heading => (
+                <th key={heading} className="border border-white/20 px-2 py-1">{heading}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, index) => (
+              <tr key={index}>
+                <td className="border border-white/20 px-2 py-1">{result.columns}x{result.rows}</td>
+                <td className="border border-white/20 px-2 py-1">{result.thread}</td>
+                <td className="border border-white/20 px-2 py-1">{result.renderer}</td>
+                <td className="border border-white/20 px-2 py-1 text-right">{result.convertMs.toFixed(1)}</td>
+                <td className="border border-white/20 px-2 py-1 text-right">{result.drawMs.toFixed(1)}</td>
+                <td className="border border-white/20 px-2 py-1 text-right">{result.medianFrameMs.toFixed(1)}</td>
+                <td className="border border-white/20 px-2 py-1 text-right">{result.worstFrameMs.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <canvas ref={canvasRef} className="border border-white/10" style={{ maxWidth: "100%", height: "auto" }} />
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useRef } from "react"
+import { clampCrop, type AsciiCrop } from "@/lib/ascii"
+
+interface AsciiCropSelectorProps {
+  src: string
+  crop: AsciiCrop
+  onChange: (crop: AsciiCrop) => void
+}
+
+type DragMode = "move" | "resize"
+
+/**
+ * The photo with a crop rectangle on top: drag the rectangle to move it
+ * and its corner handle to resize it
+ */
+export function AsciiCropSelector({ src, crop, onChange }: AsciiCropSelectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; start: AsciiCrop } | null>(null)
+
+  // The captured pointer's events bubble up to the container's handlers
+  const startDrag = (mode: DragMode) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { mode, startX: event.clientX, startY: event.clientY, start: crop }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    const container = containerRef.current
+    if (!drag || !container) return
+
+    const bounds = container.getBoundingClientRect()
+    const dx = (event.clientX - drag.startX) / bounds.width
+    const dy = (event.clientY - drag.startY) / bounds.height
+    const { start } = drag
+    onChange(clampCrop(drag.mode === "move"
+      ? { ...start, x: start.x + dx, y: start.y + dy }
+      : { ...start, width: Math.min(1 - start.x, start.width + dx), height: Math.min(1 - start.y, start.height + dy) }))
+  }
+
+  const endDrag = () => {
+    dragRef.current = null
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative inline-block select-none touch-none border border-primary/30 rounded overflow-hidden"
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      <img src={src} alt="Uploaded photo" className="block max-w-full max-h-[60vh]" draggable={false} />
+      <div
+        className="absolute border-2 border-primary cursor-move"
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.width * 100}%`,
+          height: `${crop.height * 100}%`,
+          // Dim everything outside the crop
+          boxShadow: "0 0 0 9999px rgba(0,0,0,0.55)",
+        }}
+        onPointerDown={startDrag("move")}
+        aria-label="Crop area"
+      >
+        <div
+          className="absolute -right-1.5 -bottom-1.5 h-3 w-3 bg-primary cursor-se-resize"
+          onPointerDown={startDrag("resize")}
+          aria-label="Resize crop area"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import React, { useState } from 'react';
+import { Download } from "lucide-react";
+import { ASCII_EXPORT_FORMATS, type AsciiArt, type AsciiExportFormat } from '@/lib/ascii';
+import { downloadAscii } from '@/lib/ascii/download';
+
+interface AsciiExportMenuProps {
+  art: AsciiArt;
+  // File name without extension
+  baseName: string;
+  title?: string;
+}
+
+const FORMAT_LABELS: Record<AsciiExportFormat, string> = {
+  txt: 'Plain text (.txt)',
+  html: 'Coloured HTML (.html)',
+  svg: 'Coloured SVG (.svg)',
+  png: 'Image (.png)',
+  ansi: 'ANSI for terminals (.ans)',
+};
+
+/**
+ * Format picker and download button for a piece of ASCII art
+ */
+export function AsciiExportMenu({ art, baseName, title }: AsciiExportMenuProps) {
+  const [format, setFormat] = useState<AsciiExportFormat>('txt');
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    setError('');
+    try {
+      await downloadAscii(art, format, baseName, { title });
+    } catch (err) {
+      console.error('Error exporting ASCII art:', err);
+      setError(err instanceof Error ? err.message : 'Could not export');
+    }
+  };
+
+  return (
+    <div className="flex gap-2 text-xs font-mono items-center">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as AsciiExportFormat)}
+        className="bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20"
+        title="Export format"
+      >
+        {ASCII_EXPORT_FORMATS.map(option => (
+          <option key={option} value={option}>{FORMAT_LABELS[option]}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        className="bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1"
+      >
+        <Download className="w-3 h-3" /> Export
+      </button>
+      {error && <span className="text-rose-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import React, { useMemo, useState } from 'react';
+import { Copy } from "lucide-react";
+import { asciiToAnsi, asciiToRuns, asciiToText, type AsciiArt } from '@/lib/ascii';
+import { AsciiExportMenu } from './ascii-export-menu';
+
+interface AsciiOutputProps {
+  art: AsciiArt;
+  // File name (without extension) for exports
+  name?: string;
+}
+
+/**
+ * ASCII art shown in the terminal history, with buttons to copy it as
+ * plain text or, in colour modes, with ANSI colour codes, and to export it
+ */
+export function AsciiOutput({ art, name = 'ascii-art' }: AsciiOutputProps) {
+  const [copied, setCopied] = useState<string>('');
+  const lines = useMemo(() => asciiToRuns(art), [art]);
+
+  const copy = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(label);
+      setTimeout(() => setCopied(''), 2000);
+    } catch (error) {
+      console.error('Error copying ASCII art:', error);
+      setCopied('failed');
+    }
+  };
+
+  return (
+    <div className="mb-2 sm:mb-3 border border-white/10 bg-black/70 rounded p-2 w-fit max-w-full">
+      <pre
+        className="overflow-x-auto text-emerald-300 text-[8px] sm:text-[10px] leading-none"
+        style={{ fontFamily: 'var(--font-mono, monospace)' }}
+      >
+        {lines.map((runs, row) => (
+          <div key={row}>
+            {runs.map((run, index) => (
+              <span key={index} style={run.color ? { color: run.color } : undefined}>{run.text}</span>
+            ))}
+          </div>
+        ))}
+      </pre>
+      <div className="flex gap-2 mt-2 text-xs font-mono">
+        <button
+          onClick={() => copy('text', asciiToText(art))}
+          className="bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1"
+          title="Copy as plain text"
+        >
+          <Copy className="w-3 h-3" /> Copy text
+        </button>
+        {art.colorMode !== 'mono' && (
+          <button
+            onClick={() => copy('ansi', asciiToAnsi(art))}
+            className="bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1"
+            title="Copy with ANSI colour codes, for pasting into a terminal"
+          >
+            <Copy className="w-3 h-3" /> Copy ANSI
+          </button>
+        )}
+        {copied && (
+          <span className={copied === 'failed' ? 'text-rose-400 self-center' : 'text-gray-400 self-center'}>
+            {copied === 'failed' ? 'Could not copy' : 'Copied'}
+          </span>
+        )}
+      </div>
+      <div className="mt-2">
+        <AsciiExportMenu art={art} baseName={name} />
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,12 @@
 "use client"
 
 import { AsciiPortraitCanvas } from "./ascii-portrait-canvas"
+import { DEFAULT_PORTRAIT_BRIGHTNESS, DEFAULT_PORTRAIT_CONTRAST, type PortraitSourceProps } from "./ascii-portrait-source"
 
-export function AsciiPortraitComparison() {
-  // Using fixed values as requested
-  const contrast = 1.4
-  const brightness = 0.7
-
+export function AsciiPortraitComparison({ src, crop }: PortraitSourceProps) {
   return (
     <div className="space-y-4">
-      <AsciiPortraitCanvas width={100} height={120} contrast={contrast} brightness={brightness} />
+      <AsciiPortraitCanvas src={src} crop={crop} height={120} contrast={DEFAULT_PORTRAIT_CONTRAST} brightness={DEFAULT_PORTRAIT_BRIGHTNESS} />
       <div className="text-center text-xs text-muted-foreground mt-2">ASCII Art Portrait</div>
     </div>
   )
@@ -0,0 +1,25 @@
+import type { AsciiCrop, PortraitCrop } from "@/lib/ascii"
+
+// Portrait shown by the ASCII portrait components when no src is given
+export const PORTRAIT_IMAGE_URL =
+  "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/WhatsApp%20Image%202024-08-19%20at%2023.09.35_bb0e84d7.jpg-vNaMYkbNtPefHIRx2bZUxvJhIofxMZ.jpeg"
+
+// Focus on the face and upper body of the default portrait
+export const PORTRAIT_CROP: AsciiCrop = { x: 0.2, y: 0.05, width: 0.6, height: 0.7 }
+
+export const DEFAULT_PORTRAIT_CONTRAST = 1.4
+export const DEFAULT_PORTRAIT_BRIGHTNESS = 0.7
+
+export interface PortraitSourceProps {
+  // Image URL; data and object URLs of local files work too
+  src?: string
+  // Defaults to the tuned crop for the default portrait and "auto" otherwise
+  crop?: PortraitCrop
+}
+
+/**
+ * Crop to use when a portrait component is not given one
+ * @param src The component's image
+ */
+export const defaultPortraitCrop = (src: string): PortraitCrop =>
+  src === PORTRAIT_IMAGE_URL ? PORTRAIT_CROP : "auto"
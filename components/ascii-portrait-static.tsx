@@ -1,9 +1,43 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import { asciiToRuns } from "@/lib/ascii"
+import { useAsciiArt } from "@/hooks/use-ascii-art"
+import { usePortraitCrop } from "@/hooks/use-portrait-crop"
+import {
+  DEFAULT_PORTRAIT_BRIGHTNESS,
+  DEFAULT_PORTRAIT_CONTRAST,
+  PORTRAIT_IMAGE_URL,
+  defaultPortraitCrop,
+  type PortraitSourceProps,
+} from "./ascii-portrait-source"
+import { AsciiExportMenu } from "./ascii-export-menu"
 
-export function AsciiPortraitStatic() {
+// Characters are about half an em wide with the tightened letter spacing
+const LINE_HEIGHT = 0.8
+const CHAR_WIDTH_EM = 0.5
+
+interface AsciiPortraitStaticProps extends PortraitSourceProps {
+  // Show a menu to download the portrait as text, HTML, SVG, PNG or ANSI
+  exportable?: boolean
+}
+
+export function AsciiPortraitStatic({
+  src = PORTRAIT_IMAGE_URL,
+  crop = defaultPortraitCrop(src),
+  exportable = false,
+}: AsciiPortraitStaticProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const portraitCrop = usePortraitCrop(src, crop)
+  const art = useAsciiArt(portraitCrop === null ? null : src, {
+    width: 100,
+    cellAspect: LINE_HEIGHT / CHAR_WIDTH_EM,
+    crop: portraitCrop ?? undefined,
+    charset: "detailed",
+    invert: true,
+    contrast: DEFAULT_PORTRAIT_CONTRAST,
+    brightness: DEFAULT_PORTRAIT_BRIGHTNESS,
+  })
 
   useEffect(() => {
     // Add a subtle animation effect
@@ -36,7 +70,7 @@ export function AsciiPortraitStatic() {
   }, [])
 
   return (
-    <div className="ascii-portrait-static-container flex justify-center my-4">
+    <div className="ascii-portrait-static-container flex flex-col items-center gap-2 my-4">
       <div
         ref={containerRef}
         className="border border-primary/30 rounded p-2 bg-black/80 shadow-lg shadow-primary/20 transition-all duration-300 hover:shadow-primary/40 max-w-[300px]"
@@ -46,182 +80,20 @@ export function AsciiPortraitStatic() {
         <div className="relative overflow-hidden">
           <pre
             className="text-[4px] sm:text-[5px] md:text-[6px] font-mono"
-            style={{ lineHeight: 0.8, letterSpacing: "-0.1em" }}
+            style={{ lineHeight: LINE_HEIGHT, letterSpacing: "-0.1em" }}
           >
-            {/* Pre-processed ASCII art with color spans would go here */}
-            {/* This is a simplified version - in a real implementation, this would be much more detailed */}
-            <span className="text-blue-900">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-800">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-800">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-700">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-700">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-600">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-600">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-500">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-500">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-400">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-400">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-300">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-300">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-200">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-200">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-100">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-blue-100">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-800">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-800">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-700">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-700">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-600">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-600">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-500">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-500">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-400">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-400">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-300">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-300">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-200">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-200">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-100">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-gray-100">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-900">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-800">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-700">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-600">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-500">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-400">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-300">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-200">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
-            <span className="text-amber-100">
-              @@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@
-            </span>
-            <br />
+            {art && asciiToRuns(art).map((runs, row) => (
+              <div key={row}>
+                {runs.map((run, index) => (
+                  <span key={index} style={run.color ? { color: run.color } : undefined}>{run.text}</span>
+                ))}
+              </div>
+            ))}
           </pre>
           <div className="absolute inset-0 bg-gradient-to-t from-black/30 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300" />
         </div>
       </div>
+      {exportable && art && <AsciiExportMenu art={art} baseName="ascii-portrait" />}
     </div>
   )
 }
@@ -0,0 +1,252 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import type { User } from "@supabase/supabase-js"
+import {
+  ASCII_CHARSET_NAMES,
+  ASCII_MODES,
+  MAX_ASCII_WIDTH,
+  MIN_ASCII_WIDTH,
+  asciiToText,
+  type AsciiArt,
+  type AsciiCharset,
+  type AsciiCrop,
+  type AsciiMode,
+} from "@/lib/ascii"
+import { detectPortraitCrop } from "@/lib/ascii/browser"
+import {
+  MAX_PORTRAIT_BRIGHTNESS,
+  MAX_PORTRAIT_CONTRAST,
+  MIN_PORTRAIT_BRIGHTNESS,
+  MIN_PORTRAIT_CONTRAST,
+  type AsciiPortraitRecord,
+  type PortraitSettings,
+  type SavePortraitInput,
+} from "@/lib/portraits"
+import type { ReferenceImage } from "@/lib/references"
+import { requestJson } from "@/lib/terminal/api"
+import { ACCEPTED_REFERENCE_TYPES, uploadReferenceImage } from "@/lib/terminal/upload"
+import AuthModal from "./auth-modal"
+import { AsciiCropSelector } from "./ascii-crop-selector"
+import { AsciiPortraitCanvas } from "./ascii-portrait-canvas"
+import { DEFAULT_PORTRAIT_BRIGHTNESS, DEFAULT_PORTRAIT_CONTRAST } from "./ascii-portrait-source"
+
+// Photos are scaled down to this before upload; more detail than any
+// ASCII width can show
+const MAX_PHOTO_SIDE = 768
+const DEFAULT_STUDIO_WIDTH = 100
+const FULL_FRAME: AsciiCrop = { x: 0, y: 0, width: 1, height: 1 }
+
+const controlClassName = "bg-black/70 hover:bg-black/90 px-3 py-2 rounded text-white border border-white/20 disabled:opacity-50"
+
+interface SliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function SliderControl({ label, value, min, max, step, onChange }: SliderProps) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-gray-300">
+        {label}: <span className="text-cyan-400">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="accent-emerald-400"
+      />
+    </label>
+  )
+}
+
+/**
+ * Upload a photo, frame it and tune its ASCII portrait live, then save it
+ */
+export function AsciiPortraitStudio() {
+  const supabase = createClientComponentClient()
+  const [user, setUser] = useState<User | null>(null)
+  const [showAuthModal, setShowAuthModal] = useState(false)
+  const [photo, setPhoto] = useState<ReferenceImage | null>(null)
+  const [crop, setCrop] = useState<AsciiCrop>(FULL_FRAME)
+  const [settings, setSettings] = useState<Omit<PortraitSettings, "crop">>({
+    width: DEFAULT_STUDIO_WIDTH,
+    contrast: DEFAULT_PORTRAIT_CONTRAST,
+    brightness: DEFAULT_PORTRAIT_BRIGHTNESS,
+    charset: "detailed",
+    mode: "luminance",
+    invert: true,
+  })
+  const [art, setArt] = useState<AsciiArt | null>(null)
+  const [name, setName] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: "info" | "error" | "success"; message: string } | null>(null)
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setUser(data.user))
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user || null)
+    })
+    return () => subscription.unsubscribe()
+  }, [supabase.auth])
+
+  const update = <K extends keyof typeof settings>(key: K, value: (typeof settings)[K]) => {
+    setSettings(current => ({ ...current, [key]: value }))
+  }
+
+  const frameFace = async (src: string) => {
+    setStatus({ type: "info", message: "Looking for a face..." })
+    try {
+      const found = await detectPortraitCrop(src)
+      setCrop(found || FULL_FRAME)
+      setStatus(found ? null : { type: "info", message: "No face found; adjust the crop by hand." })
+    } catch (error) {
+      console.error("Error detecting the portrait's face:", error)
+      setStatus({ type: "error", message: "Face detection failed; adjust the crop by hand." })
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    setBusy(true)
+    setArt(null)
+    setStatus({ type: "info", message: `Uploading ${file.name}...` })
+    try {
+      const uploaded = await uploadReferenceImage(file, { maxSide: MAX_PHOTO_SIDE })
+      setPhoto(uploaded)
+      setName(file.name.replace(/\.[^.]+$/, ""))
+      await frameFace(uploaded.imageUrl)
+    } catch (error) {
+      setStatus({ type: "error", message: error instanceof Error ? error.message : "Failed to upload the photo." })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!photo || !art) return
+    setBusy(true)
+    try {
+      const body: SavePortraitInput = {
+        referenceImageId: photo.id,
+        name: name || undefined,
+        settings: { ...settings, crop },
+        columns: art.columns,
+        rows: art.rows,
+        content: asciiToText(art),
+      }
+      const { portrait } = await requestJson<{ portrait: AsciiPortraitRecord }>("/api/portraits", {
+        method: "POST",
+        body: JSON.stringify(body),
+      })
+      setStatus({ type: "success", message: `Saved portrait ${portrait.shortId} (${portrait.columns}x${portrait.rows}).` })
+    } catch (error) {
+      setStatus({ type: "error", message: error instanceof Error ? error.message : "Failed to save the portrait." })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleConvert = useCallback((converted: AsciiArt) => setArt(converted), [])
+
+  return (
+    <div className="p-4 sm:p-8 font-mono text-sm text-emerald-300 space-y-4">
+      <h1 className="text-lg text-cyan-400">ASCII portrait studio</h1>
+
+      {!user ? (
+        <div className="space-y-2">
+          <p className="text-gray-400">Sign in to upload a photo and save ASCII portraits of it.</p>
+          <button className={controlClassName} onClick={() => setShowAuthModal(true)}>Sign in</button>
+        </div>
+      ) : (
+        <label className="block space-y-1">
+          <span className="text-gray-300">Photo (PNG, JPEG, WebP or GIF)</span>
+          <input
+            type="file"
+            accept={ACCEPTED_REFERENCE_TYPES.join(",")}
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ""
+            }}
+            className="block text-gray-300"
+          />
+        </label>
+      )}
+
+      {status && (
+        <div className={status.type === "error" ? "text-red-400" : status.type === "success" ? "text-emerald-400" : "text-amber-300"}>
+          {status.message}
+        </div>
+      )}
+
+      {photo && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-3">
+            <AsciiCropSelector src={photo.imageUrl} crop={crop} onChange={setCrop} />
+            <div className="flex gap-2">
+              <button className={controlClassName} disabled={busy} onClick={() => frameFace(photo.imageUrl)}>Auto-crop to face</button>
+              <button className={controlClassName} disabled={busy} onClick={() => setCrop(FULL_FRAME)}>Whole photo</button>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <SliderControl label="Width" value={settings.width} min={MIN_ASCII_WIDTH} max={MAX_ASCII_WIDTH} step={1} onChange={(value) => update("width", value)} />
+              <SliderControl label="Contrast" value={settings.contrast} min={MIN_PORTRAIT_CONTRAST} max={MAX_PORTRAIT_CONTRAST} step={0.05} onChange={(value) => update("contrast", value)} />
+              <SliderControl label="Brightness" value={settings.brightness} min={MIN_PORTRAIT_BRIGHTNESS} max={MAX_PORTRAIT_BRIGHTNESS} step={0.05} onChange={(value) => update("brightness", value)} />
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-300">Characters</span>
+                <select value={settings.charset} onChange={(e) => update("charset", e.target.value as AsciiCharset)} className={controlClassName}>
+                  {ASCII_CHARSET_NAMES.map(charset => <option key={charset} value={charset}>{charset}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-300">Mode</span>
+                <select value={settings.mode} onChange={(e) => update("mode", e.target.value as AsciiMode)} className={controlClassName}>
+                  {ASCII_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={settings.invert} onChange={(e) => update("invert", e.target.checked)} />
+                Dense characters for dark areas
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Portrait name"
+                maxLength={120}
+                className={`${controlClassName} flex-1`}
+              />
+              <button className={controlClassName} disabled={busy || !art} onClick={handleSave}>Save portrait</button>
+            </div>
+          </div>
+
+          <AsciiPortraitCanvas
+            src={photo.imageUrl}
+            crop={crop}
+            width={settings.width}
+            contrast={settings.contrast}
+            brightness={settings.brightness}
+            charset={settings.charset}
+            mode={settings.mode}
+            invert={settings.invert}
+            onConvert={handleConvert}
+            exportable
+          />
+        </div>
+      )}
+
+      <AuthModal show={showAuthModal} onClose={() => setShowAuthModal(false)} />
+    </div>
+  )
+}
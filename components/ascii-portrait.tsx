@@ -1,85 +1,55 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import { useAsciiArt } from "@/hooks/use-ascii-art"
+import { drawAsciiToCanvas } from "@/lib/ascii/canvas"
+import { usePortraitCrop } from "@/hooks/use-portrait-crop"
+import type { PortraitSourceProps } from "./ascii-portrait-source"
 
-interface AsciiPortraitProps {
+interface AsciiPortraitProps extends PortraitSourceProps {
   width?: number
   height?: number
 }
 
-export function AsciiPortrait({ width = 60, height = 80 }: AsciiPortraitProps) {
+const POSE_IMAGE_URL = "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/pose2.JPEG-6Ua6wNwVYcJtG1UMNf8o6wYovA9RUA.jpeg"
+// Characters are drawn on a square 8px grid
+const CELL_SIZE = 8
+
+export function AsciiPortrait({ width = 60, height = 80, src = POSE_IMAGE_URL, crop = "none" }: AsciiPortraitProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const portraitCrop = usePortraitCrop(src, crop)
+  const art = useAsciiArt(portraitCrop === null ? null : src, {
+    height,
+    cellAspect: 1,
+    crop: portraitCrop ?? undefined,
+    charset: "standard",
+    invert: true,
+  })
 
   useEffect(() => {
     const canvas = canvasRef.current
-    if (!canvas) return
+    if (!canvas || !art) return
 
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Load the image
-    const img = new Image()
-    img.crossOrigin = "anonymous"
-    img.src = "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/pose2.JPEG-6Ua6wNwVYcJtG1UMNf8o6wYovA9RUA.jpeg"
-
-    img.onload = () => {
-      // Calculate aspect ratio
-      const aspectRatio = img.width / img.height
-      const adjustedWidth = Math.floor(height * aspectRatio)
-
-      // Draw image to canvas
-      ctx.drawImage(img, 0, 0, adjustedWidth, height)
-
-      // Get image data
-      const imageData = ctx.getImageData(0, 0, adjustedWidth, height)
-      const data = imageData.data
-
-      // Clear canvas for redrawing
-      ctx.clearRect(0, 0, adjustedWidth * 10, height * 10)
-
-      // ASCII characters from darkest to lightest
-      const asciiChars = ["@", "%", "#", "*", "+", "=", "-", ":", ".", " "]
-
-      // Draw ASCII art
-      ctx.fillStyle = "#000"
-      ctx.fillRect(0, 0, adjustedWidth * 10, height * 10)
-
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < adjustedWidth; x++) {
-          // Get pixel color
-          const i = (y * adjustedWidth + x) * 4
-          const r = data[i]
-          const g = data[i + 1]
-          const b = data[i + 2]
-
-          // Calculate brightness
-          const brightness = 0.299 * r + 0.587 * g + 0.114 * b
-
-          // Map brightness to ASCII character
-          const charIndex = Math.floor((brightness / 255) * (asciiChars.length - 1))
-          const char = asciiChars[charIndex]
-
-          // Use color from image
-          ctx.fillStyle = `rgb(${r},${g},${b})`
-          ctx.font = '8px var(--font-mono, monospace)'
-          ctx.fillText(char, x * 8, y * 8)
-        }
-      }
-    }
-  }, [width, height])
+    drawAsciiToCanvas(ctx, art, {
+      cellWidth: CELL_SIZE,
+      cellHeight: CELL_SIZE,
+      fontFamily: "var(--font-mono, monospace)",
+    })
+  }, [art])
 
   return (
     <div className="ascii-portrait-container flex justify-center my-4 overflow-hidden">
       <div className="relative group">
         <canvas
           ref={canvasRef}
-          width={width * 10}
-          height={height * 10}
           className="border border-primary/30 rounded transition-all duration-300 filter hover:brightness-110"
+          style={{ maxWidth: width * 10 }}
         />
         <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
       </div>
     </div>
   )
 }
-
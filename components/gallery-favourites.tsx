@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { GalleryCollection, GalleryItem } from '@/lib/gallery';
+import { requestJson } from '@/lib/terminal/api';
+
+interface GalleryFavouritesProps {
+  onSelect: (itemId: string) => void;
+}
+
+/**
+ * The signed-in user's favourites collections, each a row of thumbnails
+ * that open the item or can be removed from the collection
+ */
+export default function GalleryFavourites({ onSelect }: GalleryFavouritesProps) {
+  const [collections, setCollections] = useState<GalleryCollection[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    requestJson<{ collections: GalleryCollection[] }>('/api/favourites')
+      .then(body => setCollections(body.collections))
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load your favourites'));
+  }, []);
+
+  const remove = async (collection: GalleryCollection, item: GalleryItem) => {
+    setError('');
+    try {
+      const query = new URLSearchParams({ itemId: item.id, collection: collection.name });
+      await requestJson(`/api/favourites?${query}`, { method: 'DELETE' });
+      setCollections(prev => (prev || []).map(entry => (
+        entry.id === collection.id ? { ...entry, items: entry.items.filter(saved => saved.id !== item.id) } : entry
+      )));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the favourite');
+    }
+  };
+
+  if (error) return <p className="text-red-400 font-mono text-sm">{error}</p>;
+  if (!collections) return <p className="text-gray-400 font-mono text-sm">Loading...</p>;
+  if (collections.length === 0) {
+    return <p className="text-gray-400 font-mono text-sm">No favourites yet. Open an item and save it to a collection.</p>;
+  }
+
+  return (
+    <div className="space-y-6 font-mono text-sm">
+      {collections.map(collection => (
+        <div key={collection.id}>
+          <h3 className="text-cyan-300 mb-2">{collection.name} <span className="text-gray-500">({collection.items.length})</span></h3>
+          {collection.items.length === 0 ? (
+            <p className="text-gray-500">Empty.</p>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              {collection.items.map(item => (
+                <div key={item.id} className="relative w-24">
+                  <button
+                    onClick={() => onSelect(item.id)}
+                    className="block w-24 h-24 bg-gradient-to-br from-gray-900 to-black border border-white/10 rounded hover:border-cyan-400/50"
+                    title={item.title}
+                  >
+                    <img
+                      src={item.imageUrl}
+                      alt={item.title}
+                      className="w-full h-full object-contain p-1"
+                      style={{ imageRendering: 'pixelated' }}
+                    />
+                  </button>
+                  <button
+                    onClick={() => remove(collection, item)}
+                    className="absolute top-1 right-1 bg-black/70 text-gray-400 hover:text-white rounded"
+                    title={`Remove from ${collection.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                  <p className="text-gray-400 text-xs truncate mt-1">{item.title}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { Heart, Shuffle, Star } from 'lucide-react';
+import {
+  buildRemixCommand,
+  DEFAULT_COLLECTION_NAME,
+  MAX_COLLECTION_NAME_LENGTH,
+  type GalleryItem,
+  type RemixNode,
+} from '@/lib/gallery';
+import { requestJson } from '@/lib/terminal/api';
+
+interface GalleryItemDetailProps {
+  itemId: string;
+  onClose: () => void;
+  // Open another item of the remix tree
+  onSelect: (itemId: string) => void;
+  // Keeps the grid's hearts and counts in step with likes made here
+  onLikeChange: (itemId: string, liked: boolean, likeCount: number) => void;
+  // Receives the generate command that remixes the item
+  onRemix: (command: string) => void;
+}
+
+interface ItemDetail {
+  item: GalleryItem;
+  tree: RemixNode;
+  liked: boolean;
+}
+
+const buttonClass = 'flex items-center gap-1 text-sm bg-black/50 text-white px-2 py-1 rounded hover:bg-black/80 transition-colors font-mono border border-cyan-900/30 hover:border-cyan-400/30 disabled:opacity-50';
+
+// One item of the remix tree and, indented below it, its remixes
+function RemixTree({ node, currentId, onSelect }: { node: RemixNode; currentId: string; onSelect: (itemId: string) => void }) {
+  const current = node.item.id === currentId;
+  return (
+    <li>
+      <button
+        onClick={() => onSelect(node.item.id)}
+        disabled={current}
+        className={`flex items-center gap-2 py-0.5 text-left ${current ? 'text-cyan-300' : 'text-gray-300 hover:text-white'}`}
+      >
+        <img
+          src={node.item.imageUrl}
+          alt=""
+          className="w-6 h-6 object-contain bg-black/50"
+          style={{ imageRendering: 'pixelated' }}
+        />
+        <span className="truncate">{node.item.title}</span>
+        <span className="text-gray-500">{node.item.shortId}</span>
+      </button>
+      {node.remixes.length > 0 && (
+        <ul className="ml-4 pl-2 border-l border-cyan-900/40">
+          {node.remixes.map(remix => (
+            <RemixTree key={remix.item.id} node={remix} currentId={currentId} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * A gallery item in full: its prompt and settings, liking, saving to a
+ * favourites collection, remixing, and the remix tree it belongs to
+ */
+export default function GalleryItemDetail({ itemId, onClose, onSelect, onLikeChange, onRemix }: GalleryItemDetailProps) {
+  const [detail, setDetail] = useState<ItemDetail | null>(null);
+  const [collection, setCollection] = useState(DEFAULT_COLLECTION_NAME);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetail(null);
+    setMessage('');
+    setError('');
+    requestJson<ItemDetail>(`/api/gallery/${encodeURIComponent(itemId)}`)
+      .then(loaded => {
+        if (!cancelled) setDetail(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the gallery item');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+
+  // Likes, favourites: run one request at a time and report its outcome
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setMessage('');
+    setError('');
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleLike = () => run(async () => {
+    if (!detail) return;
+    const { liked, likeCount } = await requestJson<{ liked: boolean; likeCount: number }>(
+      `/api/gallery/${detail.item.id}/like`,
+      { method: detail.liked ? 'DELETE' : 'POST' }
+    );
+    setDetail({ ...detail, liked, item: { ...detail.item, likeCount } });
+    onLikeChange(detail.item.id, liked, likeCount);
+  });
+
+  const addToCollection = () => run(async () => {
+    if (!detail) return;
+    const name = collection.trim() || DEFAULT_COLLECTION_NAME;
+    await requestJson('/api/favourites', {
+      method: 'POST',
+      body: JSON.stringify({ itemId: detail.item.id, collection: name }),
+    });
+    return `Saved to ${name}.`;
+  });
+
+  const item = detail?.item;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-black/90 p-6 rounded-lg border border-white/10 w-full max-w-3xl max-h-full overflow-y-auto relative font-mono text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-400 hover:text-white"
+          aria-label="Close"
+        >
+          ×
+        </button>
+
+        {!detail && !error && <p className="text-gray-400">Loading...</p>}
+        {error && !detail && <p className="text-red-400">{error}</p>}
+
+        {item && detail && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="aspect-square flex items-center justify-center bg-gradient-to-br from-gray-900 to-black rounded">
+              <img
+                src={item.imageUrl}
+                alt={item.title}
+                className="w-full h-full object-contain p-2"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <h3 className="text-cyan-300 text-xl" style={{ fontFamily: "var(--font-pixel)" }}>{item.title}</h3>
+                <p className="text-gray-500 text-xs">
+                  {item.shortId} · {new Date(item.createdAt).toLocaleDateString()}
+                  {item.width && item.height ? ` · ${item.width}×${item.height}` : ''}
+                </p>
+              </div>
+              {item.description && <p className="text-gray-300">{item.description}</p>}
+              {item.prompt && (
+                <p className="text-gray-400"><span className="text-gray-500">prompt:</span> {item.prompt}</p>
+              )}
+              {item.seed !== null && (
+                <p className="text-gray-400"><span className="text-gray-500">seed:</span> {item.seed}</p>
+              )}
+              {item.tags.length > 0 && (
+                <p className="text-cyan-500">{item.tags.map(tag => `#${tag}`).join(' ')}</p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <button onClick={toggleLike} disabled={busy} className={buttonClass} title={detail.liked ? 'Unlike' : 'Like'}>
+                  <Heart className={`w-3 h-3 ${detail.liked ? 'fill-red-500 text-red-500' : ''}`} /> {item.likeCount}
+                </button>
+                <button onClick={() => onRemix(buildRemixCommand(item))} className={buttonClass} title="Open the terminal with this item's prompt, seed and flags">
+                  <Shuffle className="w-3 h-3" /> Remix
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  value={collection}
+                  onChange={(e) => setCollection(e.target.value)}
+                  maxLength={MAX_COLLECTION_NAME_LENGTH}
+                  className="flex-1 min-w-0 bg-black/50 text-white px-2 py-1 rounded border border-cyan-900/30 focus:border-cyan-400/30 outline-none"
+                  aria-label="Favourites collection"
+                />
+                <button onClick={addToCollection} disabled={busy} className={buttonClass}>
+                  <Star className="w-3 h-3" /> Save
+                </button>
+              </div>
+
+              {message && <p className="text-green-400">{message}</p>}
+              {error && <p className="text-red-400">{error}</p>}
+            </div>
+
+            <div className="md:col-span-2">
+              <h4 className="text-gray-300 mb-1">Remix tree</h4>
+              {detail.tree.remixes.length === 0 ? (
+                <p className="text-gray-500">No remixes yet. Be the first.</p>
+              ) : (
+                <ul>
+                  <RemixTree node={detail.tree} currentId={item.id} onSelect={onSelect} />
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
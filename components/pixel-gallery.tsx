@@ -1,153 +1,255 @@
 "use client"
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Heart, X } from 'lucide-react';
+import type { GalleryItem, GalleryPage, GallerySort } from '@/lib/gallery';
+import { requestJson } from '@/lib/terminal/api';
+import GalleryFavourites from './gallery-favourites';
+import GalleryItemDetail from './gallery-item-detail';
 
-interface GalleryItem {
-  id: string;
-  name: string;
-  imageUrl: string;
-  description?: string;
+const SORT_LABELS: Record<GallerySort, string> = {
+  newest: 'Newest',
+  liked: 'Most liked',
+};
+
+// Load one page of the public gallery, with the ids on it the user has liked
+function fetchGalleryPage(sort: GallerySort, tags: string[], cursor?: string): Promise<GalleryPage & { likedIds: string[] }> {
+  const query = new URLSearchParams({ sort });
+  if (tags.length > 0) query.set('tags', tags.join(','));
+  if (cursor) query.set('cursor', cursor);
+
+  return requestJson<GalleryPage & { likedIds: string[] }>(`/api/gallery?${query}`);
+}
+
+interface PixelGalleryProps {
+  // Receives the generate command when someone remixes an item
+  onRemix: (command: string) => void;
 }
 
-export default function PixelGallery() {
-  // Static gallery items with real pixel art
-  const [galleryItems] = useState<GalleryItem[]>([
-    { 
-      id: '1', 
-      name: 'Coca Cola', 
-      imageUrl: '/images/gallery/coca-cola.png',
-      description: 'Retro-style beverage advertisement'
-    },
-    { 
-      id: '2', 
-      name: 'Spiderman', 
-      imageUrl: '/images/gallery/spiderman.png',
-      description: 'Web-slinging superhero in pixel form'
-    },
-    { 
-      id: '3', 
-      name: 'Pixel Landscape', 
-      imageUrl: '/images/gallery/pixel-landscape.png',
-      description: 'Serene nature scene with retro aesthetics'
-    },
-    { 
-      id: '4', 
-      name: 'Beautiful Woman', 
-      imageUrl: '/images/gallery/beautiful-woman.png',
-      description: 'Elegant portrait in pixel art style'
-    },
-    { 
-      id: '5', 
-      name: 'Cute Girl', 
-      imageUrl: '/images/gallery/cute-girl.png',
-      description: 'Charming character design with pixelated details'
-    },
-    { 
-      id: '6', 
-      name: 'Pixel Character', 
-      imageUrl: '/images/gallery/pixel-character.png',
-      description: 'Original game-style character design'
-    },
-    { 
-      id: '7', 
-      name: 'Neon City', 
-      imageUrl: '/images/gallery/neon-city.png',
-      description: 'Cyberpunk urban landscape with glowing elements'
-    },
-    { 
-      id: '8', 
-      name: 'Space Explorer', 
-      imageUrl: '/images/gallery/space-explorer.png',
-      description: 'Astronaut character in a retro sci-fi style'
-    },
-    { 
-      id: '9', 
-      name: 'Fantasy Castle', 
-      imageUrl: '/images/gallery/fantasy-castle.png',
-      description: 'Magical medieval fortress with pixel details'
-    },
-    { 
-      id: '10', 
-      name: 'Pixel Dragon', 
-      imageUrl: '/images/gallery/pixel-dragon.png',
-      description: 'Mythical creature rendered in classic pixel art'
-    },
-    { 
-      id: '11', 
-      name: 'Sunset Beach', 
-      imageUrl: '/images/gallery/sunset-beach.png',
-      description: 'Tropical shoreline scene with warm pixel colors'
-    },
-    { 
-      id: '12', 
-      name: 'Retro Arcade', 
-      imageUrl: '/images/gallery/retro-arcade.png',
-      description: 'Nostalgic gaming environment with 80s aesthetics'
-    },
-  ]);
+/**
+ * The public gallery: published generations and the seeded showcase,
+ * newest or most liked first, filtered by tags and loaded a page at a time.
+ * Items open in a detail view for liking, saving to favourites and remixing.
+ */
+export default function PixelGallery({ onRemix }: PixelGalleryProps) {
+  const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
+  const [likedIds, setLikedIds] = useState<string[]>([]);
+  const [showFavourites, setShowFavourites] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sort, setSort] = useState<GallerySort>('newest');
+  const [tags, setTags] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Responses to an earlier sort or filter are dropped
+  const requestRef = useRef(0);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError('');
+    try {
+      const page = await fetchGalleryPage(sort, tags, cursor);
+      if (request !== requestRef.current) return;
+      setGalleryItems(prev => (cursor ? [...prev, ...page.items] : page.items));
+      setLikedIds(prev => (cursor ? [...prev, ...page.likedIds] : page.likedIds));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Error loading gallery:', err);
+      setError(err instanceof Error ? err.message : 'Could not load the gallery');
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [sort, tags]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const addTag = (tag: string) => {
+    if (!tags.includes(tag)) setTags([...tags, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    setTags(tags.filter(active => active !== tag));
+  };
+
+  const updateLike = (itemId: string, liked: boolean, likeCount: number) => {
+    setLikedIds(prev => (liked ? [...prev.filter(id => id !== itemId), itemId] : prev.filter(id => id !== itemId)));
+    setGalleryItems(prev => prev.map(item => (item.id === itemId ? { ...item, likeCount } : item)));
+  };
+
+  const toggleLike = async (item: GalleryItem) => {
+    setError('');
+    try {
+      const { liked, likeCount } = await requestJson<{ liked: boolean; likeCount: number }>(
+        `/api/gallery/${item.id}/like`,
+        { method: likedIds.includes(item.id) ? 'DELETE' : 'POST' }
+      );
+      updateLike(item.id, liked, likeCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update the like');
+    }
+  };
+
+  const remix = (command: string) => {
+    setSelectedId(null);
+    onRemix(command);
+  };
 
   return (
     <div className="w-full max-w-6xl mx-auto mt-8 rounded-lg overflow-hidden border border-white/10">
       <div className="w-full max-w-6xl mx-auto p-4">
         <div className="mb-8">
           <div className="bg-black/60 p-3 backdrop-blur-sm border-b border-white/10">
-            <h2 
+            <h2
               className="text-2xl md:text-3xl lg:text-4xl font-bold text-white text-center pixel-effect"
               style={{ fontFamily: "var(--font-pixel)" }}
             >
               Gallery
             </h2>
             <p className="text-gray-300 text-center text-sm md:text-base mt-2 pixel-effect">
-              Featured pixel art creations
+              Pixel art from the community. Share yours with <code className="text-cyan-300">publish &lt;id&gt;</code> in the terminal
             </p>
           </div>
         </div>
       </div>
-      
-      <div className="bg-black/70 p-4">
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-          {galleryItems.map((item) => (
-            <div 
-              key={item.id} 
-              className="border border-white/10 rounded-md overflow-hidden bg-black/50 transition-all hover:border-cyan-400/50 hover:shadow-lg hover:shadow-cyan-900/20"
+
+      <div className="bg-black/70 px-4 pt-4 flex flex-wrap items-center gap-2 font-mono text-sm">
+        <button
+          onClick={() => setShowFavourites(!showFavourites)}
+          className="bg-black/50 text-white px-2 py-1 rounded border border-cyan-900/30 hover:border-cyan-400/30"
+        >
+          {showFavourites ? 'Back to gallery' : 'My favourites'}
+        </button>
+        {!showFavourites && (
+          <>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as GallerySort)}
+              className="bg-black/50 text-white px-2 py-1 rounded border border-cyan-900/30 hover:border-cyan-400/30"
+              aria-label="Sort gallery"
             >
-              <div className="aspect-square relative flex items-center justify-center bg-gradient-to-br from-gray-900 to-black">
-                <div className="absolute inset-0 border-2 border-dashed border-cyan-900/20 m-1 pointer-events-none rounded"></div>
-                <img 
-                  src={item.imageUrl} 
-                  alt={item.name}
-                  className="w-full h-full object-contain p-2"
-                  style={{ imageRendering: 'pixelated' }}
-                  onError={(e) => {
-                    // Customize placeholder based on the item name for variety
-                    const placeholderText = encodeURIComponent(item.name);
-                    const bgColor = item.id.length > 1 ? 
-                      `10${item.id}030` : '102030'; // Slight color variation
-                    (e.target as HTMLImageElement).src = `https://placehold.co/256x256/${bgColor}/cyan?text=${placeholderText}`;
-                  }}
-                />
-              </div>
-              <div className="p-2">
-                <h3 className="text-cyan-300 text-base md:text-lg font-medium truncate" style={{ fontFamily: "var(--font-pixel)" }}>
-                  {item.name}
-                </h3>
-                {item.description && (
-                  <p className="text-gray-400 text-sm mt-1 line-clamp-2">{item.description}</p>
-                )}
-                <div className="flex justify-between items-center mt-2">
-                  <button 
-                    className="text-sm bg-black/50 text-white px-2 py-1 rounded hover:bg-black/80 transition-colors font-mono border border-cyan-900/30 hover:border-cyan-400/30"
-                    onClick={() => window.open(item.imageUrl, '_blank')}
-                  >
-                    View
-                  </button>
-                  <span className="text-gray-400 text-sm font-mono">256×256</span>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => removeTag(tag)}
+                className="flex items-center gap-1 bg-cyan-900/40 text-cyan-200 px-2 py-1 rounded border border-cyan-400/30"
+                title={`Stop filtering by ${tag}`}
+              >
+                #{tag} <X className="w-3 h-3" />
+              </button>
+            ))}
+            {tags.length === 0 && <span className="text-gray-500">Click a tag to filter</span>}
+          </>
+        )}
+      </div>
+
+      {showFavourites ? (
+        <div className="bg-black/70 p-4">
+          <GalleryFavourites onSelect={setSelectedId} />
+        </div>
+      ) : (
+        <div className="bg-black/70 p-4">
+          {error && <p className="text-red-400 font-mono text-sm mb-4">{error}</p>}
+          {!loading && !error && galleryItems.length === 0 && (
+            <p className="text-gray-400 font-mono text-sm">Nothing here yet{tags.length > 0 ? ' with these tags' : ''}.</p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {galleryItems.map((item) => (
+              <div
+                key={item.id}
+                className="border border-white/10 rounded-md overflow-hidden bg-black/50 transition-all hover:border-cyan-400/50 hover:shadow-lg hover:shadow-cyan-900/20"
+              >
+                <div className="aspect-square relative flex items-center justify-center bg-gradient-to-br from-gray-900 to-black">
+                  <div className="absolute inset-0 border-2 border-dashed border-cyan-900/20 m-1 pointer-events-none rounded"></div>
+                  <img
+                    src={item.imageUrl}
+                    alt={item.title}
+                    className="w-full h-full object-contain p-2"
+                    style={{ imageRendering: 'pixelated' }}
+                    onError={(e) => {
+                      // Placeholder named after the item, tinted by its id
+                      const placeholderText = encodeURIComponent(item.title);
+                      const bgColor = `10${item.shortId.slice(-1)}030`;
+                      (e.target as HTMLImageElement).src = `https://placehold.co/256x256/${bgColor}/cyan?text=${placeholderText}`;
+                    }}
+                  />
+                </div>
+                <div className="p-2">
+                  <h3 className="text-cyan-300 text-base md:text-lg font-medium truncate" style={{ fontFamily: "var(--font-pixel)" }}>
+                    {item.title}
+                  </h3>
+                  {item.description && (
+                    <p className="text-gray-400 text-sm mt-1 line-clamp-2">{item.description}</p>
+                  )}
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => addTag(tag)}
+                          className="text-xs font-mono text-cyan-500 hover:text-cyan-300"
+                          title={`Show only #${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center mt-2">
+                    <button
+                      className="text-sm bg-black/50 text-white px-2 py-1 rounded hover:bg-black/80 transition-colors font-mono border border-cyan-900/30 hover:border-cyan-400/30"
+                      onClick={() => setSelectedId(item.id)}
+                    >
+                      View
+                    </button>
+                    <span className="flex items-center gap-2 text-gray-400 text-sm font-mono">
+                      <button
+                        onClick={() => toggleLike(item)}
+                        className="flex items-center gap-1 hover:text-white"
+                        title={likedIds.includes(item.id) ? 'Unlike' : 'Like'}
+                      >
+                        <Heart className={`w-3 h-3 ${likedIds.includes(item.id) ? 'fill-red-500 text-red-500' : ''}`} /> {item.likeCount}
+                      </button>
+                      {item.width && item.height ? `${item.width}×${item.height}` : null}
+                    </span>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
+
+          <div className="flex justify-center mt-4">
+            {loading ? (
+              <span className="text-gray-400 font-mono text-sm">Loading...</span>
+            ) : nextCursor && (
+              <button
+                onClick={() => loadPage(nextCursor)}
+                className="text-sm bg-black/50 text-white px-3 py-1 rounded hover:bg-black/80 transition-colors font-mono border border-cyan-900/30 hover:border-cyan-400/30"
+              >
+                Load more
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {selectedId && (
+        <GalleryItemDetail
+          itemId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onSelect={setSelectedId}
+          onLikeChange={updateLike}
+          onRemix={remix}
+        />
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
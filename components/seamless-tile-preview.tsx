@@ -0,0 +1,104 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { exportAseprite, exportSpriteSheet } from '@/lib/image/export';
+import type { TilePreview } from '@/lib/terminal/types';
+
+// Copies of the tile across and down
+const REPEAT = 3;
+// Display width of the repeated tiles
+const PREVIEW_WIDTH = 384;
+
+const controlClassName = 'bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1';
+
+/**
+ * A tiling image shown in the terminal history repeated 3x3, so any seam
+ * where it wraps around shows up as a line through the middle. Tilesets
+ * are previewed one tile at a time and can be downloaded with their atlas.
+ * Either can be downloaded as an Aseprite file, tilesets with the editor
+ * grid set to the tile size.
+ */
+export function SeamlessTilePreview({ imageUrl, atlas, name }: TilePreview) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tile, setTile] = useState(0);
+  const [status, setStatus] = useState('');
+
+  const tileCount = atlas ? atlas.frames.length : 1;
+  const rect = atlas?.frames[tile].frame;
+
+  useEffect(() => {
+    const source = new Image();
+    source.onload = () => setImage(source);
+    source.onerror = () => setStatus('Could not load the tile');
+    source.src = imageUrl;
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !image) return;
+
+    const { x, y, w, h } = rect || { x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight };
+    canvas.width = w * REPEAT;
+    canvas.height = h * REPEAT;
+    for (let row = 0; row < REPEAT; row++) {
+      for (let column = 0; column < REPEAT; column++) {
+        context.drawImage(image, x, y, w, h, column * w, row * h, w, h);
+      }
+    }
+  }, [image, rect]);
+
+  const handleDownload = async () => {
+    if (!atlas) return;
+    try {
+      const files = await exportSpriteSheet(imageUrl, atlas, name);
+      setStatus(`Downloaded ${files.join(' and ')}`);
+    } catch (error) {
+      console.error('Error downloading tileset:', error);
+      setStatus('Could not download the tileset');
+    }
+  };
+
+  const handleAsepriteDownload = async () => {
+    try {
+      const { file } = await exportAseprite(imageUrl, name, { atlas });
+      setStatus(`Downloaded ${file}`);
+    } catch (error) {
+      console.error('Error exporting Aseprite file:', error);
+      setStatus('Could not export the Aseprite file');
+    }
+  };
+
+  return (
+    <div className="mb-2 sm:mb-3 border border-white/10 bg-black/70 rounded p-2 w-fit max-w-full">
+      <canvas
+        ref={canvasRef}
+        className="max-w-full"
+        style={{ width: PREVIEW_WIDTH, imageRendering: 'pixelated' }}
+      />
+      <div className="flex flex-wrap gap-2 mt-2 text-xs font-mono text-gray-300">
+        <span className="self-center">Repeated {REPEAT}x{REPEAT} to show seams</span>
+        {atlas && (
+          <>
+            <button onClick={() => setTile((tile + tileCount - 1) % tileCount)} className={controlClassName} aria-label="Previous tile">
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span className="self-center">Tile {tile + 1}/{tileCount}</span>
+            <button onClick={() => setTile((tile + 1) % tileCount)} className={controlClassName} aria-label="Next tile">
+              <ChevronRight className="w-3 h-3" />
+            </button>
+            <button onClick={handleDownload} className={controlClassName} title="Download the tileset PNG and its JSON atlas">
+              <Download className="w-3 h-3" /> Tileset + atlas
+            </button>
+          </>
+        )}
+        <button onClick={handleAsepriteDownload} className={controlClassName} title="Download as an Aseprite file with its palette">
+          <Download className="w-3 h-3" /> Aseprite
+        </button>
+        {status && <span className="self-center text-gray-400">{status}</span>}
+      </div>
+    </div>
+  );
+}
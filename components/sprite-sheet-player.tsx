@@ -0,0 +1,97 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play } from "lucide-react";
+import { exportAseprite, exportSpriteSheet } from '@/lib/image/export';
+import type { SpritePreview } from '@/lib/terminal/types';
+
+// Small frames are enlarged in the preview by a whole number, up to this size
+const PREVIEW_SIZE = 192;
+
+const controlClassName = 'bg-black/70 hover:bg-black/90 px-2 py-1 rounded text-white border border-white/20 flex items-center gap-1';
+
+/**
+ * A sprite sheet shown in the terminal history as its animation, playing
+ * each frame for its atlas duration, with buttons to download the sheet
+ * and atlas or an Aseprite file of the frames
+ */
+export function SpriteSheetPlayer({ imageUrl, atlas, name }: SpritePreview) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sheet, setSheet] = useState<HTMLImageElement | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [status, setStatus] = useState('');
+
+  const { w: frameWidth, h: frameHeight } = atlas.frames[0].frame;
+  const scale = Math.max(1, Math.floor(PREVIEW_SIZE / Math.max(frameWidth, frameHeight)));
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => setSheet(image);
+    image.onerror = () => setStatus('Could not load the sprite sheet');
+    image.src = imageUrl;
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => setFrame((frame + 1) % atlas.frames.length), atlas.frames[frame].duration);
+    return () => clearTimeout(timer);
+  }, [playing, frame, atlas]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context || !sheet) return;
+
+    const { x, y, w, h } = atlas.frames[frame].frame;
+    context.clearRect(0, 0, w, h);
+    context.drawImage(sheet, x, y, w, h, 0, 0, w, h);
+  }, [sheet, frame, atlas]);
+
+  const handleDownload = async () => {
+    try {
+      const files = await exportSpriteSheet(imageUrl, atlas, name);
+      setStatus(`Downloaded ${files.join(' and ')}`);
+    } catch (error) {
+      console.error('Error downloading sprite sheet:', error);
+      setStatus('Could not download the sprite sheet');
+    }
+  };
+
+  const handleAsepriteDownload = async () => {
+    try {
+      const { file } = await exportAseprite(imageUrl, name, { atlas });
+      setStatus(`Downloaded ${file}`);
+    } catch (error) {
+      console.error('Error exporting Aseprite file:', error);
+      setStatus('Could not export the Aseprite file');
+    }
+  };
+
+  return (
+    <div className="mb-2 sm:mb-3 border border-white/10 bg-black/70 rounded p-2 w-fit max-w-full">
+      <canvas
+        ref={canvasRef}
+        width={frameWidth}
+        height={frameHeight}
+        className="max-w-full"
+        style={{ width: frameWidth * scale, imageRendering: 'pixelated' }}
+      />
+      <div className="flex flex-wrap gap-2 mt-2 text-xs font-mono text-gray-300">
+        <button onClick={() => setPlaying(!playing)} className={controlClassName} aria-label={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <span className="self-center">
+          {atlas.meta.frameTags[0]?.name} {frame + 1}/{atlas.frames.length}
+        </span>
+        <button onClick={handleDownload} className={controlClassName} title="Download the sheet PNG and its JSON atlas">
+          <Download className="w-3 h-3" /> Sheet + atlas
+        </button>
+        <button onClick={handleAsepriteDownload} className={controlClassName} title="Download the frames, durations and palette as an Aseprite file">
+          <Download className="w-3 h-3" /> Aseprite
+        </button>
+        {status && <span className="self-center text-gray-400">{status}</span>}
+      </div>
+    </div>
+  );
+}
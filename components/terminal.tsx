@@ -5,58 +5,67 @@
  */
 "use client"
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { AsciiLogo } from './image-ascii-logo';
-import { generatePixelArt, downloadPixelArt, markUserAction } from '@/lib/retrodiffusion';
+import { AsciiOutput } from './ascii-output';
+import { SeamlessTilePreview } from './seamless-tile-preview';
+import { SpriteSheetPlayer } from './sprite-sheet-player';
+import { describePixelGrid, EXPORT_SCALES, exportAseprite, exportPixelArt, type ExportScale } from '@/lib/image/export';
 import { Download, ExternalLink, History } from "lucide-react";
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 import AuthModal from './auth-modal';
 import type { User } from "@supabase/supabase-js";
-
-interface RecentGeneration {
-  prompt: string;
-  imageUrl: string;
-  timestamp: Date;
+import { createCommandRegistry } from '@/lib/terminal/registry';
+import { parseCommandLine } from '@/lib/terminal/parser';
+import { defaultCommands } from '@/lib/terminal/commands';
+import { requestJson } from '@/lib/terminal/api';
+import type { HistoryEntry, ImageCandidate, RecentGeneration, TerminalActions, TerminalPrefill } from '@/lib/terminal/types';
+import type { GenerationPage } from '@/lib/generations';
+import { asciiToText } from '@/lib/ascii';
+import type { ReferenceImage } from '@/lib/references';
+import { attachReferenceFile } from '@/lib/terminal/upload';
+
+// Commands are defined once, in their own modules, and shared by every terminal instance
+const registry = createCommandRegistry(defaultCommands);
+
+interface TerminalProps {
+  // Command to put in the input, ready to edit and run
+  prefill?: TerminalPrefill | null;
 }
 
-export const Terminal = () => {
+export const Terminal = ({ prefill }: TerminalProps = {}) => {
   const [input, setInput] = useState<string>('');
-  const [history, setHistory] = useState<{ type: 'input' | 'output' | 'error' | 'info' | 'success' | 'image', content: string }[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [prompt, setPrompt] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
+  const [activeJobs, setActiveJobs] = useState<string[]>([]);
+  const [reference, setReference] = useState<ReferenceImage | null>(null);
+  const [dragActive, setDragActive] = useState<boolean>(false);
+  // Read by command handlers, which may run after the render that created them
+  const referenceRef = useRef<ReferenceImage | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [imageUrl, setImageUrl] = useState<string>('');
   const [imageError, setImageError] = useState<string>('');
+  const [candidates, setCandidates] = useState<ImageCandidate[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState<number>(0);
+  // Upscale downloaded next to the native-resolution sprite
+  const [downloadScale, setDownloadScale] = useState<ExportScale>(4);
   const [recentGenerations, setRecentGenerations] = useState<RecentGeneration[]>([]);
   const [showRecent, setShowRecent] = useState<boolean>(false);
   const [showAuthModal, setShowAuthModal] = useState<boolean>(false);
   const [user, setUser] = useState<User | null>(null);
-  const [hasGeneratedImage, setHasGeneratedImage] = useState<boolean>(false);
   const terminalRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const supabase = createClientComponentClient();
 
-  // Available commands
-  const commands = {
-    clear: 'Clear terminal history',
-    generate: 'Generate pixel art (usage: generate <your prompt>) - Limited to 1 generation',
-    recent: 'Toggle view of recent generations',
-    login: 'Log in or sign up to use Promixel',
-    logout: 'Log out of your account',
-    exit: 'Exit the application',
-  };
-
-  // Check authentication status and generation limit on mount
+  // Check authentication status on mount. The generation quota is
+  // enforced by /api/generate, see the 'quota' command.
   useEffect(() => {
     const checkUser = async () => {
       const { data: { user } } = await supabase.auth.getUser();
       setUser(user);
       
-      // Check if the user has already generated an image
       if (user) {
-        const hasGenerated = localStorage.getItem(`promixel_generated_${user.id}`);
-        if (hasGenerated === 'true') {
-          setHasGeneratedImage(true);
-        }
         // Focus input when user signs in
         if (inputRef.current) {
           inputRef.current.focus();
@@ -69,14 +78,7 @@ export const Terminal = () => {
     const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user || null);
       
-      // Check generation limit when auth state changes
       if (session?.user) {
-        const hasGenerated = localStorage.getItem(`promixel_generated_${session.user.id}`);
-        if (hasGenerated === 'true') {
-          setHasGeneratedImage(true);
-        } else {
-          setHasGeneratedImage(false);
-        }
         // Focus input when auth state changes
         if (inputRef.current) {
           inputRef.current.focus();
@@ -94,6 +96,31 @@ export const Terminal = () => {
     };
   }, [supabase.auth]);
 
+  // Load the "Recent Generations" grid from the user's stored history
+  const refreshRecent = useCallback(async () => {
+    if (!user) {
+      setRecentGenerations([]);
+      return;
+    }
+    try {
+      const page = await requestJson<GenerationPage>('/api/generations?limit=9');
+      setRecentGenerations(page.items
+        .filter(item => item.imageUrl)
+        .map(item => ({
+          id: item.id,
+          prompt: item.prompt,
+          imageUrl: item.imageUrl as string,
+          timestamp: new Date(item.createdAt)
+        })));
+    } catch (error) {
+      console.error('Failed to load recent generations:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshRecent();
+  }, [refreshRecent]);
+
   // Focus the input when the component mounts
   useEffect(() => {
     if (inputRef.current) {
@@ -101,6 +128,16 @@ export const Terminal = () => {
     }
   }, []);
 
+  // Show a command handed in from outside, e.g. a gallery remix, in the input
+  useEffect(() => {
+    if (!prefill) return;
+    setInput(prefill.command);
+    if (inputRef.current) {
+      inputRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      inputRef.current.focus();
+    }
+  }, [prefill]);
+
   // Scroll to the bottom when history changes
   useEffect(() => {
     if (terminalRef.current) {
@@ -114,18 +151,18 @@ export const Terminal = () => {
 
   // Update suggestions when input changes
   useEffect(() => {
-    if (input.trim()) {
-      const commandSuggestions = Object.keys(commands).filter(cmd => 
-        cmd.startsWith(input.trim()) || 
-        (input.trim().startsWith('generate ') && cmd === 'generate')
-      );
-      setSuggestions(commandSuggestions);
-    } else {
-      setSuggestions([]);
-    }
+    setSuggestions(registry.complete(input));
     setSelectedSuggestion(-1);
   }, [input]);
 
+  // Complete the input to a suggested command, keeping any arguments already typed
+  const acceptSuggestion = (name: string) => {
+    const command = registry.resolve(name);
+    const { raw } = parseCommandLine(input);
+    if (raw) return;
+    setInput(command?.args?.length ? `${name} ` : name);
+  };
+
   // Handle keyboard navigation for suggestions
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (suggestions.length > 0) {
@@ -137,211 +174,103 @@ export const Terminal = () => {
         setSelectedSuggestion(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
       } else if (e.key === 'Tab') {
         e.preventDefault();
-        if (selectedSuggestion >= 0) {
-          if (suggestions[selectedSuggestion] === 'generate' && input.trim() !== 'generate') {
-            setInput('generate ');
-          } else {
-            setInput(suggestions[selectedSuggestion]);
-          }
-        } else if (suggestions.length > 0) {
-          if (suggestions[0] === 'generate' && input.trim() !== 'generate') {
-            setInput('generate ');
-          } else {
-            setInput(suggestions[0]);
-          }
-        }
+        acceptSuggestion(suggestions[selectedSuggestion >= 0 ? selectedSuggestion : 0]);
       }
     }
   };
 
-  // Process generate command
-  const handleGenerate = async (prompt: string) => {
-    if (!prompt) {
-      setHistory(prev => [...prev, { type: 'error', content: 'Please provide a prompt for the image generation.' }])
-      return
-    }
-
-    // Show initial loading message
-    setHistory(prev => [...prev, 
-      { type: 'info', content: 'Initializing pixel art generation...' }
-    ])
-
-    try {
-      setLoading(true);
-      
-      // Using the official API approach
-      const apiUrl = "https://api.retrodiffusion.ai/v1/inferences";
-      
-      const payload = {
-        model: "RD_FLUX",
-        width: 512,
-        height: 512,
-        prompt: `Anime style pixel art, ${prompt}. The art style is cartoonish but detailed with striking colors and clever composition. Textures are well shaded and detailed. Clean shading and outlines`,
-        negative: "",
-        num_inference_steps: 20,
-        guidance_scale: 5,
-        num_images: 1,
-        strength: 1,
-        tiling_x: false,
-        tiling_y: false,
-        expand_prompt: false,
-        prompt_style: "anime"  // Using a valid value from the enum
-      };
-      
-      const apiKey = process.env.NEXT_PUBLIC_RETRODIFFUSION_API_KEY || 'rdpk-49efebbfd373ad1fc39aa15f2c8df4f9';
-      
-      // Log what we're doing (helpful for debugging)
-      setHistory(prev => [...prev, 
-        { type: 'info', content: `Sending request to RetroDiffusion API using official method...` }
-      ]);
-      
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-RD-Token': apiKey  // API key goes directly in X-RD-Token header
-        },
-        body: JSON.stringify(payload)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`API error (HTTP ${response.status}):`, errorText);
-        
-        // Provide more specific error messages
-        if (response.status === 401) {
-          throw new Error(`Authentication failed: Your API key may be invalid or expired`);
-        } else if (response.status === 403) {
-          throw new Error(`Access forbidden: Your API key may not have permission to use this endpoint`);
-        } else if (response.status === 404) {
-          throw new Error(`API endpoint not found: The RetroDiffusion API URL may have changed`);
-        } else {
-          throw new Error(`Generation failed (${response.status}): ${response.statusText}`);
-        }
-      }
-
-      const data = await response.json();
-      console.log('API Response:', data);
-
-      // Handle both possible response formats
-      let imageUrl;
-      let seed;
-
-      // Format 1: output_images with uri
-      if (data.output_images && data.output_images[0] && data.output_images[0].uri) {
-        imageUrl = data.output_images[0].uri;
-        seed = data.output_images[0].seed || Math.floor(Math.random() * 1000000);
-      } 
-      // Format 2: base64_images array
-      else if (data.base64_images && data.base64_images[0]) {
-        imageUrl = `data:image/png;base64,${data.base64_images[0]}`;
-        seed = data.seed || Math.floor(Math.random() * 1000000);
-      } 
-      else {
-        throw new Error('Invalid response format from API - no image data found');
+  // Actions command handlers use to drive the terminal UI
+  const terminalActions: TerminalActions = {
+    print: (type, content) => setHistory(prev => [...prev, { type, content }]),
+    printAscii: (art, name) => setHistory(prev => [...prev, { type: 'ascii', content: asciiToText(art), ascii: art, asciiName: name }]),
+    printSprite: sprite => setHistory(prev => [...prev, { type: 'sprite', content: sprite.imageUrl, sprite }]),
+    printTile: tile => setHistory(prev => [...prev, { type: 'tile', content: tile.imageUrl, tile }]),
+    clearScreen: () => {
+      setHistory([]);
+      setImageUrl('');
+      setPrompt('');
+      setImageError('');
+      setCandidates([]);
+    },
+    toggleRecent: () => {
+      const visible = !showRecent;
+      setShowRecent(visible);
+      return visible;
+    },
+    setLoading,
+    showImage: (url, imagePrompt) => {
+      setCandidates([]);
+      setImageUrl(url);
+      setPrompt(imagePrompt);
+    },
+    showCandidates: (images, imagePrompt) => {
+      setCandidates(images);
+      setSelectedCandidate(0);
+      setImageError('');
+      setImageUrl(images[0]?.imageUrl || '');
+      setPrompt(imagePrompt);
+    },
+    refreshRecent,
+    trackJob: (jobId, watcher) => {
+      setActiveJobs(prev => [...prev, jobId]);
+      watcher.finally(() => setActiveJobs(prev => prev.filter(id => id !== jobId)));
+    },
+    pickFile: (accept) => new Promise(resolve => {
+      const fileInput = fileInputRef.current;
+      if (!fileInput) {
+        resolve(null);
+        return;
       }
+      fileInput.accept = accept;
+      fileInput.value = '';
+      fileInput.onchange = () => resolve(fileInput.files?.[0] || null);
+      fileInput.oncancel = () => resolve(null);
+      fileInput.click();
+    }),
+    attachReference: (attached) => {
+      referenceRef.current = attached;
+      setReference(attached);
+    },
+    attachedReference: () => referenceRef.current,
+  };
 
-      // Add success message and image to history
-      setHistory(prev => [...prev, 
-        { type: 'success', content: `Image generated successfully! (Seed: ${seed})` },
-        { type: 'image', content: imageUrl }
-      ]);
-
-      // Update the image URL and prompt state
-      setImageUrl(imageUrl);
-      setPrompt(prompt);
-
-      // Add to recent generations
-      setRecentGenerations(prev => [{
-        prompt,
-        imageUrl: imageUrl,
-        timestamp: new Date()
-      }, ...prev].slice(0, 9)); // Keep only last 9 generations
+  // Dropping an image on the terminal attaches it like the 'upload' command
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragActive(true);
+  };
 
-    } catch (error) {
-      console.error('Generation error:', error);
-      setHistory(prev => [...prev, 
-        { type: 'error', content: error instanceof Error ? error.message : 'Failed to generate image. Please try again.' }
-      ]);
-    } finally {
-      setLoading(false);
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (!user) {
+      setHistory(prev => [...prev, { type: 'error', content: 'Please log in to upload reference images.' }]);
+      return;
     }
+    await attachReferenceFile(file, terminalActions);
   };
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const command = input.trim();
-    
+  // Echo a command line into history and dispatch it through the registry
+  const runCommand = async (line: string) => {
+    const command = line.trim();
+
     // Don't process empty commands
     if (!command) return;
-    
+
     // Add the command to history
     setHistory(prev => [...prev, { type: 'input', content: `> ${command}` }]);
     setInput('');
-    
-    // Process commands
-    if (command === 'clear') {
-      setHistory([]);
-      setImageUrl('');
-      setPrompt('');
-      setImageError('');
-      return;
-    }
-    
-    if (command === 'help') {
-      const helpOutput = [
-        'Available commands:',
-        ...Object.entries(commands).map(([cmd, desc]) => `  ${cmd} - ${desc}`),
-      ].join('\n');
-      setHistory(prev => [...prev, { type: 'output', content: helpOutput }]);
-      return;
-    }
-    
-    if (command === 'exit') {
-      setHistory(prev => [...prev, { type: 'output', content: 'Goodbye!' }]);
-      return;
-    }
-
-    if (command === 'login') {
-      // Instead of showing modal, inform user to use the login button
-      setHistory(prev => [...prev, { 
-        type: 'output', 
-        content: 'Please use the login button at the top left corner of the screen.' 
-      }]);
-      return;
-    }
 
-    if (command === 'logout') {
-      try {
-        await supabase.auth.signOut();
-        setHistory(prev => [...prev, { type: 'output', content: 'You have been logged out.' }]);
-      } catch (error) {
-        setHistory(prev => [...prev, { type: 'error', content: 'Failed to log out.' }]);
-      }
-      return;
-    }
-
-    if (command === 'recent') {
-      setShowRecent(!showRecent);
-      setHistory(prev => [...prev, { 
-        type: 'output', 
-        content: showRecent ? 'Recent generations hidden.' : 'Showing recent generations.' 
-      }]);
-      return;
-    }
-
-    if (command.startsWith('generate ')) {
-      const promptText = command.substring('generate '.length).trim();
-      await handleGenerate(promptText);
-      return;
-    }
+    await registry.execute(command, { terminal: terminalActions, supabase, user });
+  };
 
-    // Unknown command
-    setHistory(prev => [...prev, { 
-      type: 'error', 
-      content: `Unknown command: ${command}. Type 'help' for available commands.` 
-    }]);
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runCommand(input);
   };
 
   // Validate if an image URL is valid (either base64 or HTTP URL)
@@ -409,20 +338,48 @@ export const Terminal = () => {
     }
   };
 
-  // Handle download button click
+  // Handle download button click: save the sprite at its detected
+  // logical resolution plus the selected integer upscale
   const handleDownload = async () => {
     if (!imageUrl) return;
     
     try {
-      const filename = `promixel-${prompt.replace(/\s+/g, '-').toLowerCase() || 'art'}.png`;
-      await downloadPixelArt(imageUrl, filename);
-      setHistory(prev => [...prev, { type: 'output', content: `Downloaded image as "${filename}"` }]);
+      const baseName = `promixel-${prompt.replace(/\s+/g, '-').toLowerCase() || 'art'}`;
+      const { grid, files } = await exportPixelArt(imageUrl, baseName, downloadScale);
+      setHistory(prev => [...prev, { type: 'output', content: `Detected ${describePixelGrid(grid)}. Downloaded ${files.map(file => `"${file}"`).join(' and ')}` }]);
     } catch (error) {
       console.error('Error downloading image:', error);
       setHistory(prev => [...prev, { type: 'error', content: 'Failed to download image' }]);
     }
   };
 
+  // Save the sprite as an Aseprite file with its colours as the palette
+  const handleAsepriteDownload = async () => {
+    if (!imageUrl) return;
+
+    try {
+      const baseName = `promixel-${prompt.replace(/\s+/g, '-').toLowerCase() || 'art'}`;
+      const { file, colors } = await exportAseprite(imageUrl, baseName);
+      setHistory(prev => [...prev, { type: 'output', content: `Downloaded "${file}" with a ${colors} colour palette` }]);
+    } catch (error) {
+      console.error('Error exporting Aseprite file:', error);
+      setHistory(prev => [...prev, { type: 'error', content: 'Failed to export the Aseprite file' }]);
+    }
+  };
+
+  // Make one image of a batch the displayed (and downloadable) image
+  const selectCandidate = (index: number) => {
+    const candidate = candidates[index];
+    if (!candidate) return;
+    setSelectedCandidate(index);
+    setImageError('');
+    setImageUrl(candidate.imageUrl);
+    setHistory(prev => [...prev, {
+      type: 'info',
+      content: `Selected image ${index + 1}${candidate.seed !== undefined ? ` (seed ${candidate.seed})` : ''}${candidate.generationId ? `. Type 'vary ${candidate.generationId.slice(0, 8)}' for variations.` : ''}`
+    }]);
+  };
+
   // Open image in new tab
   const handleOpenImage = () => {
     if (!imageUrl) return;
@@ -468,117 +425,47 @@ export const Terminal = () => {
     }
   };
 
-  // Add quick command execution for mobile
-  const executeCommand = (cmd: string) => {
-    // Set the input and immediately submit if it's a simple command
-    setInput(cmd);
-    setTimeout(() => {
-      const command = cmd.trim();
-      
-      // Don't process empty commands
-      if (!command) return;
-      
-      // Add the command to history
-      setHistory(prev => [...prev, { type: 'input', content: `> ${command}` }]);
-      setInput('');
-      
-      // Process commands
-      if (command === 'clear') {
-        setHistory([]);
-        setImageUrl('');
-        setPrompt('');
-        setImageError('');
-        return;
-      }
-      
-      if (command === 'help') {
-        const helpOutput = [
-          'Available commands:',
-          ...Object.entries(commands).map(([cmd, desc]) => `  ${cmd} - ${desc}`),
-        ].join('\n');
-        setHistory(prev => [...prev, { type: 'output', content: helpOutput }]);
-        return;
-      }
-      
-      if (command === 'exit') {
-        setHistory(prev => [...prev, { type: 'output', content: 'Goodbye!' }]);
-        return;
-      }
-
-      if (command === 'login') {
-        setHistory(prev => [...prev, { 
-          type: 'output', 
-          content: 'Please use the login button at the top left corner of the screen.' 
-        }]);
-        return;
-      }
-
-      if (command === 'logout') {
-        supabase.auth.signOut().then(() => {
-          setHistory(prev => [...prev, { type: 'output', content: 'You have been logged out.' }]);
-        }).catch(() => {
-          setHistory(prev => [...prev, { type: 'error', content: 'Failed to log out.' }]);
-        });
-        return;
-      }
-
-      if (command === 'recent') {
-        setShowRecent(!showRecent);
-        setHistory(prev => [...prev, { 
-          type: 'output', 
-          content: showRecent ? 'Recent generations hidden.' : 'Showing recent generations.'
-        }]);
-        return;
-      }
-    }, 10);
-  };
-
-  // Check if API key is set
-  useEffect(() => {
-    const apiKey = process.env.NEXT_PUBLIC_RETRODIFFUSION_API_KEY;
-    
-    if (!apiKey) {
-      setHistory(prev => [...prev, { 
-        type: 'error', 
-        content: 'WARNING: NEXT_PUBLIC_RETRODIFFUSION_API_KEY is not set in .env.local file. API calls will fail.' 
-      }]);
-    } else if (!apiKey.startsWith('rdpk-')) {
-      setHistory(prev => [...prev, { 
-        type: 'error', 
-        content: 'WARNING: API key does not start with "rdpk-". Make sure you\'ve entered the correct key format.' 
-      }]);
-    } else {
-      const keyPrefix = apiKey.substring(0, 7);
-      setHistory(prev => [...prev, { 
-        type: 'info', 
-        content: `RetroDiffusion API Key loaded: ${keyPrefix}... (${apiKey.length} chars)` 
-      }]);
+  // Run a command picked from the command list or quick buttons. Commands
+  // that need arguments are pre-filled in the input instead of executed.
+  const executeCommand = (name: string) => {
+    const command = registry.resolve(name);
+    if (command?.args?.some(arg => arg.required)) {
+      setInput(`${command.name} `);
+      focusInput();
+      return;
     }
-  }, []);
+    runCommand(name);
+  };
 
   return (
     <>
       <div className="w-full max-w-4xl mx-auto h-full flex flex-col">
         <div 
           ref={terminalRef}
-          className="flex-1 bg-black/60 text-green-400 font-mono p-3 sm:p-6 overflow-y-auto rounded-t-lg backdrop-blur-sm border border-white/10 pixel-effect pixel-border"
+          className={`flex-1 bg-black/60 text-green-400 font-mono p-3 sm:p-6 overflow-y-auto rounded-t-lg backdrop-blur-sm border pixel-effect pixel-border ${
+            dragActive ? 'border-cyan-400' : 'border-white/10'
+          }`}
           onClick={handleTerminalClick}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
         >
+          <input ref={fileInputRef} type="file" className="hidden" />
           <AsciiLogo />
           
           <div className="mb-4 sm:mb-6">
             <div className="text-white font-bold mb-3 pixel-effect text-xl sm:text-2xl" style={{ fontFamily: "var(--font-pixel)" }}>Available commands:</div>
-            {Object.entries(commands).map(([cmd, desc]) => (
-              <div key={cmd} className="text-base sm:text-lg ml-2 sm:ml-4 my-1 sm:my-2">
+            {registry.list().map(command => (
+              <div key={command.name} className="text-base sm:text-lg ml-2 sm:ml-4 my-1 sm:my-2">
                 <span 
                   className="text-cyan-400 font-bold pixel-effect text-lg sm:text-xl cursor-pointer hover:underline"
                   style={{ fontFamily: "var(--font-pixel)" }}
-                  onClick={() => executeCommand(cmd)}
-                >{cmd}</span> - <span className="text-gray-300">{desc}</span>
+                  onClick={() => executeCommand(command.name)}
+                >{command.name}</span> - <span className="text-gray-300">{command.description}</span>
       </div>
             ))}
             <div className="text-base sm:text-lg mt-4 text-amber-300">
-              Note: Limited to 1 image generation per user. This limit helps us provide high-quality images to everyone.
+              Note: Generations are limited by your account quota. Type 'quota' to see your remaining balance and reset time.
             </div>
             
             {user && (
@@ -586,22 +473,42 @@ export const Terminal = () => {
                 Logged in as: {user.email}
               </div>
             )}
+
+            {reference && (
+              <div className="flex items-center gap-3 mt-3 text-base sm:text-lg text-cyan-300">
+                <img
+                  src={reference.imageUrl}
+                  alt="Attached reference"
+                  className="w-10 h-10 border border-cyan-500/40 rounded"
+                  style={{ imageRendering: 'pixelated', objectFit: 'contain' }}
+                />
+                <span className="break-all">
+                  Reference attached: {reference.name || reference.shortId} ({reference.width}x{reference.height}) - 'upload --clear' to detach
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Command Buttons - Visible on small screens, hidden on larger */}
           <div className="flex flex-wrap gap-2 mb-4 sm:mb-6 md:hidden">
-            {Object.keys(commands).map(cmd => (
+            {registry.list().map(command => (
               <button
-                key={cmd}
-                onClick={() => executeCommand(cmd)}
+                key={command.name}
+                onClick={() => executeCommand(command.name)}
                 className="bg-black/70 px-3 py-2 rounded-md border border-cyan-500/30 text-cyan-400 text-sm"
               >
-                {cmd}
+                {command.name}
               </button>
         ))}
       </div>
 
-          {history.map((entry, i) => (
+          {history.map((entry, i) => entry.ascii ? (
+            <AsciiOutput key={i} art={entry.ascii} name={entry.asciiName} />
+          ) : entry.sprite ? (
+            <SpriteSheetPlayer key={i} {...entry.sprite} />
+          ) : entry.tile ? (
+            <SeamlessTilePreview key={i} {...entry.tile} />
+          ) : (
             <div 
               key={i} 
               className={`whitespace-pre-wrap mb-2 sm:mb-3 ${
@@ -621,6 +528,12 @@ export const Terminal = () => {
               Processing...
             </div>
           )}
+
+          {activeJobs.length > 0 && (
+            <div className="text-amber-300 animate-pulse text-lg sm:text-xl my-3" style={{ fontFamily: "var(--font-pixel)" }}>
+              {activeJobs.length === 1 ? '1 generation' : `${activeJobs.length} generations`} in progress... (type 'jobs' for details)
+            </div>
+          )}
           
           {imageUrl && !loading && (
             <div className="mt-4 sm:mt-6 border border-white/20 bg-black/70 rounded pixel-effect pixel-border w-full">
@@ -653,6 +566,29 @@ export const Terminal = () => {
                   </div>
                 )}
                 
+                {candidates.length > 1 && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3 mt-3 sm:mt-4 w-full max-w-2xl">
+                    {candidates.map((candidate, index) => (
+                      <button
+                        key={`${candidate.imageUrl.slice(-32)}-${index}`}
+                        onClick={() => selectCandidate(index)}
+                        className={`relative aspect-square rounded overflow-hidden border-2 ${
+                          index === selectedCandidate ? 'border-cyan-400' : 'border-white/10 hover:border-white/40'
+                        }`}
+                        title={candidate.seed !== undefined ? `Seed ${candidate.seed}` : `Image ${index + 1}`}
+                      >
+                        <img
+                          src={candidate.imageUrl}
+                          alt={`Candidate ${index + 1} for: ${prompt}`}
+                          className="absolute inset-0 w-full h-full"
+                          style={{ imageRendering: 'pixelated', objectFit: 'contain', backgroundColor: '#111' }}
+                        />
+                        <span className="absolute top-1 left-1 bg-black/70 text-white text-xs font-mono px-1 rounded">{index + 1}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {!imageError && isValidImage(imageUrl) && !imageUrl.includes('text=Credit+Limit+Reached') && (
                   <div className="flex flex-wrap justify-center gap-2 sm:gap-4 mt-3 sm:mt-4 w-full">
                     <button 
@@ -664,6 +600,26 @@ export const Terminal = () => {
                       <Download className="w-4 h-4 sm:w-5 sm:h-5" />
                       <span className="text-sm sm:text-base font-mono">Download</span>
                     </button>
+                    <select
+                      value={downloadScale}
+                      onChange={(e) => setDownloadScale(Number(e.target.value) as ExportScale)}
+                      className="bg-black/70 hover:bg-black/90 p-2 rounded text-white border border-white/20 text-sm sm:text-base font-mono"
+                      title="Also download the sprite enlarged by this factor"
+                      disabled={loading}
+                    >
+                      {EXPORT_SCALES.map(scale => (
+                        <option key={scale} value={scale}>{scale === 1 ? 'Native only' : `+ ${scale}x`}</option>
+                      ))}
+                    </select>
+                    <button 
+                      onClick={handleAsepriteDownload}
+                      className="bg-black/70 hover:bg-black/90 p-2 rounded text-white border border-white/20 flex items-center gap-2"
+                      title="Download as an Aseprite file with its palette"
+                      disabled={loading}
+                    >
+                      <Download className="w-4 h-4 sm:w-5 sm:h-5" />
+                      <span className="text-sm sm:text-base font-mono">Aseprite</span>
+                    </button>
                     <button 
                       onClick={handleOpenImage}
                       className="bg-black/70 hover:bg-black/90 p-2 rounded text-white border border-white/20 flex items-center gap-2"
@@ -691,8 +647,8 @@ export const Terminal = () => {
                 <div className="text-cyan-400 text-base sm:text-lg font-bold pixel-effect" style={{ fontFamily: "var(--font-pixel)" }}>Recent Generations:</div>
               </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-                {recentGenerations.map((gen, index) => (
-                  <div key={index} className="border border-white/10 bg-black/50 rounded-md overflow-hidden">
+                {recentGenerations.map((gen) => (
+                  <div key={gen.id} className="border border-white/10 bg-black/50 rounded-md overflow-hidden">
                     <div className="aspect-square relative">
                       <img 
                         src={gen.imageUrl} 
@@ -771,18 +727,8 @@ export const Terminal = () => {
                     : 'text-gray-300 hover:bg-black/60'
                 }`}
           onClick={() => {
-                  if (suggestion === 'generate' && input.trim() !== 'generate') {
-                    setInput('generate ');
-                  } else {
-                    setInput(suggestion);
-                  }
-                  
-                  // Execute immediately if it's a simple command
-                  if (suggestion !== 'generate') {
-                    executeCommand(suggestion);
-                  } else {
-                    inputRef.current?.focus();
-                  }
+                  // Execute immediately if it's a simple command, otherwise pre-fill it
+                  executeCommand(suggestion);
                 }}
               >
                 {suggestion}
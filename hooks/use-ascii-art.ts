@@ -0,0 +1,39 @@
+"use client"
+
+import * as React from "react"
+import type { AsciiArt, AsciiOptions } from "@/lib/ascii"
+import { convertImageToAscii } from "@/lib/ascii/browser"
+
+/**
+ * Load an image and convert it with the ASCII engine, in a Web Worker
+ * where the browser supports it
+ * @param src Image URL (data URL, object URL or a host that allows
+ *   cross-origin reads), or null to wait before converting
+ * @param options Engine options; the image is converted again when they change
+ * @returns The art, or null while loading or when the image failed to load
+ */
+export function useAsciiArt(src: string | null, options: AsciiOptions): AsciiArt | null {
+  const [art, setArt] = React.useState<AsciiArt | null>(null)
+  // Callers usually pass a new object each render; compare by value
+  const optionsKey = JSON.stringify(options)
+
+  React.useEffect(() => {
+    if (!src) return
+    let cancelled = false
+
+    convertImageToAscii(src, JSON.parse(optionsKey))
+      .then(converted => {
+        if (!cancelled) setArt(converted)
+      })
+      .catch(error => {
+        console.error("Error converting image to ASCII:", error)
+        if (!cancelled) setArt(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [src, optionsKey])
+
+  return art
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import * as React from "react"
+import type { AsciiCrop, PortraitCrop } from "@/lib/ascii"
+import { detectPortraitCrop } from "@/lib/ascii/browser"
+
+/**
+ * Resolve a portrait crop, detecting the face when it is "auto"
+ * @param src Image URL
+ * @param crop Fixed crop, "auto" or "none"
+ * @returns The crop (undefined for the whole image), or null while the
+ *   face is being detected
+ */
+export function usePortraitCrop(src: string, crop: PortraitCrop): AsciiCrop | undefined | null {
+  const [detected, setDetected] = React.useState<{ src: string; crop: AsciiCrop | undefined } | null>(null)
+  const isAuto = crop === "auto"
+
+  React.useEffect(() => {
+    if (!isAuto) return
+    let cancelled = false
+
+    detectPortraitCrop(src)
+      .then(found => {
+        if (!cancelled) setDetected({ src, crop: found ?? undefined })
+      })
+      .catch(() => {
+        // Without a face, show the whole image rather than nothing
+        if (!cancelled) setDetected({ src, crop: undefined })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [src, isAuto])
+
+  if (crop === "none") return undefined
+  if (crop !== "auto") return crop
+  return detected?.src === src ? detected.crop : null
+}
@@ -0,0 +1,40 @@
+/**
+ * ASCII Animations
+ * A sequence of converted frames with how long each is shown, as made
+ * from GIFs and short videos and played by the AsciiAnimation component.
+ */
+
+import type { AsciiArt } from './engine';
+
+export interface AsciiAnimationData {
+  // Frames of the same size, in playback order
+  frames: AsciiArt[];
+  // How long each frame is shown, in milliseconds
+  delays: number[];
+}
+
+export const MIN_ANIMATION_FPS = 1;
+export const MAX_ANIMATION_FPS = 30;
+// Frames sampled per second from videos, which have no frame delays of their own
+export const DEFAULT_VIDEO_FPS = 12;
+// Longer animations take too long to convert and too much memory to hold
+export const MAX_ANIMATION_FRAMES = 240;
+
+/**
+ * Frame delays for playback, either the animation's own or a fixed rate
+ * @param animation Converted animation
+ * @param fps Frames per second overriding the original timing
+ */
+export const playbackDelays = (animation: AsciiAnimationData, fps?: number): number[] => {
+  if (!fps) return animation.delays;
+  const delay = 1000 / Math.max(MIN_ANIMATION_FPS, Math.min(MAX_ANIMATION_FPS, fps));
+  return animation.frames.map(() => delay);
+};
+
+/**
+ * Average frames per second of the animation's own timing, for display
+ */
+export const averageFps = (animation: AsciiAnimationData): number => {
+  const total = animation.delays.reduce((sum, delay) => sum + delay, 0);
+  return total > 0 ? (animation.frames.length * 1000) / total : DEFAULT_VIDEO_FPS;
+};
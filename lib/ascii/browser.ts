@@ -0,0 +1,211 @@
+/**
+ * ASCII Conversion in the Browser (client only)
+ * Runs the ASCII engine in a Web Worker where OffscreenCanvas is
+ * available, so large conversions do not block rendering, and on the
+ * main thread everywhere else.
+ */
+
+import { blobToRaster, captureVideoFrames, fetchImageBlob } from '@/lib/image/browser';
+import { decodeGifFrames, readGifSize } from '@/lib/image/gif';
+import type { Raster } from '@/lib/image/raster';
+import { DEFAULT_VIDEO_FPS, MAX_ANIMATION_FRAMES, type AsciiAnimationData } from './animation';
+import { estimateFaceBox, portraitCropAroundFace, type FaceBox } from './crop';
+import { convertToAscii, type AsciiArt, type AsciiCrop, type AsciiOptions } from './engine';
+import type { AsciiWorkerRequest, AsciiWorkerResponse } from './worker';
+
+export type AsciiThread = 'worker' | 'main';
+
+let worker: Worker | null = null;
+// Set once the worker failed, so later conversions go straight to the fallback
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (art: AsciiArt) => void; reject: (error: Error) => void }>();
+
+// Start the shared worker on first use; null when workers cannot be used
+function getWorker(): Worker | null {
+  if (workerUnavailable || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return null;
+  }
+  if (worker) return worker;
+
+  try {
+    worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('ASCII worker could not be started, converting on the main thread:', error);
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<AsciiWorkerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('art' in event.data) {
+      request.resolve(event.data.art);
+    } else {
+      request.reject(new Error(event.data.error));
+    }
+  };
+  // A worker that fails to load fails every request; stop using it
+  worker.onerror = (event) => {
+    console.warn('ASCII worker failed, converting on the main thread:', event.message);
+    workerUnavailable = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach(request => request.reject(new Error(event.message || 'ASCII worker failed')));
+    pending.clear();
+  };
+  return worker;
+}
+
+function convertInWorker(target: Worker, image: Blob | Raster, options: AsciiOptions): Promise<AsciiArt> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: AsciiWorkerRequest = { id, image, options };
+    target.postMessage(request);
+  });
+}
+
+/**
+ * Convert an image blob to ASCII art, off the main thread when possible
+ * @param image Image file contents
+ * @param options Engine options
+ * @param thread Force one thread, e.g. to compare them; by default the
+ *   worker is used when available
+ */
+export const convertBlobToAscii = async (image: Blob, options: AsciiOptions, thread?: AsciiThread): Promise<AsciiArt> => {
+  const target = thread === 'main' ? null : getWorker();
+  if (target) {
+    try {
+      return await convertInWorker(target, image, options);
+    } catch (error) {
+      if (thread === 'worker') throw error;
+      console.warn('ASCII conversion in the worker failed, retrying on the main thread:', error);
+    }
+  } else if (thread === 'worker') {
+    throw new Error('Web Workers with OffscreenCanvas are not available in this browser');
+  }
+  return convertToAscii(await blobToRaster(image), options);
+};
+
+/**
+ * Convert decoded pixels to ASCII art, off the main thread when possible
+ * @param raster Pixels, e.g. a GIF or video frame
+ * @param options Engine options
+ */
+export const convertRasterToAscii = async (raster: Raster, options: AsciiOptions): Promise<AsciiArt> => {
+  const target = getWorker();
+  if (target) {
+    try {
+      return await convertInWorker(target, raster, options);
+    } catch (error) {
+      console.warn('ASCII conversion in the worker failed, retrying on the main thread:', error);
+    }
+  }
+  return convertToAscii(raster, options);
+};
+
+export const ACCEPTED_ANIMATION_TYPES = ['image/gif', 'video/mp4', 'video/webm'];
+
+// Video frames are captured at this width at most; more than enough detail
+const MAX_VIDEO_FRAME_WIDTH = 480;
+// Largest GIF canvas decoded; each frame is a full copy of it
+const MAX_GIF_PIXELS = 2048 * 2048;
+
+/**
+ * Decode an animated GIF or a short video and convert every frame
+ * @param file GIF, MP4 or WebM file
+ * @param options Engine options, the same for every frame
+ * @param onProgress Called as frames are decoded and converted
+ * @throws Error with a user-facing message when the file cannot be read
+ */
+export const convertAnimationToAscii = async (
+  file: File,
+  options: AsciiOptions,
+  onProgress?: (message: string) => void
+): Promise<AsciiAnimationData> => {
+  if (!ACCEPTED_ANIMATION_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a supported animation. Use a GIF, MP4 or WebM file.`);
+  }
+
+  const frames: AsciiArt[] = [];
+  if (file.type === 'image/gif') {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const { width, height } = readGifSize(bytes);
+    if (width * height > MAX_GIF_PIXELS) {
+      throw new Error(`${file.name} is ${width}x${height}; GIFs can be at most ${MAX_GIF_PIXELS.toLocaleString()} pixels.`);
+    }
+
+    // Each frame is converted before the next is decoded, so only one is kept
+    const delays: number[] = [];
+    for (const frame of decodeGifFrames(bytes)) {
+      onProgress?.(`Converting GIF frame ${frames.length + 1}...`);
+      frames.push(await convertRasterToAscii(frame.raster, options));
+      delays.push(frame.delay);
+      if (frames.length >= MAX_ANIMATION_FRAMES) break;
+    }
+    return { frames, delays };
+  }
+
+  const rasters = await captureVideoFrames(
+    file,
+    { fps: DEFAULT_VIDEO_FPS, maxFrames: MAX_ANIMATION_FRAMES, maxWidth: MAX_VIDEO_FRAME_WIDTH },
+    (index, total) => onProgress?.(`Capturing video frame ${index + 1}/${total}...`)
+  );
+  for (let index = 0; index < rasters.length; index++) {
+    onProgress?.(`Converting frame ${index + 1}/${rasters.length}...`);
+    frames.push(await convertRasterToAscii(rasters[index], options));
+  }
+  return { frames, delays: rasters.map(() => 1000 / DEFAULT_VIDEO_FPS) };
+};
+
+/**
+ * Load an image and convert it to ASCII art, off the main thread when possible
+ * @param src Image URL (data URL, provider URL or a host that allows cross-origin reads)
+ * @param options Engine options
+ */
+export const convertImageToAscii = async (src: string, options: AsciiOptions = {}): Promise<AsciiArt> => {
+  return convertBlobToAscii(await fetchImageBlob(src), options);
+};
+
+// The Shape Detection API's face detector, available in some Chromium builds
+interface BrowserFaceDetector {
+  detect(image: ImageBitmap): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => BrowserFaceDetector;
+
+// Largest face found by the browser's detector; null when there is no
+// detector, it fails or it finds no face
+async function detectFaceNatively(image: Blob): Promise<FaceBox | null> {
+  const Detector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!Detector) return null;
+
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = await createImageBitmap(image);
+    const faces = await new Detector({ fastMode: true, maxDetectedFaces: 5 }).detect(bitmap);
+    if (!faces.length) return null;
+    const { x, y, width, height } = faces
+      .map(face => face.boundingBox)
+      .reduce((largest, box) => (box.width * box.height > largest.width * largest.height ? box : largest));
+    return { x: x / bitmap.width, y: y / bitmap.height, width: width / bitmap.width, height: height / bitmap.height };
+  } catch (error) {
+    console.warn('Face detection failed, estimating the face from skin tones:', error);
+    return null;
+  } finally {
+    bitmap?.close();
+  }
+}
+
+/**
+ * Find a head and shoulders crop centred on the face of a photo
+ * @param src Image URL (data URL, object URL or a host that allows cross-origin reads)
+ * @returns The crop, or null when no face was found
+ */
+export const detectPortraitCrop = async (src: string): Promise<AsciiCrop | null> => {
+  const image = await fetchImageBlob(src);
+  const raster = await blobToRaster(image);
+  const face = (await detectFaceNatively(image)) || estimateFaceBox(raster);
+  return face ? portraitCropAroundFace(face, raster.width / raster.height) : null;
+};
@@ -0,0 +1,48 @@
+/**
+ * ASCII Canvas Rendering
+ * Draws converted ASCII art onto a 2D canvas context with one fill
+ * style per colour batch, rather than one style (or gradient) per
+ * character, which keeps large grids cheap to draw.
+ */
+
+import type { AsciiArt } from './engine';
+import { asciiToColorBatches } from './format';
+
+export interface AsciiCanvasLayout {
+  // Size of one character cell in canvas pixels
+  cellWidth: number;
+  cellHeight: number;
+  // Font family; the size is taken from cellHeight
+  fontFamily?: string;
+  background?: string;
+  // Bits kept per colour channel when batching, see asciiToColorBatches
+  colorBits?: number;
+}
+
+/**
+ * Resize a canvas to fit the art and draw it
+ * @param context 2D context of an on-screen or offscreen canvas
+ * @param art Converted art
+ * @param layout Cell size, font and background
+ */
+export const drawAsciiToCanvas = (
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  art: AsciiArt,
+  layout: AsciiCanvasLayout
+): void => {
+  const { canvas } = context;
+  canvas.width = art.columns * layout.cellWidth;
+  canvas.height = art.rows * layout.cellHeight;
+
+  context.fillStyle = layout.background || '#000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.textBaseline = 'top';
+  context.font = `${layout.cellHeight}px ${layout.fontFamily || 'monospace'}`;
+
+  for (const batch of asciiToColorBatches(art, layout.colorBits)) {
+    context.fillStyle = batch.color;
+    for (const [x, y, char] of batch.cells) {
+      context.fillText(char, x * layout.cellWidth, y * layout.cellHeight);
+    }
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * Portrait Cropping
+ * Frames the head and shoulders of a photo for the ASCII portraits. A
+ * face box comes from the browser's face detector where there is one, or
+ * from a skin tone estimate that works on any raster.
+ */
+
+import type { Raster } from '@/lib/image/raster';
+import type { AsciiCrop } from './engine';
+
+// A face as fractions of the image's width and height
+export type FaceBox = AsciiCrop;
+
+// A fixed crop, 'auto' to frame the detected face, or 'none' for the whole image
+export type PortraitCrop = AsciiCrop | 'auto' | 'none';
+
+// Crops smaller than this (as a fraction of each side) are not useful
+export const MIN_CROP_SIZE = 0.05;
+
+// Images are scanned at about this width, which is plenty to find a face
+const SCAN_WIDTH = 96;
+// Skin regions smaller than this share of the image are ignored
+const MIN_FACE_SHARE = 0.01;
+// Portrait framing around a face: the face takes up about half the width,
+// with some headroom above it and the shoulders below
+const FRAME_WIDTH = 2.2;
+const FRAME_HEIGHT = 2.8;
+const FRAME_HEADROOM = 0.45;
+
+/**
+ * Keep a crop inside the image and at least MIN_CROP_SIZE on each side
+ * @param crop Crop as fractions, possibly out of bounds
+ */
+export const clampCrop = (crop: AsciiCrop): AsciiCrop => {
+  const width = Math.max(MIN_CROP_SIZE, Math.min(1, crop.width));
+  const height = Math.max(MIN_CROP_SIZE, Math.min(1, crop.height));
+  return {
+    x: Math.max(0, Math.min(1 - width, crop.x)),
+    y: Math.max(0, Math.min(1 - height, crop.y)),
+    width,
+    height,
+  };
+};
+
+/**
+ * Frame a face as a head and shoulders portrait
+ * @param face Face box as fractions of the image
+ * @param aspect The image's width divided by its height, so the frame
+ *   keeps the face's proportions in pixels
+ */
+export const portraitCropAroundFace = (face: FaceBox, aspect: number): AsciiCrop => {
+  // Size the frame in pixels relative to the image height, then convert back
+  const faceWidth = face.width * aspect;
+  const faceHeight = face.height;
+  const frameHeight = Math.max(faceHeight * FRAME_HEIGHT, (faceWidth * FRAME_WIDTH * 4) / 3);
+  const frameWidth = Math.max(faceWidth * FRAME_WIDTH, (frameHeight * 3) / 4);
+
+  return clampCrop({
+    x: face.x + face.width / 2 - frameWidth / aspect / 2,
+    y: face.y - faceHeight * FRAME_HEADROOM,
+    width: frameWidth / aspect,
+    height: frameHeight,
+  });
+};
+
+// Chroma test in YCbCr space, which holds up across skin tones and lighting
+function isSkin(r: number, g: number, b: number): boolean {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+/**
+ * Estimate where the face is from skin coloured pixels, for browsers
+ * without a face detector. Picks the largest skin region, preferring
+ * regions nearer the top since hands and arms sit lower in portraits.
+ * @param raster The photo
+ * @returns The face box, or null when no plausible skin region was found
+ */
+export const estimateFaceBox = (raster: Raster): FaceBox | null => {
+  const step = Math.max(1, raster.width / SCAN_WIDTH);
+  const columns = Math.max(1, Math.floor(raster.width / step));
+  const rows = Math.max(1, Math.floor(raster.height / step));
+
+  const mask = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const i = (Math.floor(row * step) * raster.width + Math.floor(column * step)) * 4;
+      if (raster.data[i + 3] >= 128 && isSkin(raster.data[i], raster.data[i + 1], raster.data[i + 2])) {
+        mask[row * columns + column] = 1;
+      }
+    }
+  }
+
+  // Flood fill each region, remembering the best scoring bounding box
+  const seen = new Uint8Array(columns * rows);
+  const stack: number[] = [];
+  let best: { left: number; top: number; right: number; bottom: number } | null = null;
+  let bestScore = MIN_FACE_SHARE * columns * rows;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    let size = 0;
+    let left = columns;
+    let top = rows;
+    let right = 0;
+    let bottom = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length) {
+      const index = stack.pop() as number;
+      const x = index % columns;
+      const y = Math.floor(index / columns);
+      size++;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+
+      const neighbours = [x > 0 ? index - 1 : -1, x < columns - 1 ? index + 1 : -1, y > 0 ? index - columns : -1, y < rows - 1 ? index + columns : -1];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    const score = size * (1.5 - top / rows);
+    if (score > bestScore) {
+      bestScore = score;
+      best = { left, top, right, bottom };
+    }
+  }
+
+  if (!best) return null;
+
+  // A skin region often runs down into the neck; keep a face-shaped box
+  const width = best.right - best.left + 1;
+  const height = Math.min(best.bottom - best.top + 1, Math.ceil(width * 1.3));
+  return {
+    x: best.left / columns,
+    y: best.top / rows,
+    width: width / columns,
+    height: height / rows,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * ASCII Downloads (client only)
+ * Saves converted ASCII art and animations as files in any export
+ * format, rendering PNG exports on a canvas.
+ */
+
+import { saveBlob } from '@/lib/image/browser';
+import { drawAsciiToCanvas } from './canvas';
+import type { AsciiAnimationData } from './animation';
+import type { AsciiArt } from './engine';
+import {
+  asciiAnimationToFile,
+  asciiToFile,
+  type AsciiAnimationExportFormat,
+  type AsciiAnimationFileOptions,
+  type AsciiExportFormat,
+  type AsciiFileOptions,
+} from './export';
+
+// PNG character cell size; large enough to stay legible when shared
+const PNG_CELL_WIDTH = 8;
+const PNG_CELL_HEIGHT = 14;
+
+// Render the art on a canvas and encode it as PNG
+function asciiToPngBlob(art: AsciiArt, options: AsciiFileOptions): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Your browser could not draw the image'));
+  }
+  drawAsciiToCanvas(context, art, {
+    cellWidth: options.cellWidth || PNG_CELL_WIDTH,
+    cellHeight: options.cellHeight || PNG_CELL_HEIGHT,
+    background: options.background,
+    // Full colour precision; batching only matters for repeated redraws
+    colorBits: 8,
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Your browser could not encode the image'))), 'image/png');
+  });
+}
+
+/**
+ * Save ASCII art as a file download
+ * @param art Converted art
+ * @param format File format
+ * @param baseName File name without extension, e.g. "a1b2c3d4-ascii"
+ * @param options Title, colours and cell size
+ * @returns The name of the saved file
+ */
+export const downloadAscii = async (
+  art: AsciiArt,
+  format: AsciiExportFormat,
+  baseName: string,
+  options: AsciiFileOptions = {}
+): Promise<string> => {
+  if (format === 'png') {
+    const filename = `${baseName}.png`;
+    saveBlob(await asciiToPngBlob(art, options), filename);
+    return filename;
+  }
+
+  const file = asciiToFile(art, format, options);
+  const filename = `${baseName}.${file.extension}`;
+  saveBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), filename);
+  return filename;
+};
+
+/**
+ * Save an ASCII animation as an animated SVG or an HTML player
+ * @param animation Converted animation
+ * @param format File format
+ * @param baseName File name without extension
+ * @param options Title, colours, timing and looping
+ * @returns The name of the saved file
+ */
+export const downloadAsciiAnimation = (
+  animation: AsciiAnimationData,
+  format: AsciiAnimationExportFormat,
+  baseName: string,
+  options: AsciiAnimationFileOptions = {}
+): string => {
+  const file = asciiAnimationToFile(animation, format, options);
+  const filename = `${baseName}.${file.extension}`;
+  saveBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), filename);
+  return filename;
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { createRaster, setPixel, type Raster, type RGB } from '@/lib/image/raster';
+import { ASCII_CHARSETS, convertToAscii, luminance } from './engine';
+import { asciiToText } from './format';
+
+// An opaque image coloured pixel by pixel
+const paint = (width: number, height: number, color: (x: number, y: number) => RGB): Raster => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) setPixel(raster, x, y, color(x, y));
+  }
+  return raster;
+};
+
+const solid = (color: RGB) => paint(4, 4, () => color);
+
+// One pixel per character, from black to white
+const greyRamp = (steps: number) => paint(steps, 1, x => {
+  const value = Math.round((x * 255) / (steps - 1));
+  return [value, value, value];
+});
+
+const cellColor = (raster: Raster, options: Parameters<typeof convertToAscii>[1]) =>
+  convertToAscii(raster, { width: 1, height: 1, ...options }).cells[0][0].color;
+
+describe('luminance', () => {
+  it('weights green most and blue least', () => {
+    expect(luminance(255, 255, 255)).toBeCloseTo(255);
+    expect(luminance(0, 255, 0)).toBeGreaterThan(luminance(255, 0, 0));
+    expect(luminance(255, 0, 0)).toBeGreaterThan(luminance(0, 0, 255));
+  });
+});
+
+describe('convertToAscii', () => {
+  describe('character ramps', () => {
+    it('maps brightness onto the standard ramp from empty to dense', () => {
+      const art = convertToAscii(greyRamp(10), { width: 10, height: 1 });
+      expect(asciiToText(art)).toBe(ASCII_CHARSETS.standard);
+    });
+
+    it('uses the chosen charset', () => {
+      expect(asciiToText(convertToAscii(greyRamp(5), { width: 5, height: 1, charset: 'blocks' }))).toBe(ASCII_CHARSETS.blocks);
+    });
+
+    it('lets a custom ramp override the charset', () => {
+      expect(asciiToText(convertToAscii(greyRamp(3), { width: 3, height: 1, charset: 'blocks', ramp: 'abc' }))).toBe('abc');
+    });
+
+    it('puts dense characters on dark pixels when inverted', () => {
+      const art = convertToAscii(greyRamp(10), { width: 10, height: 1, invert: true });
+      expect(art.cells[0].map(cell => cell.char).join('')).toBe([...ASCII_CHARSETS.standard].reverse().join(''));
+    });
+  });
+
+  describe('tone adjustments', () => {
+    it('keeps colours unchanged by default', () => {
+      expect(cellColor(solid([10, 120, 240]), {})).toEqual([10, 120, 240]);
+    });
+
+    it('multiplies channels by the brightness and clamps them', () => {
+      expect(cellColor(solid([100, 50, 200]), { brightness: 2 })).toEqual([200, 100, 255]);
+      expect(cellColor(solid([100, 50, 200]), { brightness: 0 })).toEqual([0, 0, 0]);
+    });
+
+    it('spreads channels around mid grey by the contrast', () => {
+      expect(cellColor(solid([0, 100, 255]), { contrast: 0 })).toEqual([128, 128, 128]);
+      expect(cellColor(solid([64, 128, 200]), { contrast: 2 })).toEqual([0, 129, 255]);
+    });
+
+    it('applies brightness before contrast', () => {
+      // 100 * 2 = 200, then (200 / 255 - 0.5) * 0.5 + 0.5
+      expect(cellColor(solid([100, 100, 100]), { brightness: 2, contrast: 0.5 })).toEqual([164, 164, 164]);
+    });
+
+    it('lifts mid tones with a gamma above 1', () => {
+      expect(cellColor(solid([64, 64, 64]), { gamma: 2 })).toEqual([128, 128, 128]);
+    });
+  });
+
+  describe('sizing and transparency', () => {
+    it('halves the rows for tall terminal characters', () => {
+      const art = convertToAscii(createRaster(100, 50), { width: 20 });
+      expect([art.columns, art.rows]).toEqual([20, 5]);
+    });
+
+    it('never uses more cells than there are pixels', () => {
+      const art = convertToAscii(createRaster(4, 2), { width: 64 });
+      expect([art.columns, art.rows]).toEqual([4, 1]);
+    });
+
+    it('leaves mostly transparent cells blank', () => {
+      const raster = createRaster(4, 1);
+      setPixel(raster, 3, 0, [255, 255, 255]);
+      expect(asciiToText(convertToAscii(raster, { width: 1, height: 1 }))).toBe('');
+      expect(asciiToText(convertToAscii(raster, { width: 4, height: 1 }))).toBe('   @');
+    });
+  });
+
+  describe('crop', () => {
+    // Left half red, right half blue
+    const halves = paint(8, 8, x => (x < 4 ? [255, 0, 0] : [0, 0, 255]));
+
+    it('converts only the cropped part', () => {
+      const art = convertToAscii(halves, { width: 2, height: 2, crop: { x: 0.5, y: 0, width: 0.5, height: 1 } });
+      expect(art.cells.flat().map(cell => cell.color)).toEqual(Array(4).fill([0, 0, 255]));
+    });
+
+    it('sizes the grid from the crop', () => {
+      const art = convertToAscii(halves, { width: 4, cellAspect: 1, crop: { x: 0, y: 0, width: 0.5, height: 0.25 } });
+      expect([art.columns, art.rows]).toEqual([4, 2]);
+    });
+
+    it('clamps crops that fall outside the image to at least one pixel', () => {
+      const art = convertToAscii(halves, { crop: { x: 2, y: -1, width: 3, height: 0 } });
+      expect([art.columns, art.rows]).toEqual([1, 1]);
+      expect(art.cells[0][0].color).toEqual([0, 0, 255]);
+    });
+  });
+
+  describe('edges mode', () => {
+    const rows = (raster: Raster, mode: 'luminance' | 'edges') =>
+      asciiToText(convertToAscii(raster, { width: 8, height: 8, mode })).split('\n');
+
+    it('draws a vertical edge with pipes', () => {
+      const raster = paint(32, 32, x => (x < 16 ? [0, 0, 0] : [255, 255, 255]));
+      expect(rows(raster, 'edges')).toEqual(Array(8).fill('   ||@@@'));
+      expect(rows(raster, 'luminance')).toEqual(Array(8).fill('    @@@@'));
+    });
+
+    it('draws a horizontal edge with dashes, low in the cell as underscores', () => {
+      const raster = paint(32, 32, (x, y) => (y < 16 ? [0, 0, 0] : [255, 255, 255]));
+      const lines = rows(raster, 'edges');
+      expect(lines[3]).toBe('________');
+      expect(lines[4]).toBe('--------');
+      expect(lines.slice(0, 3)).toEqual(['', '', '']);
+      expect(lines.slice(5)).toEqual(Array(3).fill('@@@@@@@@'));
+    });
+
+    it('draws diagonal edges with slashes', () => {
+      const falling = paint(32, 32, (x, y) => (x > y ? [0, 0, 0] : [255, 255, 255]));
+      const rising = paint(32, 32, (x, y) => (x + y < 31 ? [0, 0, 0] : [255, 255, 255]));
+      const grid = (raster: Raster) =>
+        convertToAscii(raster, { width: 8, height: 8, mode: 'edges' }).cells.map(line => line.map(cell => cell.char).join(''));
+
+      expect(grid(falling)).toEqual(Array.from({ length: 8 }, (_, row) => '@'.repeat(row) + '\\' + ' '.repeat(7 - row)));
+      expect(grid(rising)).toEqual(Array.from({ length: 8 }, (_, row) => ' '.repeat(7 - row) + '/' + '@'.repeat(row)));
+    });
+
+    it('keeps weak edges as ramp characters', () => {
+      const raster = paint(32, 32, x => (x < 16 ? [0, 0, 0] : [255, 255, 255]));
+      const art = convertToAscii(raster, { width: 8, height: 8, mode: 'edges', edgeThreshold: 1.1 });
+      expect(asciiToText(art).split('\n')[0]).toBe('    @@@@');
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * ASCII Engine
+ * Turns an image into a matrix of characters with a colour per cell.
+ * Pure and framework-agnostic: it takes ImageData (or any raster of the
+ * same shape) and returns data, so the terminal's 'ascii' command, the
+ * portrait components and exports all render the same conversion.
+ */
+
+import type { Raster, RGB } from '@/lib/image/raster';
+import { displayColor, type AsciiColorMode } from './format';
+
+// Character ramps from empty to dense, so dense characters mark bright
+// pixels on a dark background
+export const ASCII_CHARSETS = {
+  standard: ' .:-=+*#%@',
+  detailed: " `.,^\"=<>!;:_-~+*][}{)(|\\/17?REPGSFJITLCNYZVKAUHXDQOBMW&8#%@",
+  blocks: ' ░▒▓█',
+} as const;
+
+export type AsciiCharset = keyof typeof ASCII_CHARSETS;
+
+export const ASCII_CHARSET_NAMES = Object.keys(ASCII_CHARSETS) as [AsciiCharset, ...AsciiCharset[]];
+
+// How a cell's character is chosen: by brightness alone, or with
+// directional glyphs where the image has strong edges
+export const ASCII_MODES = ['luminance', 'edges'] as const;
+export type AsciiMode = typeof ASCII_MODES[number];
+
+export const MIN_ASCII_WIDTH = 8;
+export const MAX_ASCII_WIDTH = 200;
+export const DEFAULT_ASCII_WIDTH = 64;
+
+// Terminal characters are about twice as tall as they are wide
+const DEFAULT_CELL_ASPECT = 2;
+// Cells less opaque than this are left blank
+const ALPHA_THRESHOLD = 128;
+const DEFAULT_EDGE_THRESHOLD = 0.25;
+// How consistently the gradients in a cell must point one way for it to
+// count as a line rather than a corner or noise (0-1)
+const MIN_EDGE_COHERENCE = 0.35;
+
+export interface AsciiCell {
+  char: string;
+  // Colour of the pixels behind the character, after adjustments and
+  // mapped to the colour mode (mono keeps the adjusted colour)
+  color: RGB;
+}
+
+export interface AsciiArt {
+  columns: number;
+  rows: number;
+  colorMode: AsciiColorMode;
+  // rows x columns cells, top to bottom
+  cells: AsciiCell[][];
+}
+
+// Part of the image to convert, as fractions of its width and height
+export interface AsciiCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AsciiOptions {
+  // Characters per line; derived from height when only that is given
+  width?: number;
+  // Lines; derived from width and the image's aspect ratio by default
+  height?: number;
+  // Height of a character cell divided by its width
+  cellAspect?: number;
+  crop?: AsciiCrop;
+  charset?: AsciiCharset;
+  // Custom character ramp from empty to dense; overrides charset
+  ramp?: string;
+  // Multiplier applied to every channel, 1 keeps the image as is
+  brightness?: number;
+  // Spread around mid grey, 1 keeps the image as is
+  contrast?: number;
+  // Values above 1 lift the mid tones, below 1 darken them
+  gamma?: number;
+  colorMode?: AsciiColorMode;
+  // Strength (0-1) of sharpening applied before picking characters,
+  // which makes outlines stand out
+  sharpen?: number;
+  // 'edges' draws strong outlines with directional glyphs
+  mode?: AsciiMode;
+  // Edge strength (0-1, relative to the strongest edge in the image)
+  // above which the edges mode uses a directional glyph
+  edgeThreshold?: number;
+  // Use dense characters for dark pixels instead, for light backgrounds
+  invert?: boolean;
+}
+
+/**
+ * Perceived brightness of a colour (the eye is most sensitive to green)
+ * @returns Brightness between 0 and 255
+ */
+export const luminance = (r: number, g: number, b: number): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, value));
+
+// Apply brightness, then contrast, then gamma to one channel value
+function adjustChannel(value: number, brightness: number, contrast: number, gamma: number): number {
+  let adjusted = clampChannel(value * brightness);
+  adjusted = clampChannel(((adjusted / 255 - 0.5) * contrast + 0.5) * 255);
+  return gamma === 1 ? adjusted : 255 * Math.pow(adjusted / 255, 1 / gamma);
+}
+
+// Pixel bounds of the crop, at least one pixel in each direction
+function cropBounds(raster: Raster, crop?: AsciiCrop) {
+  if (!crop) return { left: 0, top: 0, width: raster.width, height: raster.height };
+  const left = Math.max(0, Math.min(raster.width - 1, Math.floor(crop.x * raster.width)));
+  const top = Math.max(0, Math.min(raster.height - 1, Math.floor(crop.y * raster.height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(raster.width - left, Math.round(crop.width * raster.width))),
+    height: Math.max(1, Math.min(raster.height - top, Math.round(crop.height * raster.height))),
+  };
+}
+
+interface CellEdges {
+  // Average Sobel gradient magnitude of each cell
+  magnitude: Float32Array;
+  // Direction of the edge line in degrees, 0 horizontal, 90 vertical,
+  // 45 running down to the right (y grows downwards)
+  angle: Float32Array;
+  // 1 when all gradients in the cell agree on one orientation
+  coherence: Float32Array;
+  // Where the edge sits vertically in the cell, 0 top to 1 bottom
+  centroidY: Float32Array;
+}
+
+// Sobel gradients per pixel, accumulated per cell. Orientations are
+// averaged as doubled angles, so the two opposite sides of a thin line
+// reinforce rather than cancel each other.
+function analyzeEdges(raster: Raster, area: ReturnType<typeof cropBounds>, columns: number, rows: number): CellEdges {
+  const { width, height } = area;
+  // Transparent pixels count as black so sprite outlines become edges
+  const lum = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = ((area.top + y) * raster.width + area.left + x) * 4;
+      lum[y * width + x] = raster.data[i + 3] < ALPHA_THRESHOLD ? 0 : luminance(raster.data[i], raster.data[i + 1], raster.data[i + 2]);
+    }
+  }
+
+  const cellCount = columns * rows;
+  const magnitude = new Float32Array(cellCount);
+  const angle = new Float32Array(cellCount);
+  const coherence = new Float32Array(cellCount);
+  const centroidY = new Float32Array(cellCount);
+  const sumXX = new Float32Array(cellCount);
+  const sumYY = new Float32Array(cellCount);
+  const sumXY = new Float32Array(cellCount);
+  const sumWeightedY = new Float32Array(cellCount);
+  const pixelCount = new Float32Array(cellCount);
+
+  const at = (x: number, y: number) => lum[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))];
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    const cellTop = Math.floor((row * height) / rows);
+    const cellHeight = Math.max(1, Math.floor(((row + 1) * height) / rows) - cellTop);
+
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(columns - 1, Math.floor((x * columns) / width));
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const strength = Math.sqrt(gx * gx + gy * gy);
+
+      const cell = row * columns + column;
+      magnitude[cell] += strength;
+      sumXX[cell] += gx * gx;
+      sumYY[cell] += gy * gy;
+      sumXY[cell] += gx * gy;
+      sumWeightedY[cell] += strength * ((y - cellTop + 0.5) / cellHeight);
+      pixelCount[cell]++;
+    }
+  }
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    const total = magnitude[cell];
+    magnitude[cell] = pixelCount[cell] ? total / pixelCount[cell] : 0;
+
+    const energy = sumXX[cell] + sumYY[cell];
+    const dx = sumXX[cell] - sumYY[cell];
+    const dy = 2 * sumXY[cell];
+    coherence[cell] = energy > 0 ? Math.sqrt(dx * dx + dy * dy) / energy : 0;
+
+    // Gradient orientation, turned 90 degrees to follow the edge line
+    const gradientAngle = (Math.atan2(dy, dx) / 2) * (180 / Math.PI);
+    angle[cell] = (gradientAngle + 90 + 180) % 180;
+    centroidY[cell] = total > 0 ? sumWeightedY[cell] / total : 0.5;
+  }
+
+  return { magnitude, angle, coherence, centroidY };
+}
+
+// Glyph that draws an edge line at the given angle
+function directionalGlyph(angle: number, centroidY: number): string {
+  if (angle < 22.5 || angle >= 157.5) return centroidY > 0.65 ? '_' : '-';
+  if (angle < 67.5) return '\\';
+  if (angle < 112.5) return '|';
+  return '/';
+}
+
+/**
+ * Convert an image to ASCII art, averaging the pixels behind each character
+ * @param raster Image to convert, e.g. ImageData from a canvas
+ * @param options Size, crop, character ramp, tone adjustments, colour mode
+ * and whether to draw edges with directional glyphs
+ */
+export const convertToAscii = (raster: Raster, options: AsciiOptions = {}): AsciiArt => {
+  const ramp = options.ramp || ASCII_CHARSETS[options.charset || 'standard'];
+  const colorMode = options.colorMode || 'truecolor';
+  const cellAspect = options.cellAspect || DEFAULT_CELL_ASPECT;
+  const { brightness = 1, contrast = 1, gamma = 1, sharpen = 0 } = options;
+  const area = cropBounds(raster, options.crop);
+
+  // Size the grid so characters keep the image's proportions
+  const columns = Math.max(1, Math.min(MAX_ASCII_WIDTH, area.width, Math.round(
+    options.width ?? (options.height ? (options.height * cellAspect * area.width) / area.height : DEFAULT_ASCII_WIDTH)
+  )));
+  const rows = Math.max(1, Math.min(area.height, Math.round(
+    options.height ?? (columns * area.height) / area.width / cellAspect
+  )));
+
+  const colors: (RGB | null)[] = [];
+  const levels = new Float32Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const top = area.top + Math.floor((row * area.height) / rows);
+    const bottom = Math.max(top + 1, area.top + Math.floor(((row + 1) * area.height) / rows));
+
+    for (let column = 0; column < columns; column++) {
+      const left = area.left + Math.floor((column * area.width) / columns);
+      const right = Math.max(left + 1, area.left + Math.floor(((column + 1) * area.width) / columns));
+
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let opaque = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const i = (y * raster.width + x) * 4;
+          if (raster.data[i + 3] < ALPHA_THRESHOLD) continue;
+          r += raster.data[i];
+          g += raster.data[i + 1];
+          b += raster.data[i + 2];
+          opaque++;
+        }
+      }
+
+      // Mostly transparent areas stay blank
+      if (opaque * 2 < (bottom - top) * (right - left)) {
+        colors.push(null);
+        continue;
+      }
+
+      const color: RGB = [
+        Math.round(adjustChannel(r / opaque, brightness, contrast, gamma)),
+        Math.round(adjustChannel(g / opaque, brightness, contrast, gamma)),
+        Math.round(adjustChannel(b / opaque, brightness, contrast, gamma)),
+      ];
+      colors.push(color);
+      levels[row * columns + column] = luminance(color[0], color[1], color[2]);
+    }
+  }
+
+  const edgeMap = options.mode === 'edges' ? analyzeEdges(raster, area, columns, rows) : null;
+  // Edge strength is judged against the strongest edge, so the threshold
+  // works the same for soft photos and hard-edged pixel art
+  let strongestEdge = 1;
+  if (edgeMap) {
+    for (const strength of edgeMap.magnitude) strongestEdge = Math.max(strongestEdge, strength);
+  }
+  const edgeThreshold = options.edgeThreshold ?? DEFAULT_EDGE_THRESHOLD;
+
+  const cells: AsciiCell[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const line: AsciiCell[] = [];
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      const color = colors[index];
+      if (!color) {
+        line.push({ char: ' ', color: [0, 0, 0] });
+        continue;
+      }
+
+      let level = levels[index];
+      if (sharpen > 0) {
+        // Unsharp mask against the four neighbours, which exaggerates outlines
+        const neighbours = [
+          row > 0 ? levels[index - columns] : level,
+          row < rows - 1 ? levels[index + columns] : level,
+          column > 0 ? levels[index - 1] : level,
+          column < columns - 1 ? levels[index + 1] : level,
+        ];
+        const average = (neighbours[0] + neighbours[1] + neighbours[2] + neighbours[3]) / 4;
+        level = clampChannel(level + sharpen * 4 * (level - average));
+      }
+
+      const share = options.invert ? 1 - level / 255 : level / 255;
+      const onEdge = edgeMap
+        && edgeMap.magnitude[index] / strongestEdge >= edgeThreshold
+        && edgeMap.coherence[index] >= MIN_EDGE_COHERENCE;
+      line.push({
+        char: edgeMap && onEdge
+          ? directionalGlyph(edgeMap.angle[index], edgeMap.centroidY[index])
+          : ramp[Math.round(share * (ramp.length - 1))],
+        color: displayColor(color, colorMode) || color,
+      });
+    }
+    cells.push(line);
+  }
+
+  return { columns, rows, colorMode, cells };
+};
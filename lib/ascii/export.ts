@@ -0,0 +1,246 @@
+/**
+ * ASCII Export Files
+ * Turns converted ASCII art into standalone files: plain text, ANSI for
+ * real terminals, and HTML and SVG that keep each character's colour,
+ * for single images and animations. PNG needs a canvas, so it is
+ * rendered by the browser helpers.
+ */
+
+import { playbackDelays, type AsciiAnimationData } from './animation';
+import type { AsciiArt } from './engine';
+import { asciiToAnsi, asciiToRuns, asciiToText } from './format';
+
+export const ASCII_EXPORT_FORMATS = ['txt', 'html', 'svg', 'png', 'ansi'] as const;
+export type AsciiExportFormat = typeof ASCII_EXPORT_FORMATS[number];
+
+export const ASCII_ANIMATION_EXPORT_FORMATS = ['svg', 'html'] as const;
+export type AsciiAnimationExportFormat = typeof ASCII_ANIMATION_EXPORT_FORMATS[number];
+
+export interface AsciiFileOptions {
+  // Page or image title
+  title?: string;
+  background?: string;
+  // Default text colour, used for mono art and uncoloured runs
+  foreground?: string;
+  // SVG character cell size in pixels
+  cellWidth?: number;
+  cellHeight?: number;
+}
+
+export interface AsciiAnimationFileOptions extends AsciiFileOptions {
+  // Play once and stop on the last frame instead of repeating
+  once?: boolean;
+  // Fixed playback rate instead of the animation's own frame delays
+  fps?: number;
+}
+
+export interface AsciiFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+const DEFAULT_BACKGROUND = '#000';
+const DEFAULT_FOREGROUND = '#6ee7b7';
+// Monospace fonts are about 0.6em wide
+const DEFAULT_CELL_WIDTH = 6;
+const DEFAULT_CELL_HEIGHT = 10;
+const FONT_STACK = "'JetBrains Mono', 'DejaVu Sans Mono', Menlo, Consolas, monospace";
+
+// Escape text for HTML and XML content and attribute values
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// The art as HTML lines of coloured spans, for inside a <pre>
+function htmlLines(art: AsciiArt): string {
+  return asciiToRuns(art)
+    .map(runs => runs
+      .map(run => (run.color ? `<span style="color:${run.color}">${escapeMarkup(run.text)}</span>` : escapeMarkup(run.text)))
+      .join(''))
+    .join('\n');
+}
+
+// HTML page around a <pre>, with optional script
+function htmlPage(body: string, options: AsciiFileOptions, script = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeMarkup(options.title || 'ASCII art')}</title>
+<style>
+body { margin: 0; background: ${options.background || DEFAULT_BACKGROUND}; }
+pre { margin: 0; padding: 1em; color: ${options.foreground || DEFAULT_FOREGROUND}; font: 10px/1 ${FONT_STACK}; }
+</style>
+</head>
+<body>
+<pre>${body}</pre>${script ? `\n<script>${script}</script>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Self-contained HTML page showing the art with per-character colours
+ * @param art Converted art
+ * @param options Title and colours
+ */
+export const asciiToHtml = (art: AsciiArt, options: AsciiFileOptions = {}): string => {
+  return htmlPage(htmlLines(art), options);
+};
+
+/**
+ * SVG image of the art. Every coloured run is positioned by column, so
+ * the grid stays aligned whatever monospace font the viewer falls back to.
+ * @param art Converted art
+ * @param options Title, colours and cell size
+ */
+export const asciiToSvg = (art: AsciiArt, options: AsciiFileOptions = {}): string => {
+  return svgDocument(art, svgRows(art, options).join('\n'), options);
+};
+
+// One <text> element per row, with a positioned <tspan> per coloured run
+function svgRows(art: AsciiArt, options: AsciiFileOptions): string[] {
+  const cellWidth = options.cellWidth || DEFAULT_CELL_WIDTH;
+  const cellHeight = options.cellHeight || DEFAULT_CELL_HEIGHT;
+
+  return asciiToRuns(art).map((runs, row) => {
+    let column = 0;
+    const spans: string[] = [];
+    for (const run of runs) {
+      const length = Array.from(run.text).length;
+      // Blank runs only move the next run along
+      if (run.text.trim()) {
+        const fill = run.color ? ` fill="${run.color}"` : '';
+        spans.push(`<tspan x="${column * cellWidth}"${fill}>${escapeMarkup(run.text)}</tspan>`);
+      }
+      column += length;
+    }
+    return spans.length ? `<text y="${row * cellHeight}">${spans.join('')}</text>` : '';
+  }).filter(Boolean);
+}
+
+// SVG root with the background and text styles around the given content
+function svgDocument(art: AsciiArt, content: string, options: AsciiFileOptions): string {
+  const cellHeight = options.cellHeight || DEFAULT_CELL_HEIGHT;
+  const width = art.columns * (options.cellWidth || DEFAULT_CELL_WIDTH);
+  const height = art.rows * cellHeight;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<title>${escapeMarkup(options.title || 'ASCII art')}</title>
+<rect width="100%" height="100%" fill="${options.background || DEFAULT_BACKGROUND}"/>
+<g font-family="${escapeMarkup(FONT_STACK)}" font-size="${cellHeight}" dominant-baseline="text-before-edge" xml:space="preserve" fill="${options.foreground || DEFAULT_FOREGROUND}">
+${content}
+</g>
+</svg>
+`;
+}
+
+/**
+ * Build an export file in one of the text based formats
+ * @param art Converted art
+ * @param format Any format but png
+ * @param options Title, colours and cell size for HTML and SVG
+ */
+export const asciiToFile = (art: AsciiArt, format: Exclude<AsciiExportFormat, 'png'>, options: AsciiFileOptions = {}): AsciiFile => {
+  switch (format) {
+    case 'html':
+      return { content: asciiToHtml(art, options), mimeType: 'text/html', extension: 'html' };
+    case 'svg':
+      return { content: asciiToSvg(art, options), mimeType: 'image/svg+xml', extension: 'svg' };
+    case 'ansi':
+      // Trailing newline so the shell prompt starts on its own line after cat
+      return { content: `${asciiToAnsi(art)}\n`, mimeType: 'text/plain', extension: 'ans' };
+    default:
+      return { content: `${asciiToText(art)}\n`, mimeType: 'text/plain', extension: 'txt' };
+  }
+};
+
+/**
+ * Animated SVG that shows each frame in turn with SMIL, so it plays in
+ * browsers and anywhere SVG images are embedded, without scripts
+ * @param animation Converted animation
+ * @param options Title, colours, cell size, timing and looping
+ */
+export const asciiAnimationToSvg = (animation: AsciiAnimationData, options: AsciiAnimationFileOptions = {}): string => {
+  const delays = playbackDelays(animation, options.fps);
+  const duration = delays.reduce((sum, delay) => sum + delay, 0);
+  const repeat = options.once ? 'repeatCount="1" fill="freeze"' : 'repeatCount="indefinite"';
+
+  let start = 0;
+  const frames = animation.frames.map((art, index) => {
+    const end = start + delays[index];
+    // Each frame is displayed between its start and end, hidden otherwise
+    const values: string[] = [];
+    const keyTimes: string[] = [];
+    if (start > 0) {
+      values.push('none');
+      keyTimes.push('0');
+    }
+    values.push('inline');
+    keyTimes.push((start / duration).toFixed(4));
+    if (end < duration) {
+      values.push('none');
+      keyTimes.push((end / duration).toFixed(4));
+    }
+    start = end;
+
+    return `<g display="${index === 0 ? 'inline' : 'none'}">
+<animate attributeName="display" values="${values.join(';')}" keyTimes="${keyTimes.join(';')}" calcMode="discrete" dur="${duration}ms" ${repeat}/>
+${svgRows(art, options).join('\n')}
+</g>`;
+  });
+
+  return svgDocument(animation.frames[0], frames.join('\n'), options);
+};
+
+/**
+ * Self-contained HTML page that plays the animation with a small script;
+ * click it to pause and resume
+ * @param animation Converted animation
+ * @param options Title, colours, timing and looping
+ */
+export const asciiAnimationToHtml = (animation: AsciiAnimationData, options: AsciiAnimationFileOptions = {}): string => {
+  const frames = JSON.stringify(animation.frames.map(htmlLines)).replace(/</g, '\\u003c');
+  const delays = JSON.stringify(playbackDelays(animation, options.fps).map(Math.round));
+  const script = `
+const frames = ${frames};
+const delays = ${delays};
+const once = ${Boolean(options.once)};
+const screen = document.querySelector('pre');
+let frame = 0;
+let timer = null;
+const show = () => {
+  screen.innerHTML = frames[frame];
+  if (once && frame === frames.length - 1) return;
+  timer = setTimeout(() => { frame = (frame + 1) % frames.length; show(); }, delays[frame]);
+};
+screen.style.cursor = 'pointer';
+screen.title = 'Click to pause or resume';
+screen.addEventListener('click', () => {
+  if (timer === null) { show(); } else { clearTimeout(timer); timer = null; }
+});
+show();
+`;
+  return htmlPage(htmlLines(animation.frames[0]), options, script);
+};
+
+/**
+ * Build an export file of an animation
+ * @param animation Converted animation
+ * @param format Animated SVG or HTML player
+ * @param options Title, colours, timing and looping
+ */
+export const asciiAnimationToFile = (
+  animation: AsciiAnimationData,
+  format: AsciiAnimationExportFormat,
+  options: AsciiAnimationFileOptions = {}
+): AsciiFile => {
+  return format === 'svg'
+    ? { content: asciiAnimationToSvg(animation, options), mimeType: 'image/svg+xml', extension: 'svg' }
+    : { content: asciiAnimationToHtml(animation, options), mimeType: 'text/html', extension: 'html' };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { RGB } from '@/lib/image/raster';
+import type { AsciiArt } from './engine';
+import { ansi256ToRgb, asciiToAnsi, asciiToText, displayColor, rgbToAnsi256, type AsciiColorMode } from './format';
+
+const RED: RGB = [255, 0, 0];
+const BLUE: RGB = [0, 0, 255];
+
+// Art from lines of characters, coloured by a colour per character
+const art = (lines: string[], colors: Record<string, RGB>, colorMode: AsciiColorMode): AsciiArt => ({
+  columns: lines[0].length,
+  rows: lines.length,
+  colorMode,
+  cells: lines.map(line => [...line].map(char => ({ char, color: colors[char] || [0, 0, 0] }))),
+});
+
+describe('rgbToAnsi256', () => {
+  it('picks colours from the 6x6x6 cube', () => {
+    expect(rgbToAnsi256(RED)).toBe(196);
+    expect(rgbToAnsi256(BLUE)).toBe(21);
+    expect(rgbToAnsi256([0, 0, 0])).toBe(16);
+    expect(rgbToAnsi256([255, 255, 255])).toBe(231);
+    expect(rgbToAnsi256([100, 140, 210])).toBe(16 + 36 * 1 + 6 * 2 + 4);
+  });
+
+  it('prefers the grey ramp for greys between cube levels', () => {
+    expect(rgbToAnsi256([128, 128, 128])).toBe(244);
+    expect(rgbToAnsi256([10, 10, 10])).toBe(232);
+    expect(rgbToAnsi256([238, 238, 238])).toBe(255);
+  });
+
+  it('round-trips every palette entry through ansi256ToRgb', () => {
+    for (let index = 16; index < 256; index++) {
+      expect(rgbToAnsi256(ansi256ToRgb(index))).toBe(index);
+    }
+  });
+});
+
+describe('ansi256ToRgb', () => {
+  it('maps cube and grey indices to their colours', () => {
+    expect(ansi256ToRgb(196)).toEqual(RED);
+    expect(ansi256ToRgb(16 + 36 * 1 + 6 * 2 + 4)).toEqual([95, 135, 215]);
+    expect(ansi256ToRgb(232)).toEqual([8, 8, 8]);
+    expect(ansi256ToRgb(255)).toEqual([238, 238, 238]);
+  });
+});
+
+describe('displayColor', () => {
+  it('depends on the colour mode', () => {
+    expect(displayColor([100, 140, 210], 'mono')).toBeNull();
+    expect(displayColor([100, 140, 210], 'truecolor')).toEqual([100, 140, 210]);
+    expect(displayColor([100, 140, 210], 'ansi256')).toEqual([95, 135, 215]);
+  });
+});
+
+describe('asciiToText', () => {
+  it('joins rows and trims trailing blanks', () => {
+    expect(asciiToText(art([' #  ', '## #'], {}, 'mono'))).toBe(' #\n## #');
+  });
+});
+
+describe('asciiToAnsi', () => {
+  const lines = ['rrb ', '  rr'];
+  const colors = { r: RED, b: BLUE };
+
+  it('writes truecolor escapes only when the colour changes', () => {
+    expect(asciiToAnsi(art(lines, colors, 'truecolor'))).toBe(
+      '\x1b[38;2;255;0;0mrr\x1b[38;2;0;0;255mb \x1b[0m\n' +
+      '  \x1b[38;2;255;0;0mrr\x1b[0m'
+    );
+  });
+
+  it('writes 256-colour palette escapes', () => {
+    expect(asciiToAnsi(art(lines, colors, 'ansi256'))).toBe(
+      '\x1b[38;5;196mrr\x1b[38;5;21mb \x1b[0m\n' +
+      '  \x1b[38;5;196mrr\x1b[0m'
+    );
+  });
+
+  it('leaves blank rows without escapes', () => {
+    expect(asciiToAnsi(art(['   ', 'r  '], colors, 'truecolor'))).toBe('   \n\x1b[38;2;255;0;0mr  \x1b[0m');
+  });
+
+  it('gives plain text for mono art', () => {
+    expect(asciiToAnsi(art(lines, colors, 'mono'))).toBe('rrb\n  rr');
+  });
+});
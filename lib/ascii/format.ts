@@ -0,0 +1,160 @@
+/**
+ * ASCII Output Formats
+ * Serializes converted ASCII art as plain text, as ANSI escape
+ * sequences for real terminals (256-colour or truecolor) or as coloured
+ * runs for renderers to turn into spans.
+ */
+
+import type { RGB } from '@/lib/image/raster';
+import type { AsciiArt } from './engine';
+
+export const ASCII_COLOR_MODES = ['mono', 'ansi256', 'truecolor'] as const;
+export type AsciiColorMode = typeof ASCII_COLOR_MODES[number];
+
+const ANSI_RESET = '\x1b[0m';
+// Channel values of the 6x6x6 colour cube in the xterm 256-colour palette
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// Index of the cube level closest to a channel value
+function nearestCubeLevel(value: number): number {
+  let best = 0;
+  for (let level = 1; level < CUBE_LEVELS.length; level++) {
+    if (Math.abs(CUBE_LEVELS[level] - value) < Math.abs(CUBE_LEVELS[best] - value)) best = level;
+  }
+  return best;
+}
+
+/**
+ * Closest xterm 256-colour palette index, from the colour cube or the grey ramp
+ * @returns Palette index between 16 and 255
+ */
+export const rgbToAnsi256 = (color: RGB): number => {
+  const [r, g, b] = color.map(nearestCubeLevel);
+  const cubeColor: RGB = [CUBE_LEVELS[r], CUBE_LEVELS[g], CUBE_LEVELS[b]];
+
+  // Greys 232-255 run from 8 to 238 in steps of 10
+  const average = (color[0] + color[1] + color[2]) / 3;
+  const grey = Math.max(0, Math.min(23, Math.round((average - 8) / 10)));
+  const greyValue = 8 + grey * 10;
+
+  const distance = (other: RGB) => (color[0] - other[0]) ** 2 + (color[1] - other[1]) ** 2 + (color[2] - other[2]) ** 2;
+  return distance([greyValue, greyValue, greyValue]) < distance(cubeColor) ? 232 + grey : 16 + 36 * r + 6 * g + b;
+};
+
+/**
+ * The RGB value an xterm 256-colour palette index stands for
+ * @param index Palette index between 16 and 255
+ */
+export const ansi256ToRgb = (index: number): RGB => {
+  if (index >= 232) {
+    const value = 8 + (index - 232) * 10;
+    return [value, value, value];
+  }
+  const cube = index - 16;
+  return [CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]];
+};
+
+/**
+ * The colour a cell is shown in for a colour mode
+ * @returns null for mono, where cells use the default text colour
+ */
+export const displayColor = (color: RGB, mode: AsciiColorMode): RGB | null => {
+  if (mode === 'mono') return null;
+  return mode === 'ansi256' ? ansi256ToRgb(rgbToAnsi256(color)) : color;
+};
+
+/**
+ * ASCII art as plain text, one line per row
+ */
+export const asciiToText = (art: AsciiArt): string => {
+  return art.cells.map(row => row.map(cell => cell.char).join('').replace(/\s+$/, '')).join('\n');
+};
+
+/**
+ * ASCII art with ANSI colour escapes in its colour mode, for pasting
+ * into a real terminal; mono art gives plain text
+ * @param art Converted art
+ */
+export const asciiToAnsi = (art: AsciiArt): string => {
+  if (art.colorMode === 'mono') return asciiToText(art);
+
+  return art.cells.map(row => {
+    let line = '';
+    let current = '';
+    for (const cell of row) {
+      // Only switch colour when it changes, and never for blank cells
+      if (cell.char !== ' ') {
+        const [r, g, b] = cell.color;
+        const escape = art.colorMode === 'ansi256' ? `\x1b[38;5;${rgbToAnsi256(cell.color)}m` : `\x1b[38;2;${r};${g};${b}m`;
+        if (escape !== current) {
+          line += escape;
+          current = escape;
+        }
+      }
+      line += cell.char;
+    }
+    return current ? line + ANSI_RESET : line;
+  }).join('\n');
+};
+
+export interface AsciiRun {
+  text: string;
+  // CSS colour, or null for the renderer's default text colour
+  color: string | null;
+}
+
+/**
+ * Split each row into runs of one colour, so renderers need only a few
+ * spans per line. Blank cells join whichever run they follow.
+ * @param art Converted art; mono art gives one uncoloured run per row
+ */
+export const asciiToRuns = (art: AsciiArt): AsciiRun[][] => {
+  return art.cells.map(row => {
+    const runs: AsciiRun[] = [];
+    for (const cell of row) {
+      const color = art.colorMode === 'mono' || cell.char === ' '
+        ? null
+        : `rgb(${cell.color[0]},${cell.color[1]},${cell.color[2]})`;
+      const last = runs[runs.length - 1];
+      if (last && (last.color === color || cell.char === ' ' || art.colorMode === 'mono')) {
+        last.text += cell.char;
+      } else {
+        runs.push({ text: cell.char, color });
+      }
+    }
+    return runs;
+  });
+};
+
+export interface AsciiBatch {
+  // CSS colour shared by every character in the batch
+  color: string;
+  // Column, row and character of each cell
+  cells: [number, number, string][];
+}
+
+/**
+ * Group cells by colour so canvas renderers can set the fill style once
+ * per colour instead of once per character
+ * @param art Converted art; mono art gives a single white batch
+ * @param bits Bits kept per channel; fewer bits means fewer, larger batches
+ */
+export const asciiToColorBatches = (art: AsciiArt, bits = 5): AsciiBatch[] => {
+  const shift = 8 - Math.max(1, Math.min(8, bits));
+  const batches = new Map<number, AsciiBatch>();
+
+  art.cells.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.char === ' ') return;
+      const [r, g, b] = art.colorMode === 'mono' ? [255, 255, 255] : cell.color.map(channel => (channel >> shift) << shift);
+      const key = (r << 16) | (g << 8) | b;
+      let batch = batches.get(key);
+      if (!batch) {
+        batch = { color: `rgb(${r},${g},${b})`, cells: [] };
+        batches.set(key, batch);
+      }
+      batch.cells.push([x, y, cell.char]);
+    });
+  });
+  return Array.from(batches.values());
+};
@@ -0,0 +1,11 @@
+/**
+ * ASCII Art
+ * The image to ASCII engine, its output formats, animations, export
+ * files and portrait cropping.
+ */
+
+export * from './engine';
+export * from './format';
+export * from './animation';
+export * from './export';
+export * from './crop';
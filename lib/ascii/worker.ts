@@ -0,0 +1,48 @@
+/**
+ * ASCII Worker
+ * Web Worker entry that decodes an image with OffscreenCanvas and runs
+ * the ASCII engine, keeping both off the main thread. Started by
+ * convertImageToAscii in ./browser.
+ */
+
+import type { Raster } from '@/lib/image/raster';
+import { convertToAscii, type AsciiArt, type AsciiOptions } from './engine';
+
+export interface AsciiWorkerRequest {
+  id: number;
+  // An encoded image, or pixels that were already decoded (e.g. video frames)
+  image: Blob | Raster;
+  options: AsciiOptions;
+}
+
+export type AsciiWorkerResponse =
+  | { id: number; art: AsciiArt }
+  | { id: number; error: string };
+
+// Decode an image blob into pixels without touching the DOM
+async function decode(image: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('OffscreenCanvas 2D is not supported');
+    }
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+addEventListener('message', async (event: MessageEvent<AsciiWorkerRequest>) => {
+  const { id, image, options } = event.data;
+  let response: AsciiWorkerResponse;
+  try {
+    const raster = image instanceof Blob ? await decode(image) : image;
+    response = { id, art: convertToAscii(raster, options) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'ASCII conversion failed' };
+  }
+  postMessage(response);
+});
@@ -0,0 +1,88 @@
+/**
+ * Game Engine Download (client only)
+ * Packages a stored generation for an engine in the browser: the image
+ * is reduced to its logical pixel grid, sliced by how it was generated
+ * (single image, animation or tileset) and saved as a zip.
+ */
+
+import { frameDurations } from '@/lib/generation/frames';
+import { DEFAULT_CYCLE, parseTileset } from '@/lib/generation/params';
+import type { GenerationRecord } from '@/lib/generations';
+import { blobToRaster, fetchImageBlob, rasterToPngBlob, saveBlob } from '@/lib/image/browser';
+import { detectPixelGrid, downscaleToGrid } from '@/lib/image/grid';
+import { buildSpriteAtlas, spriteSheetLayout } from '@/lib/image/spritesheet';
+import { buildEnginePackage, type EngineAsset, type EngineAssetKind, type EngineTarget } from './index';
+
+export interface EngineExportOptions {
+  // Image pixels per world unit; one frame or tile per unit when not given
+  pixelsPerUnit?: number;
+}
+
+export interface EngineExport {
+  // Name of the downloaded zip
+  file: string;
+  asset: EngineAsset;
+  // Size of one frame or tile, in logical pixels
+  frameWidth: number;
+  frameHeight: number;
+}
+
+// How a generation's image is divided, from the parameters it was made with
+function describeSheet(params: GenerationRecord['params']): { kind: EngineAssetKind; count: number; columns?: number } {
+  if (params.frames) {
+    return { kind: 'animation', count: params.frames };
+  }
+  if (params.tileset) {
+    const { columns, rows } = parseTileset(params.tileset);
+    return { kind: 'tileset', count: columns * rows, columns };
+  }
+  return { kind: 'sprite', count: 1 };
+}
+
+/**
+ * Download a generation packaged for a game engine or map editor
+ * @param generation Stored generation with an image
+ * @param target Engine to package for
+ * @param options Pixels per unit override
+ * @returns The saved file and what was packaged
+ * @throws Error when the generation has no image or it cannot be loaded
+ */
+export const exportForEngine = async (
+  generation: Pick<GenerationRecord, 'shortId' | 'imageUrl' | 'params'>,
+  target: EngineTarget,
+  options: EngineExportOptions = {}
+): Promise<EngineExport> => {
+  if (!generation.imageUrl) {
+    throw new Error(`Generation ${generation.shortId} has no stored image.`);
+  }
+
+  const raster = await blobToRaster(await fetchImageBlob(generation.imageUrl));
+  const { kind, count, columns } = describeSheet(generation.params);
+  const sheet = spriteSheetLayout(count, 1, 1, columns);
+  const frameWidth = Math.floor(raster.width / sheet.columns);
+  const frameHeight = Math.floor(raster.height / sheet.rows);
+
+  // Reduce to the logical grid only when frames stay whole pixels wide
+  const { cellSize } = detectPixelGrid(raster);
+  const scale = frameWidth % cellSize === 0 && frameHeight % cellSize === 0 ? cellSize : 1;
+  const logical = downscaleToGrid(raster, scale);
+  const layout = spriteSheetLayout(count, frameWidth / scale, frameHeight / scale, columns);
+
+  const name = `promixel-${generation.shortId}`;
+  const cycle = generation.params.cycle ?? DEFAULT_CYCLE;
+  const asset: EngineAsset = {
+    name,
+    kind,
+    png: new Uint8Array(await (await rasterToPngBlob(logical)).arrayBuffer()),
+    atlas: buildSpriteAtlas(layout, {
+      name: kind === 'animation' ? cycle : kind === 'tileset' ? 'tile' : name,
+      image: `${name}.png`,
+      durations: kind === 'animation' ? frameDurations({ frames: count, cycle }) : undefined,
+    }),
+    pixelsPerUnit: options.pixelsPerUnit ?? layout.frameWidth,
+  };
+
+  const file = `${name}-${target}.zip`;
+  saveBlob(new Blob([buildEnginePackage(asset, target)], { type: 'application/zip' }), file);
+  return { file, asset, frameWidth: layout.frameWidth, frameHeight: layout.frameHeight };
+};
@@ -0,0 +1,162 @@
+/**
+ * Godot 4 Export
+ * Texture import settings that keep pixels exact, plus the resources and
+ * scene to use the image straight away: a Sprite2D for single images, a
+ * SpriteFrames resource of AtlasTextures with an AnimatedSprite2D for
+ * animations, and a TileSet with a TileMapLayer for tilesets. Godot sets
+ * texture filtering per node, so every scene node uses nearest filtering.
+ */
+
+import type { SpriteAtlas } from '@/lib/image/spritesheet';
+import type { ZipEntry } from '@/lib/zip';
+import type { EngineAsset, EnginePackager } from './types';
+
+// CanvasItem.TEXTURE_FILTER_NEAREST
+const TEXTURE_FILTER_NEAREST = 1;
+
+// The package folder is unzipped into the project root
+const resourcePath = (asset: EngineAsset, file: string) => `res://${asset.name}/${file}`;
+
+// Lossless compression, no mipmaps; filtering is not an import setting in Godot 4
+function importFile(asset: EngineAsset): string {
+  return `[remap]
+
+importer="texture"
+type="CompressedTexture2D"
+
+[deps]
+
+source_file="${resourcePath(asset, `${asset.name}.png`)}"
+
+[params]
+
+compress/mode=0
+compress/high_quality=false
+compress/lossy_quality=0.7
+compress/hdr_compression=1
+compress/normal_map=0
+compress/channel_pack=0
+mipmaps/generate=false
+mipmaps/limit=-1
+roughness/mode=0
+roughness/src_normal=""
+process/fix_alpha_border=false
+process/premult_alpha=false
+process/normal_map_invert_y=false
+process/hdr_as_srgb=false
+process/hdr_clamp_exposure=false
+process/size_limit=0
+detect_3d/compress_to=0
+`;
+}
+
+// SpriteFrames of one animation, every frame an AtlasTexture region of the sheet
+function spriteFramesResource(asset: EngineAsset, animation: string): string {
+  const { frames } = asset.atlas;
+  const shortest = Math.min(...frames.map(frame => frame.duration));
+  const regions = frames.map((frame, index) => `[sub_resource type="AtlasTexture" id="AtlasTexture_${index}"]
+atlas = ExtResource("1_sheet")
+region = Rect2(${frame.frame.x}, ${frame.frame.y}, ${frame.frame.w}, ${frame.frame.h})
+filter_clip = true
+`);
+  // Frame durations are relative to the animation speed, in frames per second
+  const entries = frames.map((frame, index) => `{
+"duration": ${(frame.duration / shortest).toFixed(3)},
+"texture": SubResource("AtlasTexture_${index}")
+}`);
+
+  return `[gd_resource type="SpriteFrames" load_steps=${frames.length + 2} format=3]
+
+[ext_resource type="Texture2D" path="${resourcePath(asset, `${asset.name}.png`)}" id="1_sheet"]
+
+${regions.join('\n')}
+[resource]
+animations = [{
+"frames": [${entries.join(', ')}],
+"loop": true,
+"name": &"${animation}",
+"speed": ${(1000 / shortest).toFixed(3)}
+}]
+`;
+}
+
+// TileSet with one atlas source covering the whole sheet
+function tileSetResource(asset: EngineAsset): string {
+  const { w, h } = asset.atlas.frames[0].frame;
+  const tiles = asset.atlas.frames.map(frame => `${frame.frame.x / w}:${frame.frame.y / h}/0 = 0`);
+
+  return `[gd_resource type="TileSet" load_steps=3 format=3]
+
+[ext_resource type="Texture2D" path="${resourcePath(asset, `${asset.name}.png`)}" id="1_sheet"]
+
+[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_0"]
+texture = ExtResource("1_sheet")
+texture_region_size = Vector2i(${w}, ${h})
+${tiles.join('\n')}
+
+[resource]
+tile_size = Vector2i(${w}, ${h})
+sources/0 = SubResource("TileSetAtlasSource_0")
+`;
+}
+
+// Scene with a single node using the given resource
+function scene(nodeType: string, resourceType: string, path: string, properties: string[]): string {
+  return `[gd_scene load_steps=2 format=3]
+
+[ext_resource type="${resourceType}" path="${path}" id="1_resource"]
+
+[node name="${nodeType}" type="${nodeType}"]
+texture_filter = ${TEXTURE_FILTER_NEAREST}
+${properties.join('\n')}
+`;
+}
+
+// Name of the atlas's animation, as set by buildSpriteAtlas
+const animationName = (atlas: SpriteAtlas) => atlas.meta.frameTags[0]?.name || 'default';
+
+export const godotPackager: EnginePackager = {
+  id: 'godot',
+  name: 'Godot 4',
+
+  files: asset => {
+    const { name } = asset;
+    const files: ZipEntry[] = [
+      { path: `${name}.png`, data: asset.png },
+      { path: `${name}.png.import`, data: importFile(asset) },
+    ];
+
+    switch (asset.kind) {
+      case 'animation': {
+        const animation = animationName(asset.atlas);
+        files.push(
+          { path: `${name}_frames.tres`, data: spriteFramesResource(asset, animation) },
+          {
+            path: `${name}.tscn`,
+            data: scene('AnimatedSprite2D', 'SpriteFrames', resourcePath(asset, `${name}_frames.tres`), [
+              'sprite_frames = ExtResource("1_resource")',
+              `animation = &"${animation}"`,
+              `autoplay = "${animation}"`,
+            ]),
+          }
+        );
+        break;
+      }
+      case 'tileset':
+        files.push(
+          { path: `${name}_tileset.tres`, data: tileSetResource(asset) },
+          {
+            path: `${name}.tscn`,
+            data: scene('TileMapLayer', 'TileSet', resourcePath(asset, `${name}_tileset.tres`), ['tile_set = ExtResource("1_resource")']),
+          }
+        );
+        break;
+      default:
+        files.push({
+          path: `${name}.tscn`,
+          data: scene('Sprite2D', 'Texture2D', resourcePath(asset, `${name}.png`), ['texture = ExtResource("1_resource")']),
+        });
+    }
+    return files;
+  },
+};
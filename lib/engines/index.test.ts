@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { buildSpriteAtlas, spriteSheetLayout } from '@/lib/image/spritesheet';
+import { godotPackager } from './godot';
+import { buildEnginePackage, engineTargetName, isEngineTarget, type EngineAsset, type EngineAssetKind } from './index';
+import { tiledPackager } from './tiled';
+import { unityPackager } from './unity';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+// A 4 frame (or tile) asset of 16x16 frames on a 2x2 sheet
+const asset = (kind: EngineAssetKind): EngineAsset => {
+  const layout = kind === 'sprite' ? spriteSheetLayout(1, 32, 32) : spriteSheetLayout(4, 16, 16, 2);
+  return {
+    name: 'hero',
+    kind,
+    png: PNG,
+    atlas: buildSpriteAtlas(layout, {
+      name: 'walk',
+      image: 'hero.png',
+      durations: kind === 'animation' ? [100, 100, 200, 100] : undefined,
+    }),
+    pixelsPerUnit: 16,
+  };
+};
+
+// Text content of a file in a package
+const file = (files: { path: string; data: Uint8Array | string }[], path: string) => {
+  const found = files.find(entry => entry.path === path);
+  expect(found, path).toBeDefined();
+  return found!.data as string;
+};
+
+describe('engine targets', () => {
+  it('recognises the supported targets', () => {
+    expect(isEngineTarget('godot')).toBe(true);
+    expect(isEngineTarget('unreal')).toBe(false);
+    expect(engineTargetName('godot')).toBe('Godot 4');
+  });
+
+  it('puts every file in a folder named after the asset', () => {
+    const zip = new TextDecoder('latin1').decode(buildEnginePackage(asset('sprite'), 'tiled'));
+    expect(zip).toContain('hero/hero.png');
+    expect(zip).toContain('hero/hero.tsx');
+    expect(zip).not.toMatch(/[^/]hero\.tsx/);
+  });
+});
+
+describe('godotPackager', () => {
+  it('adds a Sprite2D scene with nearest filtering for sprites', () => {
+    const files = godotPackager.files(asset('sprite'));
+    expect(files.map(entry => entry.path)).toEqual(['hero.png', 'hero.png.import', 'hero.tscn']);
+    expect(files[0].data).toBe(PNG);
+    expect(file(files, 'hero.png.import')).toContain('mipmaps/generate=false');
+    const scene = file(files, 'hero.tscn');
+    expect(scene).toContain('[node name="Sprite2D" type="Sprite2D"]');
+    expect(scene).toContain('texture_filter = 1');
+    expect(scene).toContain('path="res://hero/hero.png"');
+  });
+
+  it('builds SpriteFrames with relative durations for animations', () => {
+    const files = godotPackager.files(asset('animation'));
+    const frames = file(files, 'hero_frames.tres');
+    expect(frames).toContain('load_steps=6');
+    expect(frames).toContain('region = Rect2(16, 16, 16, 16)');
+    expect(frames).toContain('"duration": 2.000');
+    expect(frames).toContain('"name": &"walk"');
+    expect(frames).toContain('"speed": 10.000');
+    expect(file(files, 'hero.tscn')).toContain('autoplay = "walk"');
+  });
+
+  it('lists every tile of a tileset by its atlas coordinates', () => {
+    const tileset = file(godotPackager.files(asset('tileset')), 'hero_tileset.tres');
+    expect(tileset).toContain('tile_size = Vector2i(16, 16)');
+    expect(tileset.match(/^\d:\d\/0 = 0$/gm)).toEqual(['0:0/0 = 0', '1:0/0 = 0', '0:1/0 = 0', '1:1/0 = 0']);
+  });
+});
+
+describe('unityPackager', () => {
+  it('imports single sprites as one point filtered sprite', () => {
+    const meta = file(unityPackager.files(asset('sprite')), 'hero.png.meta');
+    expect(meta).toContain('filterMode: 0');
+    expect(meta).toContain('spriteMode: 1');
+    expect(meta).toContain('spritePixelsToUnits: 16');
+    expect(meta).toContain('sprites: []');
+  });
+
+  it('slices frames with y measured from the bottom', () => {
+    const meta = file(unityPackager.files(asset('animation')), 'hero.png.meta');
+    expect(meta).toContain('spriteMode: 2');
+    expect(meta.match(/name: walk_\d/g)).toEqual(['name: walk_0', 'name: walk_1', 'name: walk_2', 'name: walk_3']);
+    expect(meta.match(/^ {8}y: \d+$/gm)).toEqual(['        y: 16', '        y: 16', '        y: 0', '        y: 0']);
+    expect(meta).toContain('walk_3: 21300006');
+  });
+
+  it('uses the same GUIDs for the same asset', () => {
+    const guid = (meta: string) => meta.match(/^guid: ([0-9a-f]{32})$/m)?.[1];
+    const first = guid(file(unityPackager.files(asset('sprite')), 'hero.png.meta'));
+    expect(first).toBeDefined();
+    expect(guid(file(unityPackager.files(asset('tileset')), 'hero.png.meta'))).toBe(first);
+    expect(guid(file(unityPackager.files({ ...asset('sprite'), name: 'villain' }), 'villain.png.meta'))).not.toBe(first);
+  });
+});
+
+describe('tiledPackager', () => {
+  it('describes the sheet as a tileset', () => {
+    const tsx = file(tiledPackager.files(asset('tileset')), 'hero.tsx');
+    expect(tsx).toContain('tilewidth="16" tileheight="16" tilecount="4" columns="2"');
+    expect(tsx).toContain('<image source="hero.png" width="32" height="32"/>');
+    expect(tsx).not.toContain('<animation>');
+  });
+
+  it('animates the first tile through the frames', () => {
+    const tsx = file(tiledPackager.files(asset('animation')), 'hero.tsx');
+    expect(tsx).toContain('<frame tileid="2" duration="200"/>');
+  });
+
+  it('escapes the asset name', () => {
+    const tsx = file(tiledPackager.files({ ...asset('sprite'), name: 'a "b" & c' }), 'a "b" & c.tsx');
+    expect(tsx).toContain('name="a &quot;b&quot; &amp; c"');
+  });
+});
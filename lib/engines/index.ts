@@ -0,0 +1,48 @@
+/**
+ * Game Engine Export
+ * Packages a generated image for a game engine or map editor as a zip
+ * holding one folder named after the asset:
+ *   godot - texture import settings, SpriteFrames or TileSet resources and a scene
+ *   unity - a .meta with point filtering, no compression and sprite slicing
+ *   tiled - a .tsx tileset, with the frames of animations as a tile animation
+ */
+
+import { createZip } from '@/lib/zip';
+import { godotPackager } from './godot';
+import { tiledPackager } from './tiled';
+import type { EngineAsset, EnginePackager } from './types';
+import { unityPackager } from './unity';
+
+export * from './types';
+
+export const ENGINE_TARGETS = ['godot', 'unity', 'tiled'] as const;
+export type EngineTarget = typeof ENGINE_TARGETS[number];
+
+const packagers: Record<EngineTarget, EnginePackager> = {
+  godot: godotPackager,
+  unity: unityPackager,
+  tiled: tiledPackager,
+};
+
+/**
+ * Check a user supplied target against the supported ones
+ */
+export const isEngineTarget = (value: unknown): value is EngineTarget => {
+  return ENGINE_TARGETS.includes(value as EngineTarget);
+};
+
+/**
+ * Display name of a target, e.g. "Godot 4"
+ */
+export const engineTargetName = (target: EngineTarget): string => packagers[target].name;
+
+/**
+ * Build the zip file of an asset for one engine
+ * @param asset Image, atlas and import settings to package
+ * @param target Engine or editor to package for
+ * @returns The zip file's bytes
+ */
+export const buildEnginePackage = (asset: EngineAsset, target: EngineTarget): Uint8Array => {
+  const files = packagers[target].files(asset);
+  return createZip(files.map(file => ({ ...file, path: `${asset.name}/${file.path}` })));
+};
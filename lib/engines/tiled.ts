@@ -0,0 +1,45 @@
+/**
+ * Tiled Export
+ * The image as an external .tsx tileset for the Tiled map editor, one
+ * tile per frame or tile of the atlas. Animations become an animated
+ * first tile, so placing it on a map plays the frames. Tiled draws
+ * pixels unfiltered, so nothing else needs setting up.
+ */
+
+import type { ZipEntry } from '@/lib/zip';
+import type { EngineAsset, EnginePackager } from './types';
+
+const TSX_VERSION = '1.10';
+
+// Escape text for XML attribute values
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+function tilesetFile(asset: EngineAsset): string {
+  const { frames, meta } = asset.atlas;
+  const { w, h } = frames[0].frame;
+  const columns = Math.round(meta.size.w / w);
+  const animation = asset.kind === 'animation'
+    ? `
+ <tile id="0">
+  <animation>
+${frames.map((frame, index) => `   <frame tileid="${index}" duration="${frame.duration}"/>`).join('\n')}
+  </animation>
+ </tile>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tileset version="${TSX_VERSION}" name="${escapeXml(asset.name)}" tilewidth="${w}" tileheight="${h}" tilecount="${frames.length}" columns="${columns}">
+ <image source="${escapeXml(`${asset.name}.png`)}" width="${meta.size.w}" height="${meta.size.h}"/>${animation}
+</tileset>
+`;
+}
+
+export const tiledPackager: EnginePackager = {
+  id: 'tiled',
+  name: 'Tiled',
+
+  files: (asset): ZipEntry[] => [
+    { path: `${asset.name}.png`, data: asset.png },
+    { path: `${asset.name}.tsx`, data: tilesetFile(asset) },
+  ],
+};
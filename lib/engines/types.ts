@@ -0,0 +1,30 @@
+/**
+ * Game Engine Export Types
+ * Every engine target turns the same asset description into the files
+ * its editor imports, so the export command never depends on one
+ * engine's formats.
+ */
+
+import type { SpriteAtlas } from '@/lib/image/spritesheet';
+import type { ZipEntry } from '@/lib/zip';
+
+export type EngineAssetKind = 'sprite' | 'animation' | 'tileset';
+
+export interface EngineAsset {
+  // File name without extension, also used as the package folder
+  name: string;
+  kind: EngineAssetKind;
+  // PNG file at the image's logical resolution, one pixel per art pixel
+  png: Uint8Array;
+  // Where each frame or tile is on the image; a single rect for sprites
+  atlas: SpriteAtlas;
+  // Image pixels per world unit
+  pixelsPerUnit: number;
+}
+
+export interface EnginePackager {
+  id: string;
+  name: string;
+  // Files of the package, with paths inside the asset's folder
+  files: (asset: EngineAsset) => ZipEntry[];
+}
@@ -0,0 +1,177 @@
+/**
+ * Unity Export
+ * The image with a TextureImporter .meta file set up for pixel art:
+ * sprite texture type, point filtering, no compression, no mipmaps and
+ * the chosen pixels per unit. Animations and tilesets are sliced into
+ * one sprite per frame or tile, named as in the atlas.
+ */
+
+import type { ZipEntry } from '@/lib/zip';
+import type { EngineAsset, EnginePackager } from './types';
+
+// Unity's file id of the first sprite in a texture; later ones count up by two
+const FIRST_SPRITE_ID = 21300000;
+
+// FNV-1a hash of a string with a starting value
+function hash(value: string, seed: number): number {
+  let result = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+// 32 hex digit id, the same for the same input, so re-imports keep references
+function stableGuid(value: string): string {
+  return [0x811c9dc5, 0x01000193, 0x2545f491, 0x9e3779b9]
+    .map(seed => hash(value, seed).toString(16).padStart(8, '0'))
+    .join('');
+}
+
+// One entry of the importer's sprite sheet; Unity measures y from the bottom
+function spriteEntry(asset: EngineAsset, index: number): string {
+  const { filename, frame } = asset.atlas.frames[index];
+  const sheetHeight = asset.atlas.meta.size.h;
+  return `    - serializedVersion: 2
+      name: ${filename}
+      rect:
+        serializedVersion: 2
+        x: ${frame.x}
+        y: ${sheetHeight - frame.y - frame.h}
+        width: ${frame.w}
+        height: ${frame.h}
+      alignment: 0
+      pivot: {x: 0.5, y: 0.5}
+      border: {x: 0, y: 0, z: 0, w: 0}
+      outline: []
+      physicsShape: []
+      tessellationDetail: 0
+      bones: []
+      spriteID: ${stableGuid(`${asset.name}/${filename}`)}
+      internalID: ${FIRST_SPRITE_ID + index * 2}
+      vertices: []
+      indices:
+      edges: []
+      weights: []`;
+}
+
+function metaFile(asset: EngineAsset): string {
+  const sliced = asset.kind !== 'sprite';
+  const frames = asset.atlas.frames;
+  const sprites = sliced ? `\n${frames.map((_, index) => spriteEntry(asset, index)).join('\n')}` : ' []';
+  const nameTable = sliced ? `\n${frames.map((frame, index) => `      ${frame.filename}: ${FIRST_SPRITE_ID + index * 2}`).join('\n')}` : ' {}';
+  const platform = (target: string) => `  - serializedVersion: 3
+    buildTarget: ${target}
+    maxTextureSize: 8192
+    resizeAlgorithm: 0
+    textureFormat: -1
+    textureCompression: 0
+    compressionQuality: 50
+    crunchedCompression: 0
+    allowsAlphaSplitting: 0
+    overridden: 0
+    ignorePlatformSupport: 0
+    androidETC2FallbackOverride: 0
+    forceMaximumCompressionQuality_BC6H_BC7: 0`;
+
+  return `fileFormatVersion: 2
+guid: ${stableGuid(asset.name)}
+TextureImporter:
+  internalIDToNameTable: []
+  externalObjects: {}
+  serializedVersion: 12
+  mipmaps:
+    mipMapMode: 0
+    enableMipMap: 0
+    sRGBTexture: 1
+    linearTexture: 0
+    fadeOut: 0
+    borderMipMap: 0
+    mipMapsPreserveCoverage: 0
+    alphaTestReferenceValue: 0.5
+    mipMapFadeDistanceStart: 1
+    mipMapFadeDistanceEnd: 3
+  bumpmap:
+    convertToNormalMap: 0
+    externalNormalMap: 0
+    heightScale: 0.25
+    normalMapFilter: 0
+  isReadable: 0
+  streamingMipmaps: 0
+  streamingMipmapsPriority: 0
+  vTOnly: 0
+  ignoreMasterTextureLimit: 0
+  grayScaleToAlpha: 0
+  generateCubemap: 6
+  cubemapConvolution: 0
+  seamlessCubemap: 0
+  textureFormat: 1
+  maxTextureSize: 8192
+  textureSettings:
+    serializedVersion: 2
+    filterMode: 0
+    aniso: 1
+    mipBias: 0
+    wrapU: 1
+    wrapV: 1
+    wrapW: 1
+  nPOTScale: 0
+  lightmap: 0
+  compressionQuality: 50
+  spriteMode: ${sliced ? 2 : 1}
+  spriteExtrude: 1
+  spriteMeshType: 0
+  alignment: 0
+  spritePivot: {x: 0.5, y: 0.5}
+  spritePixelsToUnits: ${asset.pixelsPerUnit}
+  spriteBorder: {x: 0, y: 0, z: 0, w: 0}
+  spriteGenerateFallbackPhysicsShape: 1
+  alphaUsage: 1
+  alphaIsTransparency: 1
+  spriteTessellationDetail: -1
+  textureType: 8
+  textureShape: 1
+  singleChannelComponent: 0
+  flipbookRows: 1
+  flipbookColumns: 1
+  maxTextureSizeSet: 0
+  compressionQualitySet: 0
+  textureFormatSet: 0
+  ignorePngGamma: 0
+  applyGammaDecoding: 0
+  platformSettings:
+${platform('DefaultTexturePlatform')}
+${platform('Standalone')}
+  spriteSheet:
+    serializedVersion: 2
+    sprites:${sprites}
+    outline: []
+    physicsShape: []
+    bones: []
+    spriteID: ${sliced ? '' : stableGuid(`${asset.name}/sprite`)}
+    internalID: 0
+    vertices: []
+    indices:
+    edges: []
+    weights: []
+    secondaryTextures: []
+    nameFileIdTable:${nameTable}
+  spritePackingTag:
+  pSDRemoveMatte: 0
+  pSDShowRemoveMatteOption: 0
+  userData:
+  assetBundleName:
+  assetBundleVariant:
+`;
+}
+
+export const unityPackager: EnginePackager = {
+  id: 'unity',
+  name: 'Unity',
+
+  files: (asset): ZipEntry[] => [
+    { path: `${asset.name}.png`, data: asset.png },
+    { path: `${asset.name}.png.meta`, data: metaFile(asset) },
+  ],
+};
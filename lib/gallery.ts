@@ -0,0 +1,546 @@
+/**
+ * Public Gallery
+ * Generations users have published for everyone to see. Anyone can read
+ * the gallery; likes and favourites must use a Supabase client bound to
+ * the user's session. Items are published by the server, which copies
+ * them from the user's own generation. Pages are fetched with cursors, so items
+ * published while someone scrolls do not shift what they see next.
+ * Remixes link back to the item they started from, forming remix trees.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { GenerationParams } from './generation/params';
+import { isFullId, type GenerationRecord } from './generations';
+import { createServiceRoleSupabaseClient } from './supabase';
+
+export const GALLERY_SORTS = ['newest', 'liked'] as const;
+export type GallerySort = typeof GALLERY_SORTS[number];
+
+export const DEFAULT_GALLERY_PAGE_SIZE = 12;
+export const MAX_GALLERY_PAGE_SIZE = 48;
+export const MAX_GALLERY_TAGS = 5;
+export const MAX_GALLERY_TITLE_LENGTH = 80;
+export const MAX_GALLERY_DESCRIPTION_LENGTH = 280;
+export const DEFAULT_COLLECTION_NAME = 'Favourites';
+export const MAX_COLLECTION_NAME_LENGTH = 40;
+// Levels of a remix tree loaded above and below an item
+export const MAX_REMIX_DEPTH = 8;
+
+const MAX_TAG_LENGTH = 24;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const MAX_REMIX_TREE_SIZE = 60;
+// Postgres error code for a duplicate key
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Error raised when a gallery request is rejected, with a message safe to show users
+ */
+export class GalleryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GalleryError';
+    this.status = status;
+  }
+}
+
+const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(MAX_TAG_LENGTH)
+  .regex(TAG_PATTERN, 'must be lowercase letters, digits and dashes');
+
+// Tags arrive as a list or as one comma separated string
+const tagListSchema = z
+  .union([z.array(z.string()), z.string()])
+  .transform(value => (Array.isArray(value) ? value : value.split(',')).map(tag => tag.trim()).filter(Boolean))
+  .pipe(z.array(tagSchema).max(MAX_GALLERY_TAGS))
+  .transform(tags => Array.from(new Set(tags)));
+
+export const publishGallerySchema = z.object({
+  generationId: z.string().trim().min(1),
+  title: z.string().trim().min(1).max(MAX_GALLERY_TITLE_LENGTH).optional(),
+  description: z.string().trim().max(MAX_GALLERY_DESCRIPTION_LENGTH).optional(),
+  tags: tagListSchema.default([]),
+});
+
+export type PublishGalleryInput = z.input<typeof publishGallerySchema>;
+export type PublishGallery = z.output<typeof publishGallerySchema>;
+
+export const galleryQuerySchema = z.object({
+  sort: z.enum(GALLERY_SORTS).default('newest'),
+  tags: tagListSchema.default([]),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_GALLERY_PAGE_SIZE).default(DEFAULT_GALLERY_PAGE_SIZE),
+});
+
+export type GalleryQuery = z.output<typeof galleryQuerySchema>;
+
+export const favouriteSchema = z.object({
+  itemId: z.string().trim().regex(/^[0-9a-f-]{8,36}$/i, 'must be a gallery item id'),
+  collection: z.string().trim().min(1).max(MAX_COLLECTION_NAME_LENGTH).default(DEFAULT_COLLECTION_NAME),
+});
+
+export type FavouriteInput = z.input<typeof favouriteSchema>;
+export type Favourite = z.output<typeof favouriteSchema>;
+
+export interface GalleryItem {
+  id: string;
+  shortId: string;
+  // Generation the item was published from; null for seeded items
+  generationId: string | null;
+  title: string;
+  description: string | null;
+  prompt: string | null;
+  params: Partial<GenerationParams>;
+  seed: number | null;
+  imageUrl: string;
+  width: number | null;
+  height: number | null;
+  tags: string[];
+  likeCount: number;
+  // Gallery item this one was remixed from
+  remixOf: string | null;
+  createdAt: string;
+}
+
+export interface GalleryCollection {
+  id: string;
+  name: string;
+  // Most recently added first
+  items: GalleryItem[];
+  createdAt: string;
+}
+
+export interface RemixNode {
+  item: GalleryItem;
+  remixes: RemixNode[];
+}
+
+export interface GalleryPage {
+  items: GalleryItem[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// Position of an item in a sort order
+interface GalleryCursor {
+  likeCount?: number;
+  createdAt: string;
+  id: string;
+}
+
+// A gallery_items row as selected by GALLERY_COLUMNS
+interface GalleryItemRow {
+  id: string;
+  short_id: string;
+  generation_id: string | null;
+  title: string;
+  description: string | null;
+  prompt: string | null;
+  params: Partial<GenerationParams> | null;
+  seed: number | null;
+  image_url: string;
+  width: number | null;
+  height: number | null;
+  tags: string[] | null;
+  like_count: number;
+  remix_of: string | null;
+  created_at: string;
+}
+
+// A gallery_collections row with its items, as selected by listCollections
+interface CollectionRow {
+  id: string;
+  name: string;
+  created_at: string;
+  gallery_collection_items: { created_at: string; gallery_items: GalleryItemRow | null }[] | null;
+}
+
+const GALLERY_COLUMNS = 'id, short_id, generation_id, title, description, prompt, params, seed, image_url, width, height, tags, like_count, remix_of, created_at';
+
+// Map a database row to the camelCase shape used by the app
+const toGalleryItem = (row: GalleryItemRow): GalleryItem => ({
+  id: row.id,
+  shortId: row.short_id,
+  generationId: row.generation_id,
+  title: row.title,
+  description: row.description,
+  prompt: row.prompt,
+  params: row.params || {},
+  seed: row.seed,
+  imageUrl: row.image_url,
+  width: row.width,
+  height: row.height,
+  tags: row.tags || [],
+  likeCount: row.like_count,
+  remixOf: row.remix_of,
+  createdAt: row.created_at,
+});
+
+// Parameters safe to publish; the reference image a generation started
+// from stays private to its owner
+function publicParams(params: Partial<GenerationParams>): Partial<GenerationParams> {
+  const { referenceId, strength, ...rest } = params;
+  return rest;
+}
+
+const encodeCursor = (cursor: GalleryCursor) => btoa(JSON.stringify(cursor));
+
+function decodeCursor(value: string, sort: GallerySort): GalleryCursor {
+  try {
+    const cursor = JSON.parse(atob(value));
+    const valid = typeof cursor.createdAt === 'string'
+      && !Number.isNaN(Date.parse(cursor.createdAt))
+      && /^[0-9a-f-]{36}$/i.test(cursor.id)
+      && (sort !== 'liked' || Number.isInteger(cursor.likeCount));
+    if (valid) return cursor;
+  } catch (error) {
+    // Reported below
+  }
+  throw new GalleryError('Invalid gallery cursor');
+}
+
+// PostgREST filter for the items after a cursor; values are quoted because
+// timestamps contain the filter syntax's separators
+function afterCursor(cursor: GalleryCursor, sort: GallerySort): string {
+  const createdAt = `"${cursor.createdAt}"`;
+  if (sort === 'newest') {
+    return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`;
+  }
+  const sameLikes = `like_count.eq.${cursor.likeCount}`;
+  return [
+    `like_count.lt.${cursor.likeCount}`,
+    `and(${sameLikes},created_at.lt.${createdAt})`,
+    `and(${sameLikes},created_at.eq.${createdAt},id.lt.${cursor.id})`,
+  ].join(',');
+}
+
+/**
+ * Turn a zod validation error into a single readable line
+ * @param error The error returned from safeParse
+ */
+export const formatGalleryError = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => (issue.path.length ? `Invalid ${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('\n');
+};
+
+/**
+ * List one page of the gallery
+ * @param supabase Any client; the gallery is public
+ * @param query Sort order, tags every item must have, cursor and page size
+ * @throws GalleryError when the cursor is invalid
+ */
+export const listGalleryItems = async (supabase: SupabaseClient, query: GalleryQuery): Promise<GalleryPage> => {
+  let request = supabase.from('gallery_items').select(GALLERY_COLUMNS);
+  if (query.sort === 'liked') {
+    request = request.order('like_count', { ascending: false });
+  }
+  request = request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells whether there is another page
+    .limit(query.limit + 1);
+
+  if (query.tags.length > 0) {
+    request = request.contains('tags', query.tags);
+  }
+  if (query.cursor) {
+    request = request.or(afterCursor(decodeCursor(query.cursor, query.sort), query.sort));
+  }
+
+  const { data, error } = await request.overrideTypes<GalleryItemRow[], { merge: false }>();
+  if (error) {
+    throw new Error(`Failed to load the gallery: ${error.message}`);
+  }
+
+  const items = (data || []).slice(0, query.limit).map(toGalleryItem);
+  const last = items[items.length - 1];
+  const hasMore = (data || []).length > query.limit;
+  return {
+    items,
+    nextCursor: hasMore && last
+      ? encodeCursor({ likeCount: query.sort === 'liked' ? last.likeCount : undefined, createdAt: last.createdAt, id: last.id })
+      : null,
+  };
+};
+
+/**
+ * Publish one of the user's generations to the gallery
+ * @param userId Publishing user, taken from the user's session
+ * @param generation The user's generation, loaded with their session
+ * @param input Validated title, description and tags
+ * @throws GalleryError when the generation has no image or is already published
+ */
+export const publishGeneration = async (
+  userId: string,
+  generation: GenerationRecord,
+  input: PublishGallery
+): Promise<GalleryItem> => {
+  if (!generation.imageUrl) {
+    throw new GalleryError(`Generation ${generation.shortId} has no stored image to publish.`);
+  }
+
+  const supabase = createServiceRoleSupabaseClient();
+  const { data: existing } = await supabase
+    .from('gallery_items')
+    .select('short_id')
+    .eq('generation_id', generation.id)
+    .maybeSingle();
+  if (existing) {
+    throw new GalleryError(`Generation ${generation.shortId} is already in the gallery as ${existing.short_id}.`, 409);
+  }
+
+  const { data, error } = await supabase
+    .from('gallery_items')
+    .insert({
+      user_id: userId,
+      generation_id: generation.id,
+      title: input.title || generation.prompt.slice(0, MAX_GALLERY_TITLE_LENGTH),
+      description: input.description || null,
+      prompt: generation.prompt,
+      params: publicParams(generation.params),
+      seed: generation.seed,
+      image_url: generation.imageUrl,
+      width: generation.params.width ?? null,
+      height: generation.params.height ?? null,
+      tags: input.tags,
+      remix_of: generation.remixOf,
+    })
+    .select(GALLERY_COLUMNS)
+    .single()
+    .overrideTypes<GalleryItemRow, { merge: false }>();
+
+  // A publish racing this one got past the check above first
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new GalleryError(`Generation ${generation.shortId} is already in the gallery.`, 409);
+  }
+  if (error) {
+    throw new Error(`Failed to publish generation: ${error.message}`);
+  }
+  return toGalleryItem(data);
+};
+
+/**
+ * Find one gallery item by full or short id
+ * @param supabase Any client; the gallery is public
+ * @param id UUID or its 8 character prefix
+ * @returns The item, or null when it does not exist
+ */
+export const getGalleryItem = async (supabase: SupabaseClient, id: string): Promise<GalleryItem | null> => {
+  const { data, error } = await supabase
+    .from('gallery_items')
+    .select(GALLERY_COLUMNS)
+    .eq(isFullId(id) ? 'id' : 'short_id', id.toLowerCase())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<GalleryItemRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load gallery item: ${error.message}`);
+  }
+  return data ? toGalleryItem(data) : null;
+};
+
+/**
+ * Like or unlike an item; liking twice counts once
+ * @param supabase Client bound to the user's session
+ * @param userId Liking user
+ * @param item Item to like
+ * @param liked True to like, false to unlike
+ * @returns The item's like count afterwards
+ */
+export const setGalleryLike = async (supabase: SupabaseClient, userId: string, item: GalleryItem, liked: boolean): Promise<number> => {
+  const { error } = liked
+    ? await supabase
+      .from('gallery_likes')
+      .upsert({ item_id: item.id, user_id: userId }, { onConflict: 'item_id,user_id', ignoreDuplicates: true })
+    : await supabase.from('gallery_likes').delete().eq('item_id', item.id).eq('user_id', userId);
+  if (error) {
+    throw new Error(`Failed to ${liked ? 'like' : 'unlike'} gallery item: ${error.message}`);
+  }
+
+  // like_count is kept up to date by a trigger on gallery_likes
+  const { data } = await supabase.from('gallery_items').select('like_count').eq('id', item.id).maybeSingle();
+  return data?.like_count ?? item.likeCount;
+};
+
+/**
+ * Which of some items the user has liked
+ * @param supabase Client bound to the user's session; row level security
+ *   limits likes to the user's own
+ * @param itemIds Full item ids, e.g. of one gallery page
+ */
+export const listLikedItemIds = async (supabase: SupabaseClient, itemIds: string[]): Promise<string[]> => {
+  if (itemIds.length === 0) return [];
+
+  const { data, error } = await supabase.from('gallery_likes').select('item_id').in('item_id', itemIds);
+  if (error) {
+    throw new Error(`Failed to load likes: ${error.message}`);
+  }
+  return (data || []).map(row => row.item_id);
+};
+
+/**
+ * The user's favourites collections with their items, oldest collection first
+ * @param supabase Client bound to the user's session
+ */
+export const listCollections = async (supabase: SupabaseClient): Promise<GalleryCollection[]> => {
+  const { data, error } = await supabase
+    .from('gallery_collections')
+    .select(`id, name, created_at, gallery_collection_items (created_at, gallery_items (${GALLERY_COLUMNS}))`)
+    .order('created_at', { ascending: true })
+    .overrideTypes<CollectionRow[], { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load favourites: ${error.message}`);
+  }
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    items: (row.gallery_collection_items || [])
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .flatMap(entry => (entry.gallery_items ? [toGalleryItem(entry.gallery_items)] : [])),
+  }));
+};
+
+/**
+ * Add an item to one of the user's collections, creating the collection
+ * the first time it is used
+ * @param supabase Client bound to the user's session
+ * @param userId Owner of the collection
+ * @param item Item to add
+ * @param collectionName Collection to add it to
+ */
+export const addFavourite = async (supabase: SupabaseClient, userId: string, item: GalleryItem, collectionName: string): Promise<void> => {
+  const { data: existing } = await supabase.from('gallery_collections').select('id').eq('name', collectionName).maybeSingle();
+  let collectionId: string | undefined = existing?.id;
+  if (!collectionId) {
+    const { data, error } = await supabase
+      .from('gallery_collections')
+      .insert({ user_id: userId, name: collectionName })
+      .select('id')
+      .single();
+    if (error) {
+      throw new Error(`Failed to create collection: ${error.message}`);
+    }
+    collectionId = data.id;
+  }
+
+  const { error } = await supabase
+    .from('gallery_collection_items')
+    .upsert({ collection_id: collectionId, item_id: item.id }, { onConflict: 'collection_id,item_id', ignoreDuplicates: true });
+  if (error) {
+    throw new Error(`Failed to add favourite: ${error.message}`);
+  }
+};
+
+/**
+ * Take an item out of one of the user's collections
+ * @param supabase Client bound to the user's session
+ * @param item Item to remove
+ * @param collectionName Collection to remove it from
+ * @returns True when the item was in the collection
+ */
+export const removeFavourite = async (supabase: SupabaseClient, item: GalleryItem, collectionName: string): Promise<boolean> => {
+  const { data: collection } = await supabase.from('gallery_collections').select('id').eq('name', collectionName).maybeSingle();
+  if (!collection) return false;
+
+  const { data, error } = await supabase
+    .from('gallery_collection_items')
+    .delete()
+    .eq('collection_id', collection.id)
+    .eq('item_id', item.id)
+    .select('item_id');
+  if (error) {
+    throw new Error(`Failed to remove favourite: ${error.message}`);
+  }
+  return (data || []).length > 0;
+};
+
+/**
+ * The remix tree an item belongs to: from the original it descends from,
+ * down through every published remix, a bounded number of levels each way
+ * @param supabase Any client; the gallery is public
+ * @param item Item whose tree to load
+ * @returns The root of the tree
+ */
+export const getRemixTree = async (supabase: SupabaseClient, item: GalleryItem): Promise<RemixNode> => {
+  let root = item;
+  for (let depth = 0; root.remixOf && depth < MAX_REMIX_DEPTH; depth++) {
+    const parent = await getGalleryItem(supabase, root.remixOf);
+    if (!parent) break;
+    root = parent;
+  }
+
+  const tree: RemixNode = { item: root, remixes: [] };
+  let level = [tree];
+  let size = 1;
+  // One query per level of remixes
+  for (let depth = 0; level.length > 0 && depth < MAX_REMIX_DEPTH && size < MAX_REMIX_TREE_SIZE; depth++) {
+    const { data, error } = await supabase
+      .from('gallery_items')
+      .select(GALLERY_COLUMNS)
+      .in('remix_of', level.map(node => node.item.id))
+      .order('created_at', { ascending: true })
+      .limit(MAX_REMIX_TREE_SIZE - size)
+      .overrideTypes<GalleryItemRow[], { merge: false }>();
+    if (error) {
+      throw new Error(`Failed to load remixes: ${error.message}`);
+    }
+
+    const parents = new Map(level.map(node => [node.item.id, node]));
+    level = [];
+    for (const row of data || []) {
+      const node: RemixNode = { item: toGalleryItem(row), remixes: [] };
+      if (row.remix_of) parents.get(row.remix_of)?.remixes.push(node);
+      level.push(node);
+    }
+    size += level.length;
+  }
+  return tree;
+};
+
+// Quote a terminal argument when the command parser would split or unescape it
+const quoteArgument = (value: string) => (/[\s"'\\]/.test(value) ? `"${value.replace(/["\\]/g, match => `\\${match}`)}"` : value);
+
+/**
+ * The terminal command that generates a remix of an item: its prompt,
+ * seed and flags, recording the item as the new generation's parent
+ * @param item Item to remix
+ * @returns e.g. 'generate --model RD_FLUX --width 64 --height 64 --seed 42 --remix 1a2b3c4d "a knight"'
+ */
+export const buildRemixCommand = (item: GalleryItem): string => {
+  const { params } = item;
+  const flags: string[] = [];
+  const add = (flag: string, value: string | number | null | undefined) => {
+    if (value !== undefined && value !== null && value !== '') flags.push(`--${flag} ${quoteArgument(String(value))}`);
+  };
+
+  add('model', params.model);
+  add('width', params.width);
+  add('height', params.height);
+  add('seed', item.seed);
+  if (params.style !== 'default') add('style', params.style);
+  add('negative', params.negative);
+  // Tilesets always tile; --tileset sets that itself
+  if (!params.tileset) {
+    if (params.tileX && params.tileY) flags.push('--tile');
+    else if (params.tileX) flags.push('--tile-x');
+    else if (params.tileY) flags.push('--tile-y');
+  }
+  add('palette', params.palette);
+  if (params.palette && params.dither !== 'none') add('dither', params.dither);
+  add('frames', params.frames);
+  if (params.frames) add('cycle', params.cycle);
+  add('tileset', params.tileset);
+  add('remix', item.shortId);
+
+  return `generate ${flags.join(' ')} ${quoteArgument(item.prompt || item.title)}`;
+};
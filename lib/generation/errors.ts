@@ -0,0 +1,21 @@
+/**
+ * Generation Errors
+ * The error every generation step throws, shared by the pipeline and the
+ * post-processing modules it uses.
+ */
+
+/**
+ * Error raised by any pipeline step, carrying the HTTP status to answer
+ * with and extra fields to include in the JSON response.
+ */
+export class GenerationError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, status = 500, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'GenerationError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Animation Frames
+ * Prompts and timing for frame sequences generated with --frames. Every
+ * frame shares the seed and palette and starts from the frame before
+ * it; the prompt only changes the pose, walking through a cycle's key
+ * poses in order.
+ */
+
+import { buildSpriteAtlas, spriteSheetLayout, type SpriteAtlas } from '@/lib/image/spritesheet';
+import { DEFAULT_CYCLE, MAX_PROMPT_LENGTH, type AnimationCycle, type GenerationParams } from './params';
+
+// How far each frame may move away from the previous one; low enough to keep the character
+export const FRAME_CHAIN_STRENGTH = 0.35;
+
+// Key poses of each cycle, spread evenly over the frames
+const CYCLE_POSES: Record<AnimationCycle, string[]> = {
+  idle: ['standing relaxed', 'breathing in, chest raised slightly', 'standing relaxed', 'breathing out, shoulders lowered slightly'],
+  walk: [
+    'contact pose, left foot forward',
+    'down pose, weight on left leg',
+    'passing pose, right leg swinging forward',
+    'up pose, rising on left foot',
+    'contact pose, right foot forward',
+    'down pose, weight on right leg',
+    'passing pose, left leg swinging forward',
+    'up pose, rising on right foot',
+  ],
+  run: [
+    'contact pose, left foot striking the ground',
+    'recoil pose, left knee bent',
+    'push off from left foot, body leaning forward',
+    'flight pose, both feet off the ground',
+    'contact pose, right foot striking the ground',
+    'recoil pose, right knee bent',
+    'push off from right foot, body leaning forward',
+    'flight pose, both feet off the ground',
+  ],
+  attack: ['ready stance', 'wind up, weapon drawn back', 'strike, weapon swung forward', 'follow through', 'recovering to ready stance'],
+  jump: ['crouching to jump', 'pushing off the ground', 'rising in the air', 'top of the jump', 'falling', 'landing, knees bent'],
+};
+
+// Time each frame is shown, in milliseconds
+const CYCLE_FRAME_DURATIONS: Record<AnimationCycle, number> = {
+  idle: 200,
+  walk: 100,
+  run: 70,
+  attack: 90,
+  jump: 110,
+};
+
+/**
+ * Prompt for one frame of a sequence: the user's prompt plus the pose
+ * @param prompt Sanitized, style-expanded prompt
+ * @param cycle Animation being drawn
+ * @param index Frame number, from 0
+ * @param frameCount Frames in the sequence
+ */
+export const buildFramePrompt = (prompt: string, cycle: AnimationCycle, index: number, frameCount: number): string => {
+  const poses = CYCLE_POSES[cycle];
+  const pose = poses[Math.floor((index * poses.length) / frameCount)];
+  const suffix = `, ${cycle} animation frame ${index + 1} of ${frameCount}, ${pose}, same character, same colors, same framing`;
+  return `${prompt.substring(0, MAX_PROMPT_LENGTH - suffix.length)}${suffix}`;
+};
+
+/**
+ * Playback time of each frame of a sequence
+ * @param params Parameters of an animation generation
+ */
+export const frameDurations = (params: Pick<GenerationParams, 'frames' | 'cycle'>): number[] => {
+  return new Array(params.frames ?? 1).fill(CYCLE_FRAME_DURATIONS[params.cycle ?? DEFAULT_CYCLE]);
+};
+
+/**
+ * JSON atlas of a generated sprite sheet. Sheets are packed the same way
+ * every time, so the atlas can be rebuilt from the stored parameters.
+ * @param params Parameters of an animation generation
+ * @param image File name of the sheet the atlas will sit next to
+ */
+export const buildSequenceAtlas = (params: Pick<GenerationParams, 'frames' | 'cycle' | 'width' | 'height'>, image: string): SpriteAtlas => {
+  return buildSpriteAtlas(spriteSheetLayout(params.frames ?? 1, params.width, params.height), {
+    name: params.cycle ?? DEFAULT_CYCLE,
+    image,
+    durations: frameDurations(params),
+  });
+};
@@ -0,0 +1,267 @@
+/**
+ * Generation Parameters
+ * Shared zod schema for pixel art generation options. Used by the
+ * terminal to validate flags and by the server route to validate
+ * request bodies, so both sides agree on models and allowed ranges.
+ */
+
+import { z } from 'zod';
+import { parsePalette } from '@/lib/image/palette';
+import { DITHER_MODES } from '@/lib/image/quantize';
+
+// Maximum prompt length for security
+export const MAX_PROMPT_LENGTH = 1000;
+export const MAX_NEGATIVE_LENGTH = 500;
+export const MAX_SEED = 2147483647;
+// Images generated by a single request; each one counts against the quota
+export const MAX_BATCH_SIZE = 4;
+
+// Reference images for image-to-image, checked on upload
+export const MAX_REFERENCE_BYTES = 2 * 1024 * 1024;
+export const MIN_REFERENCE_SIZE = 16;
+export const MAX_REFERENCE_SIZE = 1024;
+// How far a generation may move away from its reference (0 keeps it, 1 ignores it)
+export const MIN_STRENGTH = 0.05;
+export const DEFAULT_STRENGTH = 0.75;
+// Animation frames generated as one sprite sheet; each one counts against the quota
+export const MIN_FRAMES = 2;
+export const MAX_FRAMES = 16;
+export const ANIMATION_CYCLES = ['idle', 'walk', 'run', 'attack', 'jump'] as const;
+export type AnimationCycle = typeof ANIMATION_CYCLES[number];
+export const DEFAULT_CYCLE: AnimationCycle = 'idle';
+// Tiles generated as one tileset atlas, given as columns x rows; each one counts against the quota
+export const MAX_TILESET_TILES = 16;
+const TILESET_PATTERN = /^([1-9])x([1-9])$/i;
+
+export interface ModelLimits {
+  minSize: number;
+  maxSize: number;
+  defaultSize: number;
+  styles: readonly string[];
+}
+
+// Size ranges and prompt styles supported by each RetroDiffusion model
+export const MODEL_LIMITS = {
+  RD_FLUX: {
+    minSize: 64,
+    maxSize: 512,
+    defaultSize: 512,
+    styles: ['default', 'anime', 'game_asset', 'portrait', 'texture'],
+  },
+  RD_CLASSIC: {
+    minSize: 32,
+    maxSize: 256,
+    defaultSize: 256,
+    styles: ['default', 'game_asset', 'texture'],
+  },
+} as const satisfies Record<string, ModelLimits>;
+
+export type GenerationModel = keyof typeof MODEL_LIMITS;
+
+export const GENERATION_MODELS = Object.keys(MODEL_LIMITS) as [GenerationModel, ...GenerationModel[]];
+export const DEFAULT_MODEL: GenerationModel = 'RD_FLUX';
+
+// Extra prompt text prepended for styles that benefit from it
+const STYLE_PROMPT_PREFIXES: Record<string, string> = {
+  anime: 'Anime style pixel art, {prompt}. The art style is cartoonish but detailed with striking colors and clever composition. Textures are well shaded and detailed. Clean shading and outlines',
+};
+
+// Palette name or custom hex list; checked by parsePalette
+const paletteSchema = z.string().trim().min(1).superRefine((spec, ctx) => {
+  try {
+    parsePalette(spec);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'is not a palette' });
+  }
+});
+
+const ditherSchema = z.enum(DITHER_MODES, {
+  errorMap: () => ({ message: `must be one of ${DITHER_MODES.join(', ')}` }),
+});
+
+/**
+ * Palette post-processing applied to an existing image by 'recolor'
+ */
+export const recolorOptionsSchema = z.object({
+  palette: paletteSchema,
+  dither: ditherSchema.default('none'),
+});
+
+export type RecolorOptions = z.output<typeof recolorOptionsSchema>;
+
+export const generationParamsSchema = z
+  .object({
+    prompt: z.string().trim().min(1, 'Please provide a prompt for the image generation.').max(MAX_PROMPT_LENGTH, 'Prompt exceeds maximum allowed length'),
+    model: z.enum(GENERATION_MODELS).default(DEFAULT_MODEL),
+    width: z.number().int('must be a whole number').optional(),
+    height: z.number().int('must be a whole number').optional(),
+    seed: z.number().int('must be a whole number').min(0).max(MAX_SEED).optional(),
+    style: z.string().default('default'),
+    negative: z.string().trim().max(MAX_NEGATIVE_LENGTH).default(''),
+    tileX: z.boolean().default(false),
+    tileY: z.boolean().default(false),
+    count: z.number().int('must be a whole number').min(1).max(MAX_BATCH_SIZE, `must be at most ${MAX_BATCH_SIZE}`).default(1),
+    // Full or short id of an uploaded reference image
+    referenceId: z.string().trim().regex(/^[0-9a-f-]{8,36}$/i, 'must be a reference image id').optional(),
+    strength: z.number().min(MIN_STRENGTH, `must be between ${MIN_STRENGTH} and 1`).max(1, `must be between ${MIN_STRENGTH} and 1`).optional(),
+    // Quantize the result to this palette after generation
+    palette: paletteSchema.optional(),
+    dither: ditherSchema.default('none'),
+    // Generate an animation of this many frames instead of separate images
+    frames: z.number().int('must be a whole number').min(MIN_FRAMES, `must be between ${MIN_FRAMES} and ${MAX_FRAMES}`).max(MAX_FRAMES, `must be between ${MIN_FRAMES} and ${MAX_FRAMES}`).optional(),
+    cycle: z.enum(ANIMATION_CYCLES, {
+      errorMap: () => ({ message: `must be one of ${ANIMATION_CYCLES.join(', ')}` }),
+    }).optional(),
+    // Full or short id of the gallery item this generation remixes
+    remixOf: z.string().trim().regex(/^[0-9a-f-]{8,36}$/i, 'must be a gallery item id').optional(),
+    // Generate a grid of related tiles, e.g. "3x3", instead of separate images
+    tileset: z.string().trim().toLowerCase().regex(TILESET_PATTERN, 'must be columns x rows, e.g. 3x3').optional(),
+  })
+  .superRefine((params, ctx) => {
+    const limits: ModelLimits = MODEL_LIMITS[params.model];
+
+    for (const dimension of ['width', 'height'] as const) {
+      const value = params[dimension];
+      if (value !== undefined && (value < limits.minSize || value > limits.maxSize)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [dimension],
+          message: `must be between ${limits.minSize} and ${limits.maxSize} for ${params.model}`,
+        });
+      }
+    }
+
+    if (!limits.styles.includes(params.style)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['style'],
+        message: `must be one of ${limits.styles.join(', ')} for ${params.model}`,
+      });
+    }
+
+    if (params.strength !== undefined && !params.referenceId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['strength'],
+        message: "needs a reference image (use 'upload' or --ref <id>)",
+      });
+    }
+
+    if (params.dither !== 'none' && !params.palette) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['dither'],
+        message: 'needs a palette to dither to (use --palette)',
+      });
+    }
+
+    if (params.cycle && !params.frames) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['cycle'],
+        message: 'needs a frame count (use --frames)',
+      });
+    }
+
+    if (params.frames && params.count > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['count'],
+        message: 'cannot be combined with --frames; an animation is generated one at a time',
+      });
+    }
+
+    if (params.tileset && TILESET_PATTERN.test(params.tileset)) {
+      const { columns, rows } = parseTileset(params.tileset);
+      if (columns * rows < 2 || columns * rows > MAX_TILESET_TILES) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['tileset'],
+          message: `must have between 2 and ${MAX_TILESET_TILES} tiles`,
+        });
+      }
+    }
+
+    if (params.tileset && (params.frames || params.count > 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['tileset'],
+        message: 'cannot be combined with --frames or --count',
+      });
+    }
+  })
+  .transform(params => {
+    const { defaultSize } = MODEL_LIMITS[params.model];
+    return {
+      ...params,
+      width: params.width ?? defaultSize,
+      height: params.height ?? defaultSize,
+      strength: params.referenceId ? (params.strength ?? DEFAULT_STRENGTH) : undefined,
+      cycle: params.frames ? (params.cycle ?? DEFAULT_CYCLE) : undefined,
+      // Tilesets are made of tiles that wrap both ways
+      tileX: params.tileX || Boolean(params.tileset),
+      tileY: params.tileY || Boolean(params.tileset),
+    };
+  });
+
+export type GenerationParamsInput = z.input<typeof generationParamsSchema>;
+export type GenerationParams = z.output<typeof generationParamsSchema>;
+
+// Options callers may set on top of the prompt
+export type GenerationOptions = Omit<GenerationParamsInput, 'prompt'>;
+
+/**
+ * Grid size of a tileset spec
+ * @param spec e.g. "3x2", as validated by the schema
+ */
+export const parseTileset = (spec: string): { columns: number; rows: number } => {
+  const match = spec.match(TILESET_PATTERN);
+  return match ? { columns: Number(match[1]), rows: Number(match[2]) } : { columns: 1, rows: 1 };
+};
+
+/**
+ * Images a generation produces, and so the quota it consumes
+ * @param params Validated generation parameters
+ * @returns The frame count for animations, the tile count for tilesets,
+ *   the batch size otherwise
+ */
+export const generationImageCount = (params: GenerationParams): number => {
+  if (params.tileset) {
+    const { columns, rows } = parseTileset(params.tileset);
+    return columns * rows;
+  }
+  return params.frames ?? params.count;
+};
+
+// Map schema fields back to the terminal flag that sets them
+const FIELD_FLAGS: Record<string, string> = {
+  tileX: 'tile-x',
+  tileY: 'tile-y',
+  referenceId: 'ref',
+  remixOf: 'remix',
+};
+
+/**
+ * Turn a zod validation error into a single readable line
+ * @param error The error returned from safeParse
+ * @returns e.g. "Invalid --width: must be between 64 and 512 for RD_FLUX"
+ */
+export const formatGenerationParamsError = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => {
+      const field = issue.path.join('.');
+      if (!field || field === 'prompt') return issue.message;
+      return `Invalid --${FIELD_FLAGS[field] || field}: ${issue.message}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Expand the user's prompt with the selected style's prefix
+ * @param params Validated generation parameters
+ * @returns The prompt text sent to the provider
+ */
+export const buildStyledPrompt = (params: GenerationParams): string => {
+  const template = STYLE_PROMPT_PREFIXES[params.style];
+  return template ? template.replace('{prompt}', params.prompt) : params.prompt;
+};
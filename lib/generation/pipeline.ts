@@ -0,0 +1,491 @@
+/**
+ * Generation Pipeline (server only)
+ * The steps every generation goes through, shared by the synchronous
+ * /api/generate route and the background job queue:
+ *   parseGenerationRequest -> reserveGeneration -> executeGeneration
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getImageProvider, ProviderError } from '@/lib/providers';
+import type { ImageProvider, ProviderImage, ProviderRequest } from '@/lib/providers/types';
+import { consumeGenerationQuota, refundGenerationQuota, type QuotaStatus } from '@/lib/quota';
+import { createServiceRoleSupabaseClient } from '@/lib/supabase';
+import { getGalleryItem } from '@/lib/gallery';
+import { getReferenceImage, type ReferenceImage } from '@/lib/references';
+import { parsePalette } from '@/lib/image/palette';
+import { dataUrlToRaster, rasterToDataUrl } from '@/lib/image/png';
+import { extractPalette, quantizeRaster } from '@/lib/image/quantize';
+import { resizeNearest, type Raster, type RGB } from '@/lib/image/raster';
+import { loadImageRaster } from '@/lib/image/remote';
+import { storeGenerationImage } from '@/lib/image/storage';
+import { blendSeams, measureSeams, type SeamAxis } from '@/lib/image/seams';
+import { assembleSpriteSheet } from '@/lib/image/spritesheet';
+import { GenerationError } from './errors';
+import { buildFramePrompt, FRAME_CHAIN_STRENGTH } from './frames';
+import {
+  buildStyledPrompt,
+  DEFAULT_CYCLE,
+  formatGenerationParamsError,
+  generationImageCount,
+  generationParamsSchema,
+  MAX_PROMPT_LENGTH,
+  MAX_SEED,
+  parseTileset,
+  type GenerationParams,
+} from './params';
+import { buildTilePrompt, describeSeams, SEAM_RETRIES, SEAM_RETRY_SEED_STEP, tilingAxes, TILE_VARIATION_STRENGTH } from './tiles';
+import { describeRecolor, recolorImage } from './recolor';
+
+export interface GenerationReservation {
+  userId: string;
+  params: GenerationParams;
+  quota: QuotaStatus;
+  // Uploaded image to start from (img2img)
+  reference?: ReferenceImage;
+}
+
+export interface GeneratedImage {
+  imageUrl: string;
+  seed: number;
+  // History entry of the image, when it could be recorded
+  generationId?: string;
+}
+
+export interface GenerationOutcome {
+  // One image per requested count, in the provider's order; for --frames,
+  // the sprite sheet of the whole animation
+  images: GeneratedImage[];
+  // Sanitized, style-expanded prompt that was sent to the provider
+  prompt: string;
+  provider: string;
+}
+
+// Lifecycle steps reported while a generation is validated, queued and run
+export type GenerationEventType =
+  | 'validated'
+  | 'queued'
+  | 'started'
+  | 'provider_request'
+  | 'provider_retry'
+  | 'image_received'
+  | 'post_processed';
+
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  onEvent?: (type: GenerationEventType, message: string) => void;
+}
+
+// Check for potential XSS or command injection patterns
+const SUSPICIOUS_PATTERNS = [
+  /<script/i,
+  /javascript:/i,
+  /onerror=/i,
+  /onload=/i,
+  /eval\(/i,
+  /document\.cookie/i,
+  /\$\{/i  // Template injection attempt
+];
+
+// Approximate payload size of a data URL image, e.g. " (12.4 KB)"
+function describeImageSize(imageUrl: string): string {
+  if (!imageUrl.startsWith('data:')) return '';
+  const base64Length = imageUrl.length - imageUrl.indexOf(',') - 1;
+  return ` (${((base64Length * 3) / 4 / 1024).toFixed(1)} KB)`;
+}
+
+// How the images of a sprite sheet or tileset are made, one provider call each
+interface SheetPlan {
+  count: number;
+  // Images per row of the sheet; the default layout when not given
+  columns?: number;
+  prompt: (index: number) => string;
+  // Image each one after the first starts from, and how far it may move away from it
+  chain: 'previous' | 'first';
+  strength: number;
+  // For progress messages, e.g. "Frame 3/8" and "8 walk frames"
+  label: string;
+  description: string;
+}
+
+interface SeededRaster {
+  raster: Raster;
+  seed: number;
+}
+
+// Colours kept for a sheet when no --palette is given
+const SHEET_PALETTE_SIZE = 16;
+
+// What to generate for an animation or tileset; null for separate images
+function sheetPlan(params: GenerationParams, prompt: string): SheetPlan | null {
+  if (params.frames) {
+    const frameCount = params.frames;
+    const cycle = params.cycle ?? DEFAULT_CYCLE;
+    return {
+      count: frameCount,
+      prompt: index => buildFramePrompt(prompt, cycle, index, frameCount),
+      chain: 'previous',
+      strength: FRAME_CHAIN_STRENGTH,
+      label: 'Frame',
+      description: `${frameCount} ${cycle} frames`,
+    };
+  }
+  if (params.tileset) {
+    const { columns, rows } = parseTileset(params.tileset);
+    return {
+      count: columns * rows,
+      columns,
+      prompt: index => buildTilePrompt(prompt, index),
+      chain: 'first',
+      strength: TILE_VARIATION_STRENGTH,
+      label: 'Tile',
+      description: `${columns * rows} tiles`,
+    };
+  }
+  return null;
+}
+
+// Check that an image tiles without visible seams; when it does not, try
+// other seeds and, if none tiles either, cross-fade its edges
+async function ensureSeamless(
+  image: SeededRaster,
+  axes: SeamAxis[],
+  regenerate: (attempt: number) => Promise<SeededRaster | null>,
+  label: string,
+  options: ExecuteOptions
+): Promise<SeededRaster> {
+  let current = image;
+  let report = measureSeams(current.raster, axes);
+  for (let attempt = 1; !report.passed && attempt <= SEAM_RETRIES; attempt++) {
+    options.onEvent?.('provider_retry', `${label} shows seams (${describeSeams(report)}); trying another seed`);
+    const retry = await regenerate(attempt);
+    if (!retry) break;
+    current = retry;
+    report = measureSeams(current.raster, axes);
+  }
+
+  if (report.passed) {
+    options.onEvent?.('post_processed', `${label} tiles seamlessly (${describeSeams(report)})`);
+    return current;
+  }
+  options.onEvent?.('post_processed', `${label} still shows seams (${describeSeams(report)}); blended its edges`);
+  return { raster: blendSeams(current.raster, axes), seed: current.seed };
+}
+
+// Seed of a seam retry, wrapped into the valid range
+function retrySeed(seed: number, attempt: number): number {
+  return (seed + attempt * SEAM_RETRY_SEED_STEP) % (MAX_SEED + 1);
+}
+
+// Seam check of one image of a tiling batch; the image is only re-encoded when it changed
+async function seamlessImage(provider: ImageProvider, request: ProviderRequest, image: ProviderImage, label: string, options: ExecuteOptions): Promise<ProviderImage> {
+  const original = { raster: await loadImageRaster(image.imageUrl), seed: image.seed };
+  const result = await ensureSeamless(original, tilingAxes(request.params), async attempt => {
+    const seed = retrySeed(image.seed, attempt);
+    const [retry] = (await provider.generate({ ...request, params: { ...request.params, count: 1 }, seed })).images;
+    return retry ? { raster: await loadImageRaster(retry.imageUrl), seed: retry.seed } : null;
+  }, label, options);
+  return result === original ? image : { imageUrl: rasterToDataUrl(result.raster), seed: result.seed };
+}
+
+// Generate the images of an animation or tileset one at a time and pack
+// them into one sheet. Every image keeps the seed, starts from the
+// previous or the first image and is reduced to the palette given with
+// --palette, or else to the colours of the first image, so the character
+// or material stays the same throughout.
+async function generateSheet(provider: ImageProvider, request: ProviderRequest, plan: SheetPlan, options: ExecuteOptions): Promise<ProviderImage> {
+  const { params } = request;
+  const axes = tilingAxes(params);
+  const dither = params.palette ? params.dither : 'none';
+  let palette: RGB[] | null = params.palette ? parsePalette(params.palette) : null;
+  let initImage = request.initImage;
+  const images: Raster[] = [];
+
+  for (let index = 0; index < plan.count; index++) {
+    if (options.signal?.aborted) {
+      throw new Error('Generation was cancelled');
+    }
+
+    const label = `${plan.label} ${index + 1}/${plan.count}`;
+    const generate = async (seed: number): Promise<SeededRaster | null> => {
+      const [image] = (await provider.generate({
+        ...request,
+        // Only the first image starts from the reference at the requested strength
+        params: { ...params, count: 1, strength: index === 0 ? params.strength : plan.strength },
+        prompt: plan.prompt(index),
+        seed,
+        initImage,
+      })).images;
+      return image ? { raster: resizeNearest(await loadImageRaster(image.imageUrl), params.width, params.height), seed: image.seed } : null;
+    };
+
+    let generated = await generate(request.seed);
+    if (!generated) {
+      throw new ProviderError(`The provider returned no image for ${label.toLowerCase()}`, 502);
+    }
+    options.onEvent?.('image_received', `${label} received from ${provider.id}`);
+    if (axes.length > 0) {
+      generated = await ensureSeamless(generated, axes, attempt => generate(retrySeed(request.seed, attempt)), label, options);
+    }
+
+    palette = palette || extractPalette(generated.raster, SHEET_PALETTE_SIZE);
+    const image = quantizeRaster(generated.raster, palette, dither);
+    images.push(image);
+    if (index === 0 || plan.chain === 'previous') {
+      initImage = rasterToDataUrl(image);
+    }
+  }
+
+  const { sheet, layout } = assembleSpriteSheet(images, plan.columns);
+  options.onEvent?.('post_processed', `Packed ${plan.description} into a ${layout.columns}x${layout.rows} sheet (${sheet.width}x${sheet.height})`);
+  return { imageUrl: rasterToDataUrl(sheet), seed: request.seed };
+}
+
+// Providers expect the init image at the output size; nearest neighbour keeps pixel edges hard
+function referenceInitImage(reference: ReferenceImage, params: GenerationParams): string {
+  let raster: Raster;
+  try {
+    raster = dataUrlToRaster(reference.imageUrl);
+  } catch (decodeError) {
+    console.error('Failed to decode reference image:', decodeError);
+    throw new GenerationError(`Reference image ${reference.shortId} could not be read. Upload it again with 'upload'.`, 422);
+  }
+  return rasterToDataUrl(resizeNearest(raster, params.width, params.height));
+}
+
+/**
+ * Validate that text sent to the provider is safe and meets requirements
+ * @param text Prompt or negative prompt
+ * @returns An error message, or null when the text is acceptable
+ */
+export const validatePromptSafety = (text: string): string | null => {
+  if (text.length > MAX_PROMPT_LENGTH) {
+    return 'Prompt exceeds maximum allowed length';
+  }
+  if (SUSPICIOUS_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'Prompt contains potentially malicious content';
+  }
+  return null;
+};
+
+/**
+ * Sanitize a user prompt to prevent injection attacks
+ * @param prompt The prompt to sanitize
+ * @returns A sanitized version of the prompt
+ */
+export const sanitizePrompt = (prompt: string): string => {
+  if (!prompt) return '';
+
+  // Remove any potentially dangerous HTML/script tags
+  let sanitized = prompt.replace(/<[^>]*>|javascript:|onerror=|onload=/gi, '');
+
+  // Prevent SQL injection attempts
+  sanitized = sanitized.replace(/['";`]/g, '');
+
+  // Limit length
+  return sanitized.trim().substring(0, MAX_PROMPT_LENGTH);
+};
+
+/**
+ * Validate a request body into generation parameters
+ * @param body Parsed JSON request body
+ * @throws GenerationError (400) when the body is invalid or unsafe
+ */
+export const parseGenerationRequest = (body: unknown): GenerationParams => {
+  const parsed = generationParamsSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new GenerationError(formatGenerationParamsError(parsed.error), 400);
+  }
+
+  const params = parsed.data;
+  const unsafe = validatePromptSafety(params.prompt) || (params.negative && validatePromptSafety(params.negative));
+  if (unsafe) {
+    throw new GenerationError(unsafe, 400);
+  }
+  return params;
+};
+
+/**
+ * Authenticate the caller, resolve the reference image and remixed gallery
+ * item and consume quota for the requested images
+ * @param supabase Client bound to the user's session
+ * @param params Validated generation parameters
+ * @throws GenerationError (401) when signed out, (404) for an unknown reference
+ *   image or gallery item, (429) when the quota is used up
+ */
+export const reserveGeneration = async (supabase: SupabaseClient, params: GenerationParams): Promise<GenerationReservation> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new GenerationError('Please log in to generate pixel art.', 401);
+  }
+
+  // Resolve the reference image before charging for a generation that cannot run
+  let reference: ReferenceImage | undefined;
+  if (params.referenceId) {
+    reference = (await getReferenceImage(supabase, params.referenceId)) || undefined;
+    if (!reference) {
+      throw new GenerationError(`No reference image found with id ${params.referenceId}. Use 'upload' to attach one.`, 404);
+    }
+    params = { ...params, referenceId: reference.id };
+  }
+  if (params.remixOf) {
+    const original = await getGalleryItem(supabase, params.remixOf);
+    if (!original) {
+      throw new GenerationError(`No gallery item found with id ${params.remixOf} to remix.`, 404);
+    }
+    params = { ...params, remixOf: original.id };
+  }
+
+  // Check and consume quota atomically before spending provider credits.
+  // A batch consumes one generation per image, an animation one per frame.
+  const imageCount = generationImageCount(params);
+  const quota = await consumeGenerationQuota(supabase, imageCount);
+  if (!quota.allowed) {
+    const resets = `Resets at ${new Date(quota.resetAt).toUTCString()}.`;
+    throw new GenerationError(
+      quota.remaining > 0
+        ? `Not enough generations left for ${imageCount} images (${quota.remaining} remaining on the ${quota.tier} tier). ${resets}`
+        : `Generation quota reached (${quota.used}/${quota.limit} on the ${quota.tier} tier). ${resets}`,
+      429,
+      { remainingCredits: quota.remaining, resetAt: quota.resetAt }
+    );
+  }
+
+  return { userId: user.id, params, quota, reference };
+};
+
+/**
+ * Give back a reservation that will not be executed (e.g. a cancelled job).
+ * Refunds are made with the service role; users cannot refund themselves.
+ * @param reservation The reservation to release
+ * @param reason Short note stored in the quota ledger
+ */
+export const releaseReservation = async (reservation: GenerationReservation, reason: string): Promise<void> => {
+  if (reservation.quota.ledgerId === null) return;
+
+  try {
+    await refundGenerationQuota(createServiceRoleSupabaseClient(), reservation.userId, reservation.quota.ledgerId, reason);
+  } catch (refundError) {
+    console.error('Failed to refund generation quota:', refundError);
+  }
+};
+
+/**
+ * Call the configured provider, apply the requested palette and record the
+ * result in the user's history with the service role. The reservation is
+ * refunded when the provider or the post-processing fails.
+ * @param reservation Result of reserveGeneration
+ * @param options Abort signal for cancellation and a progress callback
+ * @throws GenerationError with the provider's status when generation fails
+ */
+export const executeGeneration = async (
+  reservation: GenerationReservation,
+  options: ExecuteOptions = {}
+): Promise<GenerationOutcome> => {
+  const { params, userId, quota, reference } = reservation;
+  const sanitizedPrompt = sanitizePrompt(buildStyledPrompt(params));
+  const provider = getImageProvider();
+  const seed = params.seed ?? Math.floor(Math.random() * 1000000);
+
+  const request: ProviderRequest = {
+    params,
+    prompt: sanitizedPrompt,
+    negative: sanitizePrompt(params.negative),
+    seed,
+    signal: options.signal,
+    onProgress: ({ stage, message }) => {
+      options.onEvent?.(stage === 'retrying_endpoint' ? 'provider_retry' : 'provider_request', message);
+    },
+  };
+
+  let images;
+  try {
+    // Decoded here so a reference that cannot be read is refunded too
+    if (reference) {
+      request.initImage = referenceInitImage(reference, params);
+    }
+
+    const plan = sheetPlan(params, sanitizedPrompt);
+    if (plan) {
+      // Sheets check seams and apply the palette image by image
+      images = [await generateSheet(provider, request, plan, options)];
+    } else {
+      const result = await provider.generate(request);
+      images = result.images.slice(0, params.count);
+      options.onEvent?.('image_received', images.length === 1
+        ? `Image received from ${provider.id}${describeImageSize(images[0].imageUrl)}`
+        : `${images.length} images received from ${provider.id}`);
+
+      if (params.tileX || params.tileY) {
+        const checked: ProviderImage[] = [];
+        for (const [index, image] of images.entries()) {
+          checked.push(await seamlessImage(provider, request, image, images.length === 1 ? 'The image' : `Image ${index + 1}`, options));
+        }
+        images = checked;
+      }
+    }
+
+    if (params.palette && !plan) {
+      const recolor = { palette: params.palette, dither: params.dither };
+      try {
+        images = await Promise.all(images.map(async image => ({ ...image, imageUrl: await recolorImage(image.imageUrl, recolor) })));
+      } catch (recolorError) {
+        console.error('Failed to apply palette:', recolorError);
+        throw new GenerationError('The image could not be converted to the requested palette', 502);
+      }
+      options.onEvent?.('post_processed', `Recolored to ${describeRecolor(recolor)}`);
+    }
+
+    // Providers that ignore the signal can still finish after a cancel;
+    // checked last so nothing cancelled is recorded in the history
+    if (options.signal?.aborted) {
+      throw new Error('Generation was cancelled');
+    }
+  } catch (providerError) {
+    // The user should not pay for a generation that never happened
+    await releaseReservation(reservation, options.signal?.aborted ? 'cancelled' : 'provider_error');
+
+    if (options.signal?.aborted) {
+      throw new GenerationError('Generation was cancelled', 499);
+    }
+    if (providerError instanceof ProviderError) {
+      throw new GenerationError(providerError.message, providerError.status);
+    }
+    throw providerError;
+  }
+
+  // Record each image against the quota ledger entry the batch consumed.
+  // The images are paid for by now, so a failure here still returns them
+  let generationIds: string[] = [];
+  try {
+    const supabase = createServiceRoleSupabaseClient();
+    const storedUrls = await Promise.all(images.map(image => storeGenerationImage(supabase, userId, image.imageUrl)));
+    const { data: generations, error: recordError } = await supabase
+      .from('generations')
+      .insert(images.map((image, index) => ({
+        user_id: userId,
+        prompt: params.prompt,
+        params,
+        seed: image.seed,
+        model: params.model,
+        provider: provider.id,
+        image_url: storedUrls[index],
+        reference_image_id: reference?.id ?? null,
+        remix_of: params.remixOf ?? null,
+        quota_ledger_id: quota.ledgerId
+      })))
+      .select('id');
+    if (recordError) throw new Error(recordError.message);
+    generationIds = (generations || []).map(generation => generation.id);
+  } catch (recordError) {
+    console.error('Failed to record generation:', recordError);
+  }
+  options.onEvent?.('post_processed', generationIds.length > 0
+    ? `Saved to history as ${generationIds.map(id => id.slice(0, 8)).join(', ')}`
+    : 'Image ready (it could not be saved to history)');
+
+  return {
+    images: images.map((image, index) => ({ ...image, generationId: generationIds[index] })),
+    prompt: sanitizedPrompt,
+    provider: provider.id,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * Palette Post-Processing (server only)
+ * Quantizes generated images to a fixed palette, used after generation
+ * when --palette is set and by the 'recolor' route for past images.
+ */
+
+import type { GenerationRecord } from '@/lib/generations';
+import { describePalette, parsePalette } from '@/lib/image/palette';
+import { rasterToDataUrl } from '@/lib/image/png';
+import { quantizeRaster } from '@/lib/image/quantize';
+import { loadImageRaster } from '@/lib/image/remote';
+import { storeGenerationImage } from '@/lib/image/storage';
+import { createServiceRoleSupabaseClient } from '@/lib/supabase';
+import { GenerationError } from './errors';
+import type { RecolorOptions } from './params';
+
+// Provider recorded for history entries made by recoloring
+const RECOLOR_PROVIDER = 'recolor';
+
+/**
+ * Quantize an image to a palette
+ * @param imageUrl PNG data URL or an image on the provider's hosts
+ * @param options Palette and dithering to apply
+ * @returns The recolored image as a PNG data URL
+ */
+export const recolorImage = async (imageUrl: string, options: RecolorOptions): Promise<string> => {
+  const raster = await loadImageRaster(imageUrl);
+  return rasterToDataUrl(quantizeRaster(raster, parsePalette(options.palette), options.dither));
+};
+
+/**
+ * Describe a recolor for progress messages
+ * @returns e.g. "gameboy (4 colours) with bayer4 dithering"
+ */
+export const describeRecolor = (options: RecolorOptions): string => {
+  const palette = describePalette(options.palette);
+  return options.dither === 'none' ? palette : `${palette} with ${options.dither} dithering`;
+};
+
+/**
+ * Recolor a past generation and save the result as a new history entry.
+ * Recoloring does not call the provider, so it costs no quota. Only the
+ * server writes history, so the entry is recorded with the service role.
+ * @param userId Owner of the new entry
+ * @param source The generation to recolor, loaded with the user's session
+ * @param options Palette and dithering to apply
+ * @returns The new entry's ids and image
+ */
+export const recolorGeneration = async (
+  userId: string,
+  source: GenerationRecord,
+  options: RecolorOptions
+): Promise<{ id: string; shortId: string; imageUrl: string }> => {
+  if (!source.imageUrl) {
+    throw new GenerationError(`Generation ${source.shortId} has no stored image to recolor`, 409);
+  }
+
+  let imageUrl: string;
+  try {
+    imageUrl = await recolorImage(source.imageUrl, options);
+  } catch (recolorError) {
+    console.error('Failed to recolor generation:', recolorError);
+    throw new GenerationError(`The image of ${source.shortId} could not be recolored`, 502);
+  }
+
+  const supabase = createServiceRoleSupabaseClient();
+  const storedUrl = await storeGenerationImage(supabase, userId, imageUrl);
+  const { data, error } = await supabase
+    .from('generations')
+    .insert({
+      user_id: userId,
+      prompt: source.prompt,
+      params: { ...source.params, ...options },
+      seed: source.seed,
+      model: source.model,
+      provider: RECOLOR_PROVIDER,
+      image_url: storedUrl,
+      reference_image_id: source.referenceImageId,
+      cost: 0
+    })
+    .select('id, short_id')
+    .single();
+  if (error) {
+    throw new Error(`Failed to record recolored generation: ${error.message}`);
+  }
+
+  return { id: data.id, shortId: data.short_id, imageUrl };
+};
@@ -0,0 +1,76 @@
+/**
+ * Tiles and Tilesets
+ * Prompts, seam checking limits and atlas layout for tiling generations.
+ * A tileset is a grid of related tiles: the first one sets the look and
+ * the others start from it, sharing its palette, so they sit well next
+ * to each other in a level.
+ */
+
+import type { SeamAxis } from '@/lib/image/seams';
+import { buildSpriteAtlas, spriteSheetLayout, type SpriteAtlas } from '@/lib/image/spritesheet';
+import { MAX_PROMPT_LENGTH, parseTileset, type GenerationParams } from './params';
+
+// How far each tile may move away from the first one
+export const TILE_VARIATION_STRENGTH = 0.6;
+// New images to try when a tile's seams show, before blending them away
+export const SEAM_RETRIES = 1;
+// Seed distance of a retry, clear of the consecutive seeds of batches and tilesets
+export const SEAM_RETRY_SEED_STEP = 1000;
+
+// Variations asked of the tiles after the first, in order
+const TILE_VARIATIONS = [
+  'with small details',
+  'slightly worn',
+  'with a few cracks',
+  'with scattered pebbles',
+  'slightly darker',
+  'slightly lighter',
+  'with a little moss',
+  'with a small decoration',
+];
+
+/**
+ * Directions a generation has to tile in
+ * @param params Validated generation parameters
+ */
+export const tilingAxes = (params: Pick<GenerationParams, 'tileX' | 'tileY'>): SeamAxis[] => {
+  const axes: SeamAxis[] = [];
+  if (params.tileX) axes.push('x');
+  if (params.tileY) axes.push('y');
+  return axes;
+};
+
+/**
+ * Prompt for one tile of a tileset: the user's prompt plus its variation
+ * @param prompt Sanitized, style-expanded prompt
+ * @param index Tile number, from 0; tile 0 is the plain base tile
+ */
+export const buildTilePrompt = (prompt: string, index: number): string => {
+  const variation = index === 0 ? 'base tile' : `variant tile ${TILE_VARIATIONS[(index - 1) % TILE_VARIATIONS.length]}`;
+  const suffix = `, seamless tileable texture, ${variation}, same colors, same scale`;
+  return `${prompt.substring(0, MAX_PROMPT_LENGTH - suffix.length)}${suffix}`;
+};
+
+/**
+ * Describe a seam ratio for progress messages
+ * @returns e.g. "x 1.2, y 3.4"
+ */
+export const describeSeams = (report: Partial<Record<SeamAxis, number>>): string => {
+  const parts: string[] = [];
+  for (const axis of ['x', 'y'] as const) {
+    const ratio = report[axis];
+    if (ratio !== undefined) parts.push(`${axis} ${ratio.toFixed(1)}`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * JSON atlas of a generated tileset, rebuilt from the stored parameters
+ * the same way buildSequenceAtlas does for animations
+ * @param params Parameters of a tileset generation
+ * @param image File name of the sheet the atlas will sit next to
+ */
+export const buildTilesetAtlas = (params: Pick<GenerationParams, 'tileset' | 'width' | 'height'>, image: string): SpriteAtlas => {
+  const { columns, rows } = parseTileset(params.tileset ?? '1x1');
+  return buildSpriteAtlas(spriteSheetLayout(columns * rows, params.width, params.height, columns), { name: 'tile', image });
+};
@@ -0,0 +1,47 @@
+/**
+ * Generation Variations
+ * Helpers for re-running a past generation with a nearby seed or a
+ * slightly reworded prompt, used by the terminal's 'vary' command.
+ */
+
+import { MAX_PROMPT_LENGTH, MAX_SEED } from './params';
+
+// Largest distance between an original seed and a jittered one
+const SEED_JITTER = 9999;
+
+// Small additions that nudge a prompt without changing its subject
+const PROMPT_PERTURBATIONS = [
+  'alternate pose',
+  'slightly different colors',
+  'different angle',
+  'more detailed shading',
+  'simpler shapes',
+  'warmer palette',
+  'cooler palette',
+  'different lighting',
+];
+
+/**
+ * Pick a new seed close to the original one
+ * @param seed Seed of the generation being varied
+ * @param random Source of randomness in [0, 1), Math.random by default
+ * @returns A different seed within the valid seed range
+ */
+export const jitterSeed = (seed: number, random: () => number = Math.random): number => {
+  const offset = 1 + Math.floor(random() * SEED_JITTER);
+  const direction = random() < 0.5 ? -1 : 1;
+  const jittered = seed + offset * direction;
+  return jittered < 0 || jittered > MAX_SEED ? seed - offset * direction : jittered;
+};
+
+/**
+ * Reword a prompt with one of a fixed set of small perturbations
+ * @param prompt The original prompt
+ * @param index Which perturbation to use; consecutive indexes give different ones
+ * @returns The perturbed prompt, within the maximum prompt length
+ */
+export const perturbPrompt = (prompt: string, index: number): string => {
+  const perturbation = PROMPT_PERTURBATIONS[index % PROMPT_PERTURBATIONS.length];
+  const suffix = `, ${perturbation}`;
+  return `${prompt.trim().substring(0, MAX_PROMPT_LENGTH - suffix.length)}${suffix}`;
+};
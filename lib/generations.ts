@@ -0,0 +1,155 @@
+/**
+ * Generation History
+ * Reads and deletes the signed-in user's stored generations. Calls must
+ * use a Supabase client bound to the user's session so row level
+ * security limits every query to their own rows.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GenerationParams } from './generation/params';
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 10;
+export const MAX_HISTORY_PAGE_SIZE = 50;
+
+export interface GenerationRecord {
+  id: string;
+  shortId: string;
+  prompt: string;
+  params: Partial<GenerationParams>;
+  seed: number | null;
+  model: string | null;
+  provider: string | null;
+  imageUrl: string | null;
+  // Uploaded image the generation was made from, if any
+  referenceImageId: string | null;
+  // Gallery item the generation was remixed from, if any
+  remixOf: string | null;
+  createdAt: string;
+}
+
+export interface GenerationPage {
+  items: GenerationRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface GenerationQuery {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// A generations row as selected by GENERATION_COLUMNS
+interface GenerationRow {
+  id: string;
+  short_id: string;
+  prompt: string;
+  params: Partial<GenerationParams> | null;
+  seed: number | null;
+  model: string | null;
+  provider: string | null;
+  image_url: string | null;
+  reference_image_id: string | null;
+  remix_of: string | null;
+  created_at: string;
+}
+
+const GENERATION_COLUMNS = 'id, short_id, prompt, params, seed, model, provider, image_url, reference_image_id, remix_of, created_at';
+
+// Map a database row to the camelCase shape used by the app
+const toRecord = (row: GenerationRow): GenerationRecord => ({
+  id: row.id,
+  shortId: row.short_id,
+  prompt: row.prompt,
+  params: row.params || {},
+  seed: row.seed,
+  model: row.model,
+  provider: row.provider,
+  imageUrl: row.image_url,
+  referenceImageId: row.reference_image_id,
+  remixOf: row.remix_of,
+  createdAt: row.created_at,
+});
+
+// Escape LIKE wildcards so a search term is matched literally
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Full ids are UUIDs; anything shorter is treated as the 8 character short id
+export const isFullId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+
+/**
+ * List generations, newest first
+ * @param supabase Client bound to the user's session
+ * @param query Optional prompt search and 1-based page
+ */
+export const listGenerations = async (supabase: SupabaseClient, query: GenerationQuery = {}): Promise<GenerationPage> => {
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const pageSize = Math.min(MAX_HISTORY_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize || DEFAULT_HISTORY_PAGE_SIZE)));
+  const from = (page - 1) * pageSize;
+
+  let request = supabase
+    .from('generations')
+    .select(GENERATION_COLUMNS, { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  const search = query.search?.trim();
+  if (search) {
+    request = request.ilike('prompt', `%${escapeLike(search)}%`);
+  }
+
+  const { data, error, count } = await request.overrideTypes<GenerationRow[], { merge: false }>();
+  if (error) {
+    throw new Error(`Failed to load generation history: ${error.message}`);
+  }
+
+  const total = count ?? 0;
+  return {
+    items: (data || []).map(toRecord),
+    page,
+    pageSize,
+    total,
+    hasMore: from + pageSize < total,
+  };
+};
+
+/**
+ * Find one generation by full or short id
+ * @param supabase Client bound to the user's session
+ * @param id UUID or its 8 character prefix
+ * @returns The generation, or null when it does not exist
+ */
+export const getGeneration = async (supabase: SupabaseClient, id: string): Promise<GenerationRecord | null> => {
+  const { data, error } = await supabase
+    .from('generations')
+    .select(GENERATION_COLUMNS)
+    .eq(isFullId(id) ? 'id' : 'short_id', id.toLowerCase())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<GenerationRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load generation: ${error.message}`);
+  }
+  return data ? toRecord(data) : null;
+};
+
+/**
+ * Delete one generation by full or short id
+ * @param supabase Client bound to the user's session
+ * @param id UUID or its 8 character prefix
+ * @returns True when a generation was deleted
+ */
+export const deleteGeneration = async (supabase: SupabaseClient, id: string): Promise<boolean> => {
+  const generation = await getGeneration(supabase, id);
+  if (!generation) return false;
+
+  const { error } = await supabase.from('generations').delete().eq('id', generation.id);
+  if (error) {
+    throw new Error(`Failed to delete generation: ${error.message}`);
+  }
+  return true;
+};
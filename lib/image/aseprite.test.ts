@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAseprite, type AsepriteDocument } from './aseprite';
+import { createRaster, setPixel, type Raster, type RGB } from './raster';
+
+interface ReadChunk {
+  type: number;
+  data: DataView;
+}
+
+interface ReadFrame {
+  duration: number;
+  chunks: ReadChunk[];
+}
+
+// Walk the file's frames and chunks, checking every size field adds up
+const readAseprite = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  expect(view.getUint32(0, true)).toBe(bytes.length);
+  expect(view.getUint16(4, true)).toBe(0xa5e0);
+
+  const frames: ReadFrame[] = [];
+  let position = 128;
+  for (let index = 0; index < view.getUint16(6, true); index++) {
+    const frameSize = view.getUint32(position, true);
+    expect(view.getUint16(position + 4, true)).toBe(0xf1fa);
+    const chunkCount = view.getUint32(position + 12, true);
+    expect(view.getUint16(position + 6, true)).toBe(chunkCount);
+
+    const chunks: ReadChunk[] = [];
+    let offset = position + 16;
+    for (let c = 0; c < chunkCount; c++) {
+      const size = view.getUint32(offset, true);
+      chunks.push({ type: view.getUint16(offset + 4, true), data: new DataView(bytes.buffer, bytes.byteOffset + offset + 6, size - 6) });
+      offset += size;
+    }
+    expect(offset - position).toBe(frameSize);
+    frames.push({ duration: view.getUint16(position + 8, true), chunks });
+    position += frameSize;
+  }
+  expect(position).toBe(bytes.length);
+
+  return {
+    width: view.getUint16(8, true),
+    height: view.getUint16(10, true),
+    depth: view.getUint16(12, true),
+    colors: view.getUint16(32, true),
+    grid: [view.getUint16(40, true), view.getUint16(42, true)],
+    frames,
+  };
+};
+
+// Length-prefixed UTF-8 string at an offset
+const readString = (data: DataView, offset: number) =>
+  new TextDecoder().decode(new Uint8Array(data.buffer, data.byteOffset + offset + 2, data.getUint16(offset, true)));
+
+const frame = (color: RGB): Raster => {
+  const raster = createRaster(3, 2);
+  setPixel(raster, 1, 1, color);
+  return raster;
+};
+
+const sprite = (overrides: Partial<AsepriteDocument> = {}): AsepriteDocument => ({
+  width: 3,
+  height: 2,
+  palette: [[0, 0, 0], [255, 0, 0]],
+  layer: 'Sprite',
+  frames: [{ image: frame([255, 0, 0]), duration: 100 }],
+  ...overrides,
+});
+
+describe('encodeAseprite', () => {
+  it('writes the header', () => {
+    const file = readAseprite(encodeAseprite(sprite({ grid: { width: 8, height: 4 } })));
+    expect(file).toMatchObject({ width: 3, height: 2, depth: 32, colors: 2, grid: [8, 4] });
+    expect(readAseprite(encodeAseprite(sprite())).grid).toEqual([16, 16]);
+  });
+
+  it('puts the sprite-wide chunks in the first frame only', () => {
+    const file = readAseprite(encodeAseprite(sprite({
+      frames: [{ image: frame([255, 0, 0]), duration: 100 }, { image: frame([0, 0, 0]), duration: 250 }],
+      tag: 'walk',
+    })));
+    expect(file.frames.map(f => f.duration)).toEqual([100, 250]);
+    expect(file.frames.map(f => f.chunks.map(c => c.type))).toEqual([[0x2007, 0x2019, 0x2004, 0x2018, 0x2005], [0x2005]]);
+  });
+
+  it('writes the palette, layer name and tag range', () => {
+    const [first] = readAseprite(encodeAseprite(sprite({
+      frames: Array.from({ length: 3 }, () => ({ image: frame([255, 0, 0]), duration: 100 })),
+      tag: 'idle',
+    }))).frames;
+    const [, palette, layer, tags] = first.chunks.map(c => c.data);
+
+    expect([palette.getUint32(0, true), palette.getUint32(4, true), palette.getUint32(8, true)]).toEqual([2, 0, 1]);
+    // Each entry: flags word, then RGBA
+    expect(Array.from(new Uint8Array(palette.buffer, palette.byteOffset + 20 + 6 + 2, 4))).toEqual([255, 0, 0, 255]);
+    expect(readString(layer, 16)).toBe('Sprite');
+    expect([tags.getUint16(0, true), tags.getUint16(10, true), tags.getUint16(12, true)]).toEqual([1, 0, 2]);
+    expect(readString(tags, 27)).toBe('idle');
+  });
+
+  it('stores each frame as a raw RGBA cel', () => {
+    const image = frame([255, 0, 0]);
+    const cel = readAseprite(encodeAseprite(sprite({ frames: [{ image, duration: 100 }] }))).frames[0].chunks[3].data;
+    expect(cel.getUint16(7, true)).toBe(0);
+    expect([cel.getUint16(16, true), cel.getUint16(18, true)]).toEqual([3, 2]);
+    expect(cel.byteLength).toBe(20 + 3 * 2 * 4);
+    expect(new Uint8Array(cel.buffer, cel.byteOffset + 20, 24)).toEqual(new Uint8Array(image.data.buffer));
+  });
+
+  it('leaves the tag out of single frame sprites', () => {
+    const [first] = readAseprite(encodeAseprite(sprite({ tag: 'idle' }))).frames;
+    expect(first.chunks.map(c => c.type)).not.toContain(0x2018);
+  });
+
+  it('writes 0 colours for a full 256 colour palette', () => {
+    const palette = Array.from({ length: 256 }, (_, i): RGB => [i, i, i]);
+    expect(readAseprite(encodeAseprite(sprite({ palette }))).colors).toBe(0);
+  });
+
+  it('rejects sprites without frames or with mismatched frames', () => {
+    expect(() => encodeAseprite(sprite({ frames: [] }))).toThrow('at least one frame');
+    expect(() => encodeAseprite(sprite({ frames: [{ image: createRaster(4, 4), duration: 100 }] }))).toThrow('Every frame must be 3x2');
+  });
+});
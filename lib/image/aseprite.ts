@@ -0,0 +1,266 @@
+/**
+ * Aseprite Files
+ * Writes .aseprite documents (the binary format Aseprite reads as .ase or
+ * .aseprite): an RGBA sprite with one image layer, the palette as the
+ * sprite palette and one cel per frame with its duration. Animations get
+ * a tag covering all frames; sheets of tiles can set the editor grid to
+ * the tile size. Format reference:
+ * https://github.com/aseprite/aseprite/blob/main/docs/ase-file-specs.md
+ */
+
+import type { Raster, RGB } from './raster';
+
+const HEADER_SIZE = 128;
+const HEADER_MAGIC = 0xa5e0;
+const FRAME_MAGIC = 0xf1fa;
+const COLOR_DEPTH_RGBA = 32;
+// Header flag: layer opacity values are valid
+const FLAG_LAYER_OPACITY = 1;
+// Layer flags: visible and editable
+const LAYER_FLAGS = 3;
+// Raw pixels; Aseprite itself writes zlib-compressed cels but reads both
+const CEL_RAW = 0;
+const COLOR_PROFILE_SRGB = 1;
+
+const CHUNK_LAYER = 0x2004;
+const CHUNK_CEL = 0x2005;
+const CHUNK_COLOR_PROFILE = 0x2007;
+const CHUNK_TAGS = 0x2018;
+const CHUNK_PALETTE = 0x2019;
+
+export interface AsepriteFrame {
+  image: Raster;
+  // Display time in milliseconds
+  duration: number;
+}
+
+export interface AsepriteDocument {
+  // Every frame image must have this size
+  width: number;
+  height: number;
+  palette: RGB[];
+  // Name of the single image layer
+  layer: string;
+  frames: AsepriteFrame[];
+  // Name of a tag spanning all frames, for animations
+  tag?: string;
+  // Editor grid, e.g. the tile size of a tileset
+  grid?: { width: number; height: number };
+}
+
+// Little-endian byte writer that grows as needed
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  word(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  short(value: number) {
+    this.reserve(2);
+    this.view.setInt16(this.length, value, true);
+    this.length += 2;
+  }
+
+  dword(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  zeros(count: number) {
+    this.reserve(count);
+    this.bytes.fill(0, this.length, this.length + count);
+    this.length += count;
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.word(encoded.length);
+    this.append(encoded);
+  }
+
+  append(data: Uint8Array) {
+    this.reserve(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  // Overwrite a dword written earlier, e.g. a size only known afterwards
+  patchDword(offset: number, value: number) {
+    this.view.setUint32(offset, value, true);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Write a chunk, filling in its size once its data is written
+function chunk(out: ByteWriter, type: number, write: () => void) {
+  const start = out.length;
+  out.dword(0);
+  out.word(type);
+  write();
+  out.patchDword(start, out.length - start);
+}
+
+function writeHeader(out: ByteWriter, sprite: AsepriteDocument) {
+  out.dword(0); // File size, patched at the end
+  out.word(HEADER_MAGIC);
+  out.word(sprite.frames.length);
+  out.word(sprite.width);
+  out.word(sprite.height);
+  out.word(COLOR_DEPTH_RGBA);
+  out.dword(FLAG_LAYER_OPACITY);
+  out.word(Math.round(sprite.frames[0].duration)); // Deprecated speed field
+  out.zeros(8);
+  out.byte(0); // Transparent index, only used by indexed sprites
+  out.zeros(3);
+  // 0 stands for 256 colours in old readers
+  out.word(sprite.palette.length >= 256 ? 0 : sprite.palette.length);
+  out.byte(1); // Square pixels
+  out.byte(1);
+  out.short(0);
+  out.short(0);
+  out.word(sprite.grid?.width ?? 16);
+  out.word(sprite.grid?.height ?? 16);
+  out.zeros(HEADER_SIZE - out.length);
+}
+
+function writeColorProfile(out: ByteWriter) {
+  chunk(out, CHUNK_COLOR_PROFILE, () => {
+    out.word(COLOR_PROFILE_SRGB);
+    out.word(0); // No fixed gamma
+    out.dword(0);
+    out.zeros(8);
+  });
+}
+
+function writePalette(out: ByteWriter, palette: RGB[]) {
+  chunk(out, CHUNK_PALETTE, () => {
+    out.dword(palette.length);
+    out.dword(0);
+    out.dword(palette.length - 1);
+    out.zeros(8);
+    for (const [r, g, b] of palette) {
+      out.word(0); // No name
+      out.byte(r);
+      out.byte(g);
+      out.byte(b);
+      out.byte(255);
+    }
+  });
+}
+
+function writeLayer(out: ByteWriter, name: string) {
+  chunk(out, CHUNK_LAYER, () => {
+    out.word(LAYER_FLAGS);
+    out.word(0); // Normal image layer
+    out.word(0); // Top level
+    out.word(0); // Default width and height, ignored
+    out.word(0);
+    out.word(0); // Normal blend mode
+    out.byte(255);
+    out.zeros(3);
+    out.string(name);
+  });
+}
+
+function writeTag(out: ByteWriter, name: string, frameCount: number) {
+  chunk(out, CHUNK_TAGS, () => {
+    out.word(1);
+    out.zeros(8);
+    out.word(0);
+    out.word(frameCount - 1);
+    out.byte(0); // Forward
+    out.word(0); // Repeat forever
+    out.zeros(6);
+    out.zeros(3); // Deprecated tag colour
+    out.byte(0);
+    out.string(name);
+  });
+}
+
+function writeCel(out: ByteWriter, image: Raster) {
+  chunk(out, CHUNK_CEL, () => {
+    out.word(0); // Layer index
+    out.short(0);
+    out.short(0);
+    out.byte(255);
+    out.word(CEL_RAW);
+    out.short(0); // z-index
+    out.zeros(5);
+    out.word(image.width);
+    out.word(image.height);
+    out.append(new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.byteLength));
+  });
+}
+
+/**
+ * Encode a sprite as an Aseprite file
+ * @param sprite Frames, palette and layer of the sprite
+ * @returns The file's bytes
+ * @throws Error when there are no frames or a frame does not match the sprite size
+ */
+export const encodeAseprite = (sprite: AsepriteDocument): Uint8Array => {
+  const { frames } = sprite;
+  if (frames.length === 0) {
+    throw new Error('An Aseprite file needs at least one frame');
+  }
+  if (frames.some(frame => frame.image.width !== sprite.width || frame.image.height !== sprite.height)) {
+    throw new Error(`Every frame must be ${sprite.width}x${sprite.height}`);
+  }
+
+  const out = new ByteWriter();
+  writeHeader(out, sprite);
+
+  frames.forEach((frame, index) => {
+    // Sprite-wide chunks live in the first frame
+    const first = index === 0;
+    const tag = first && frames.length > 1 ? sprite.tag : undefined;
+    const chunks = 1 + (first ? 3 : 0) + (tag ? 1 : 0);
+
+    const start = out.length;
+    out.dword(0); // Frame size, patched below
+    out.word(FRAME_MAGIC);
+    out.word(chunks);
+    out.word(Math.round(frame.duration));
+    out.zeros(2);
+    out.dword(chunks);
+
+    if (first) {
+      writeColorProfile(out);
+      writePalette(out, sprite.palette);
+      writeLayer(out, sprite.layer);
+    }
+    if (tag) {
+      writeTag(out, tag, frames.length);
+    }
+    writeCel(out, frame.image);
+    out.patchDword(start, out.length - start);
+  });
+
+  out.patchDword(0, out.length);
+  return out.result();
+};
@@ -0,0 +1,172 @@
+/**
+ * Browser Image Helpers (client only)
+ * Moves images between URLs, canvases, rasters and file downloads.
+ */
+
+import type { Raster } from './raster';
+
+/**
+ * Fetch an image as a blob, going through the image proxy when the
+ * image's host does not allow cross-origin requests
+ * @param url A data URL, an object URL of a local file or an http(s) image URL
+ * @throws Error when the URL is not an image URL or cannot be fetched
+ */
+export const fetchImageBlob = async (url: string): Promise<Blob> => {
+  if (url.startsWith('data:') || url.startsWith('blob:')) {
+    const response = await fetch(url);
+    return response.blob();
+  }
+  if (!url.startsWith('http')) {
+    throw new Error('Invalid URL format');
+  }
+
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    return await response.blob();
+  } catch (error) {
+    console.log('Direct download failed, trying through proxy...');
+    const response = await fetch('/api/proxy-image?url=' + encodeURIComponent(url));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image (HTTP ${response.status})`);
+    }
+    return response.blob();
+  }
+};
+
+/**
+ * Decode an image blob into a raster
+ * @param blob PNG, JPEG, WebP or GIF image (first frame)
+ */
+export const blobToRaster = async (blob: Blob): Promise<Raster> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Your browser could not read the image');
+    }
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Encode a raster as a PNG blob
+ * @param raster Pixels to encode
+ */
+export const rasterToPngBlob = (raster: Raster): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Your browser could not encode the image'));
+  }
+  context.putImageData(new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height), 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Your browser could not encode the image'))), 'image/png');
+  });
+};
+
+/**
+ * Save a blob as a file download
+ * @param blob File contents
+ * @param filename Name suggested to the browser
+ */
+export const saveBlob = (blob: Blob, filename: string): void => {
+  const blobUrl = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = blobUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  // Clean up
+  setTimeout(() => {
+    URL.revokeObjectURL(blobUrl);
+  }, 100);
+};
+
+export interface VideoFrameOptions {
+  // Frames sampled per second of video
+  fps: number;
+  // Stop after this many frames
+  maxFrames: number;
+  // Frames wider than this are scaled down as they are captured
+  maxWidth?: number;
+}
+
+/**
+ * Capture frames of a video file at a fixed rate by seeking a hidden
+ * <video> element and drawing it on a canvas
+ * @param file MP4 or WebM video the browser can play
+ * @param options Sampling rate, frame limit and size limit
+ * @param onFrame Called with each frame as it is captured, e.g. for progress
+ * @returns The frames in order
+ * @throws Error when the browser cannot play the video
+ */
+export const captureVideoFrames = async (
+  file: Blob,
+  options: VideoFrameOptions,
+  onFrame?: (index: number, total: number) => void
+): Promise<Raster[]> => {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const waitFor = (event: 'loadeddata' | 'seeked') => new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Your browser could not play this video'));
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+  try {
+    const loaded = waitFor('loadeddata');
+    video.src = objectUrl;
+    await loaded;
+
+    const scale = options.maxWidth ? Math.min(1, options.maxWidth / video.videoWidth) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+    canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Your browser could not read the video');
+    }
+
+    const total = Math.max(1, Math.min(options.maxFrames, Math.floor(video.duration * options.fps)));
+    const frames: Raster[] = [];
+    for (let index = 0; index < total; index++) {
+      const seeked = waitFor('seeked');
+      video.currentTime = index / options.fps;
+      await seeked;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(context.getImageData(0, 0, canvas.width, canvas.height));
+      onFrame?.(index, total);
+    }
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+};
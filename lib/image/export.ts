@@ -0,0 +1,157 @@
+/**
+ * Pixel Art Export (client only)
+ * Downloads a generated image at its logical resolution, recovered with
+ * grid detection, plus a crisp whole-number upscale of it, sprite
+ * sheets together with their JSON atlas, and Aseprite files.
+ */
+
+import { encodeAseprite } from './aseprite';
+import { fetchImageBlob, blobToRaster, rasterToPngBlob, saveBlob } from './browser';
+import { detectPixelGrid, downscaleToGrid, upscaleInteger, type PixelGrid } from './grid';
+import { MAX_CUSTOM_PALETTE_SIZE } from './palette';
+import { extractPalette } from './quantize';
+import type { Raster, RGB } from './raster';
+import { cropSpriteFrame, type SpriteAtlas } from './spritesheet';
+
+export const EXPORT_SCALES = [1, 2, 4, 8] as const;
+export type ExportScale = typeof EXPORT_SCALES[number];
+
+export const EXPORT_FORMATS = ['png', 'aseprite'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Frame time Aseprite shows for single images, its own default
+const STILL_FRAME_DURATION = 100;
+
+export interface PixelArtExport {
+  grid: PixelGrid;
+  // Names of the downloaded files
+  files: string[];
+}
+
+/**
+ * Check a user supplied scale against the supported ones
+ */
+export const isExportScale = (value: unknown): value is ExportScale => {
+  return EXPORT_SCALES.includes(value as ExportScale);
+};
+
+/**
+ * Check a user supplied file format against the supported ones
+ */
+export const isExportFormat = (value: unknown): value is ExportFormat => {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+};
+
+/**
+ * Download an image as its native-resolution sprite and, for scale > 1,
+ * an integer upscale of that sprite
+ * @param url Image URL (data URL or provider URL)
+ * @param baseName File name without extension, e.g. "promixel-knight"
+ * @param scale Upscale factor to export next to the native sprite
+ * @returns The detected grid and the names of the saved files
+ */
+export const exportPixelArt = async (url: string, baseName: string, scale: ExportScale = 1): Promise<PixelArtExport> => {
+  const raster = await blobToRaster(await fetchImageBlob(url));
+  const grid = detectPixelGrid(raster);
+  const sprite = downscaleToGrid(raster, grid.cellSize);
+
+  const nativeName = `${baseName}-${sprite.width}x${sprite.height}.png`;
+  saveBlob(await rasterToPngBlob(sprite), nativeName);
+  const files = [nativeName];
+
+  if (scale > 1) {
+    const scaledName = `${baseName}-${sprite.width}x${sprite.height}@${scale}x.png`;
+    saveBlob(await rasterToPngBlob(upscaleInteger(sprite, scale)), scaledName);
+    files.push(scaledName);
+  }
+  return { grid, files };
+};
+
+/**
+ * Download a sprite sheet as is, so the atlas rectangles stay valid, and
+ * its atlas as JSON next to it
+ * @param url Sheet image URL
+ * @param atlas Atlas of the sheet; its meta.image is set to the saved file name
+ * @param baseName File name without extension for both files
+ * @returns The names of the saved files
+ */
+export const exportSpriteSheet = async (url: string, atlas: SpriteAtlas, baseName: string): Promise<string[]> => {
+  const imageName = `${baseName}.png`;
+  const atlasName = `${baseName}.json`;
+  saveBlob(await fetchImageBlob(url), imageName);
+  const json = JSON.stringify({ ...atlas, meta: { ...atlas.meta, image: imageName } }, null, 2);
+  saveBlob(new Blob([json], { type: 'application/json' }), atlasName);
+  return [imageName, atlasName];
+};
+
+export interface AsepriteExportOptions {
+  // Atlas of a sprite sheet: animations get one frame per atlas frame,
+  // other sheets (tilesets) stay one image with the grid set to the tile size
+  atlas?: SpriteAtlas;
+  // Sprite palette; the image's own colours when not given
+  palette?: RGB[];
+}
+
+export interface AsepriteExport {
+  file: string;
+  frames: number;
+  colors: number;
+}
+
+// The image's colours, reduced by median cut when there are too many for a palette
+function imagePalette(image: Raster): RGB[] {
+  const colors = new Map<number, RGB>();
+  for (let i = 0; i < image.data.length && colors.size <= MAX_CUSTOM_PALETTE_SIZE; i += 4) {
+    if (image.data[i + 3] === 0) continue;
+    const [r, g, b] = [image.data[i], image.data[i + 1], image.data[i + 2]];
+    colors.set((r << 16) | (g << 8) | b, [r, g, b]);
+  }
+  return colors.size > 0 && colors.size <= MAX_CUSTOM_PALETTE_SIZE
+    ? [...colors.values()]
+    : extractPalette(image, MAX_CUSTOM_PALETTE_SIZE);
+}
+
+/**
+ * Download an image as an Aseprite file with one layer and the palette
+ * as the sprite palette. Single images are reduced to their detected
+ * pixel grid; sheets are stored at their native size already.
+ * @param url Image URL (data URL or provider URL)
+ * @param baseName File name without extension
+ * @param options Atlas of a sheet and the palette to use
+ * @returns The saved file, its frame count and palette size
+ */
+export const exportAseprite = async (url: string, baseName: string, options: AsepriteExportOptions = {}): Promise<AsepriteExport> => {
+  const raster = await blobToRaster(await fetchImageBlob(url));
+  const { atlas } = options;
+  const image = atlas ? raster : downscaleToGrid(raster, detectPixelGrid(raster).cellSize);
+  const tag = atlas?.meta.frameTags[0];
+
+  const frames = atlas && tag
+    ? atlas.frames.map(frame => ({ image: cropSpriteFrame(image, frame.frame), duration: frame.duration }))
+    : [{ image, duration: STILL_FRAME_DURATION }];
+  const tile = atlas && !tag ? atlas.frames[0].frame : undefined;
+  const palette = options.palette ?? imagePalette(image);
+
+  const file = `${baseName}.aseprite`;
+  const bytes = encodeAseprite({
+    width: frames[0].image.width,
+    height: frames[0].image.height,
+    palette,
+    layer: 'Generated',
+    frames,
+    tag: tag?.name,
+    grid: tile && { width: tile.w, height: tile.h },
+  });
+  saveBlob(new Blob([bytes], { type: 'application/octet-stream' }), file);
+  return { file, frames: frames.length, colors: palette.length };
+};
+
+/**
+ * Describe a detected grid for messages
+ * @returns e.g. "64x64 pixel grid (4x4 blocks)" or "no coarser pixel grid"
+ */
+export const describePixelGrid = (grid: PixelGrid): string => {
+  return grid.cellSize > 1
+    ? `${grid.width}x${grid.height} pixel grid (${grid.cellSize}x${grid.cellSize} blocks)`
+    : `no coarser pixel grid, kept ${grid.width}x${grid.height}`;
+};
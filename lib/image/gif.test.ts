@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGifFrames, readGifSize } from './gif';
+import type { RGB } from './raster';
+
+// GIF LZW compression of colour indices, with the code size growing up to
+// 12 bits and a clear code whenever the table fills up
+const lzwEncode = (indices: number[], minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const table = new Map<number, number>();
+  const bytes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let current = indices[0];
+  for (const index of indices.slice(1)) {
+    const key = current * 256 + index;
+    const known = table.get(key);
+    if (known !== undefined) {
+      current = known;
+      continue;
+    }
+    emit(current);
+    if (nextCode < 4096) {
+      table.set(key, nextCode++);
+      // Readers add each code one step later, so they widen one code later too
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    current = index;
+  }
+  emit(current);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(buffer & 0xff);
+  return bytes;
+};
+
+// Split data into sub-blocks of at most 255 bytes, ending with an empty one
+const subBlocks = (data: number[]): number[] => {
+  const blocks: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  return [...blocks, 0];
+};
+
+const word = (value: number) => [value & 0xff, value >> 8];
+
+interface TestFrame {
+  indices: number[];
+  width: number;
+  height: number;
+  left?: number;
+  top?: number;
+  // In hundredths of a second, as stored in the file
+  delay?: number;
+  transparent?: number;
+  disposal?: number;
+  interlaced?: boolean;
+}
+
+// Rows in the order an interlaced image stores them
+const interlace = (indices: number[], width: number, height: number): number[] => {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let row = start; row < height; row += step) rows.push(...indices.slice(row * width, (row + 1) * width));
+  }
+  return rows;
+};
+
+// A GIF89a file with a global colour table of 2^bits colours
+const buildGif = (width: number, height: number, colors: RGB[], frames: TestFrame[]): Uint8Array => {
+  const bits = Math.max(1, Math.ceil(Math.log2(colors.length)));
+  const table = Array.from({ length: 1 << bits }, (_, i) => colors[i] || [0, 0, 0]).flat();
+  const bytes = [...Array.from('GIF89a', c => c.charCodeAt(0)), ...word(width), ...word(height), 0x80 | (bits - 1), 0, 0, ...table];
+
+  for (const frame of frames) {
+    const transparent = frame.transparent ?? -1;
+    bytes.push(0x21, 0xf9, 4, ((frame.disposal ?? 0) << 2) | (transparent >= 0 ? 1 : 0), ...word(frame.delay ?? 10), Math.max(0, transparent), 0);
+    bytes.push(0x2c, ...word(frame.left ?? 0), ...word(frame.top ?? 0), ...word(frame.width), ...word(frame.height), frame.interlaced ? 0x40 : 0);
+    const minCodeSize = Math.max(2, bits);
+    const indices = frame.interlaced ? interlace(frame.indices, frame.width, frame.height) : frame.indices;
+    bytes.push(minCodeSize, ...subBlocks(lzwEncode(indices, minCodeSize)));
+  }
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+};
+
+const RED: RGB = [255, 0, 0];
+const GREEN: RGB = [0, 255, 0];
+const BLUE: RGB = [0, 0, 255];
+const WHITE: RGB = [255, 255, 255];
+
+// Colours of a frame's pixels, null where transparent
+const colors = (frame: { raster: { width: number; height: number; data: Uint8ClampedArray } }) =>
+  Array.from({ length: frame.raster.width * frame.raster.height }, (_, p) => {
+    const pixel = Array.from(frame.raster.data.slice(p * 4, p * 4 + 4));
+    return pixel[3] === 0 ? null : pixel.slice(0, 3);
+  });
+
+// Deterministic indices in 0..count-1 that repeat often enough to build long LZW codes
+const pattern = (length: number, count: number) =>
+  Array.from({ length }, (_, i) => ((i * 7919) ^ (i >> 3)) % count);
+
+describe('readGifSize', () => {
+  it('reads the canvas size from the header', () => {
+    expect(readGifSize(buildGif(640, 480, [RED, GREEN], [{ indices: [0], width: 1, height: 1 }]))).toEqual({ width: 640, height: 480 });
+  });
+
+  it('rejects files that are not GIFs', () => {
+    expect(() => readGifSize(new TextEncoder().encode('PNG file, not a GIF'))).toThrow('not a GIF');
+  });
+});
+
+describe('decodeGifFrames', () => {
+  it('decodes a one pixel GIF made elsewhere', () => {
+    const bytes = Uint8Array.from(atob('R0lGODlhAQABAIAAAP///wAAACwAAAAAAQABAAACAkQBADs='), c => c.charCodeAt(0));
+    const frames = [...decodeGifFrames(bytes)];
+    expect(frames).toHaveLength(1);
+    expect(colors(frames[0])).toEqual([WHITE]);
+  });
+
+  it('decompresses LZW data as the code size grows', () => {
+    const indices = pattern(40 * 30, 16);
+    const palette = Array.from({ length: 16 }, (_, i): RGB => [i * 16, 255 - i * 16, i]);
+    const [frame] = decodeGifFrames(buildGif(40, 30, palette, [{ indices, width: 40, height: 30 }]));
+    expect(colors(frame)).toEqual(indices.map(index => palette[index]));
+  });
+
+  it('decompresses LZW data that fills the code table', () => {
+    const indices = pattern(120 * 100, 256);
+    const palette = Array.from({ length: 256 }, (_, i): RGB => [i, (i * 3) & 0xff, 255 - i]);
+    const [frame] = decodeGifFrames(buildGif(120, 100, palette, [{ indices, width: 120, height: 100 }]));
+    expect(colors(frame)).toEqual(indices.map(index => palette[index]));
+  });
+
+  it('decodes runs of one colour, where codes refer to themselves', () => {
+    const [frame] = decodeGifFrames(buildGif(50, 2, [RED, GREEN], [{ indices: new Array(100).fill(1), width: 50, height: 2 }]));
+    expect(colors(frame)).toEqual(new Array(100).fill(GREEN));
+  });
+
+  it('puts interlaced rows back in order', () => {
+    const indices = Array.from({ length: 9 * 2 }, (_, i) => Math.floor(i / 2) % 3);
+    const [frame] = decodeGifFrames(buildGif(2, 9, [RED, GREEN, BLUE], [{ indices, width: 2, height: 9, interlaced: true }]));
+    expect(colors(frame)).toEqual(indices.map(index => [RED, GREEN, BLUE][index]));
+  });
+
+  it('composites frames onto the canvas, skipping transparent pixels', () => {
+    const frames = [...decodeGifFrames(buildGif(3, 1, [RED, GREEN, BLUE], [
+      { indices: [0, 0, 0], width: 3, height: 1, delay: 5 },
+      { indices: [1, 2], width: 2, height: 1, left: 1, transparent: 2, delay: 0 },
+    ]))];
+    expect(frames.map(colors)).toEqual([[RED, RED, RED], [RED, GREEN, RED]]);
+    // 50ms as stored; a zero delay plays at the browsers' 100ms
+    expect(frames.map(frame => frame.delay)).toEqual([50, 100]);
+  });
+
+  it('clears or restores what a frame covered, as its disposal method says', () => {
+    const background = { indices: [0, 0], width: 2, height: 1 };
+    const overlay = (disposal: number) => ({ indices: [1], width: 1, height: 1, left: 1, disposal });
+    const last = { indices: [2], width: 1, height: 1, transparent: 0 };
+
+    const cleared = [...decodeGifFrames(buildGif(2, 1, [RED, GREEN, BLUE], [background, overlay(2), last]))];
+    expect(colors(cleared[2])).toEqual([BLUE, null]);
+
+    const restored = [...decodeGifFrames(buildGif(2, 1, [RED, GREEN, BLUE], [background, overlay(3), last]))];
+    expect(colors(restored[1])).toEqual([RED, GREEN]);
+    expect(colors(restored[2])).toEqual([BLUE, RED]);
+  });
+
+  it('gives every frame its own pixels', () => {
+    const frames = [...decodeGifFrames(buildGif(1, 1, [RED, GREEN], [
+      { indices: [0], width: 1, height: 1 },
+      { indices: [1], width: 1, height: 1 },
+    ]))];
+    expect(frames.map(colors)).toEqual([[RED], [GREEN]]);
+  });
+
+  it('decodes frames only as they are asked for', () => {
+    const gif = buildGif(1, 1, [RED, GREEN], [{ indices: [0], width: 1, height: 1 }]);
+    // Replace the trailer with the start of an image that is cut off
+    const damaged = new Uint8Array([...gif.slice(0, -1), 0x2c, 0, 0]);
+    const frames = decodeGifFrames(damaged);
+    expect(colors(frames.next().value!)).toEqual([RED]);
+    expect(() => frames.next()).toThrow('truncated');
+  });
+
+  it('rejects files without frames', () => {
+    const empty = buildGif(1, 1, [RED, GREEN], []);
+    expect(() => [...decodeGifFrames(empty)]).toThrow('has no frames');
+  });
+});
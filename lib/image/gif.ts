@@ -0,0 +1,278 @@
+/**
+ * GIF Decoding
+ * Reads the frames of a (possibly animated) GIF one at a time into
+ * full-size rasters, applying each frame's disposal method so frames can
+ * be shown on their own. Frames are produced lazily, so callers that use
+ * each frame before asking for the next keep only one copy in memory.
+ * Pure, so it runs in the browser and on the server alike.
+ */
+
+import { createRaster, type Raster } from './raster';
+
+export interface GifFrame {
+  raster: Raster;
+  // How long the frame is shown, in milliseconds
+  delay: number;
+}
+
+export interface GifSize {
+  width: number;
+  height: number;
+}
+
+// Browsers show frames with a 0 or 10ms delay for 100ms, so match them
+const MIN_FRAME_DELAY = 20;
+const DEFAULT_FRAME_DELAY = 100;
+const MAX_LZW_CODE_SIZE = 12;
+
+// Byte reader with a cursor
+class GifReader {
+  position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.position >= this.bytes.length) {
+      throw new Error('The GIF file is truncated');
+    }
+    return this.bytes[this.position++];
+  }
+
+  uint16(): number {
+    return this.byte() | (this.byte() << 8);
+  }
+
+  take(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('The GIF file is truncated');
+    }
+    const slice = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  // Concatenated data sub-blocks, up to the zero length terminator
+  subBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (let size = this.byte(); size > 0; size = this.byte()) {
+      const chunk = this.take(size);
+      chunks.push(chunk);
+      total += size;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  }
+
+  colorTable(size: number): Uint8Array {
+    return this.take(size * 3);
+  }
+}
+
+// Variable code size LZW decompression of one frame's pixel indices
+function decodeLzw(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const tableSize = 1 << MAX_LZW_CODE_SIZE;
+  // Each code is the code it extends plus one byte
+  const prefix = new Uint16Array(tableSize);
+  const suffix = new Uint8Array(tableSize);
+  for (let code = 0; code < clearCode; code++) suffix[code] = code;
+  // A code's bytes come out last first, so collect them here
+  const stack = new Uint8Array(tableSize + 1);
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let first = 0;
+  let written = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  for (let i = 0; i < data.length && written < pixelCount; i++) {
+    bitBuffer |= data[i] << bitCount;
+    bitCount += 8;
+
+    while (bitCount >= codeSize && written < pixelCount) {
+      const code = bitBuffer & ((1 << codeSize) - 1);
+      bitBuffer >>>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) {
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+        previous = -1;
+        continue;
+      }
+      if (code === endCode || code > nextCode) return output;
+
+      if (previous === -1) {
+        if (code > clearCode) return output;
+        output[written++] = code;
+        previous = code;
+        first = code;
+        continue;
+      }
+
+      let depth = 0;
+      let current = code;
+      // The code being defined right now is the previous one plus its first byte
+      if (code === nextCode) {
+        stack[depth++] = first;
+        current = previous;
+      }
+      while (current > endCode) {
+        stack[depth++] = suffix[current];
+        current = prefix[current];
+      }
+      first = current;
+      stack[depth++] = first;
+      while (depth > 0 && written < pixelCount) output[written++] = stack[--depth];
+
+      if (nextCode < tableSize) {
+        prefix[nextCode] = previous;
+        suffix[nextCode] = first;
+        nextCode++;
+        if (nextCode === 1 << codeSize && codeSize < MAX_LZW_CODE_SIZE) codeSize++;
+      }
+      previous = code;
+    }
+  }
+  return output;
+}
+
+// Row order of interlaced images: every 8th row, then the 4s, 2s and the rest
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let row = start; row < height; row += step) rows.push(row);
+  }
+  return rows;
+}
+
+// Signature and logical screen size at the start of every GIF
+function readSize(reader: GifReader): GifSize {
+  const signature = String.fromCharCode(...Array.from(reader.take(6)));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('The file is not a GIF image');
+  }
+  return { width: reader.uint16(), height: reader.uint16() };
+}
+
+/**
+ * Read a GIF's canvas size from its header, without decoding any frames
+ * @param bytes Contents of the GIF file
+ * @throws Error when the file is not a GIF
+ */
+export const readGifSize = (bytes: Uint8Array): GifSize => readSize(new GifReader(bytes));
+
+/**
+ * Decode a GIF file frame by frame, each composited onto the full canvas.
+ * Every frame is a new raster; the next one is only decoded when asked for.
+ * @param bytes Contents of the GIF file
+ * @returns A generator of frames with their delays
+ * @throws Error when the file is not a GIF or is damaged
+ */
+export function* decodeGifFrames(bytes: Uint8Array): Generator<GifFrame, void, undefined> {
+  const reader = new GifReader(bytes);
+  const { width, height } = readSize(reader);
+  const flags = reader.byte();
+  reader.byte(); // background colour index; browsers draw transparent instead
+  reader.byte(); // pixel aspect ratio
+  const globalTable = flags & 0x80 ? reader.colorTable(2 << (flags & 0x07)) : null;
+
+  const canvas = createRaster(width, height);
+  let frameCount = 0;
+  // Graphic control extension values apply to the next image only
+  let delay = 0;
+  let transparentIndex = -1;
+  let disposal = 0;
+
+  while (!reader.done) {
+    const introducer = reader.byte();
+
+    if (introducer === 0x3b) break; // trailer
+
+    if (introducer === 0x21) {
+      const label = reader.byte();
+      if (label === 0xf9) {
+        const block = reader.subBlocks();
+        disposal = (block[0] >> 2) & 0x07;
+        transparentIndex = block[0] & 0x01 ? block[3] : -1;
+        delay = (block[1] | (block[2] << 8)) * 10;
+      } else {
+        reader.subBlocks();
+      }
+      continue;
+    }
+
+    if (introducer !== 0x2c) {
+      throw new Error('The GIF file is damaged');
+    }
+
+    const left = reader.uint16();
+    const top = reader.uint16();
+    const frameWidth = reader.uint16();
+    const frameHeight = reader.uint16();
+    const frameFlags = reader.byte();
+    const table = frameFlags & 0x80 ? reader.colorTable(2 << (frameFlags & 0x07)) : globalTable;
+    if (!table) {
+      throw new Error('The GIF file has no colour table');
+    }
+    const minCodeSize = reader.byte();
+    if (minCodeSize < 2 || minCodeSize > 11) {
+      throw new Error('The GIF file is damaged');
+    }
+    const indices = decodeLzw(reader.subBlocks(), minCodeSize, frameWidth * frameHeight);
+
+    // Disposal 3 restores what was under the frame once it has been shown
+    const previous = disposal === 3 ? new Uint8ClampedArray(canvas.data) : null;
+    const rows = frameFlags & 0x40 ? interlacedRows(frameHeight) : null;
+    for (let y = 0; y < frameHeight; y++) {
+      const canvasY = top + (rows ? rows[y] : y);
+      if (canvasY >= height) continue;
+      for (let x = 0; x < frameWidth; x++) {
+        const canvasX = left + x;
+        const index = indices[y * frameWidth + x];
+        if (canvasX >= width || index === transparentIndex || index * 3 >= table.length) continue;
+        const i = (canvasY * width + canvasX) * 4;
+        canvas.data[i] = table[index * 3];
+        canvas.data[i + 1] = table[index * 3 + 1];
+        canvas.data[i + 2] = table[index * 3 + 2];
+        canvas.data[i + 3] = 255;
+      }
+    }
+
+    frameCount++;
+    yield {
+      raster: { width, height, data: new Uint8ClampedArray(canvas.data) },
+      delay: delay < MIN_FRAME_DELAY ? DEFAULT_FRAME_DELAY : delay,
+    };
+
+    if (disposal === 2) {
+      // Clear the frame's area to transparent
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        canvas.data.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (previous) {
+      canvas.data.set(previous);
+    }
+    delay = 0;
+    transparentIndex = -1;
+    disposal = 0;
+  }
+
+  if (frameCount === 0) {
+    throw new Error('The GIF file has no frames');
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { detectPixelGrid, downscaleToGrid, upscaleInteger } from './grid';
+import { createRaster, resizeNearest, setPixel, type Raster, type RGB } from './raster';
+
+const PALETTE: RGB[] = [[20, 20, 40], [200, 60, 60], [60, 180, 90], [240, 220, 120], [80, 120, 230]];
+
+// A 16x16 sprite of palette colours in an irregular pattern
+const sprite = (): Raster => {
+  const raster = createRaster(16, 16);
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 16; x++) setPixel(raster, x, y, PALETTE[(x * 7 + y * 3 + ((x * y) % 5)) % PALETTE.length]);
+  }
+  return raster;
+};
+
+// Every pixel's colour, as [r, g, b, a]
+const pixels = (raster: Raster) =>
+  Array.from({ length: raster.width * raster.height }, (_, p) => Array.from(raster.data.slice(p * 4, p * 4 + 4)));
+
+// Blend each block edge column halfway into its left neighbour, like a resampled upscale
+const blurEdges = (raster: Raster, cellSize: number): Raster => {
+  const blurred = { ...raster, data: new Uint8ClampedArray(raster.data) };
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      if (x % cellSize !== 0 || x === 0) continue;
+      const i = (y * raster.width + x) * 4;
+      for (let c = 0; c < 3; c++) blurred.data[i + c] = (raster.data[i + c] + raster.data[i - 4 + c]) / 2;
+    }
+  }
+  return blurred;
+};
+
+describe('detectPixelGrid', () => {
+  it('finds the cell size and logical resolution of an upscaled sprite', () => {
+    expect(detectPixelGrid(resizeNearest(sprite(), 128, 128))).toEqual({ cellSize: 8, width: 16, height: 16 });
+    expect(detectPixelGrid(resizeNearest(sprite(), 48, 48))).toEqual({ cellSize: 3, width: 16, height: 16 });
+  });
+
+  it('still finds the grid when block edges are blurred', () => {
+    expect(detectPixelGrid(blurEdges(resizeNearest(sprite(), 128, 128), 8)).cellSize).toBe(8);
+  });
+
+  it('reports no grid for an image at its native resolution or a flat one', () => {
+    expect(detectPixelGrid(sprite())).toEqual({ cellSize: 1, width: 16, height: 16 });
+    const flat = createRaster(64, 64);
+    expect(detectPixelGrid(flat).cellSize).toBe(1);
+  });
+});
+
+describe('downscaleToGrid', () => {
+  it('recovers the original sprite from an upscale', () => {
+    expect(pixels(downscaleToGrid(resizeNearest(sprite(), 128, 128), 8))).toEqual(pixels(sprite()));
+  });
+
+  it('ignores blurred block edges', () => {
+    expect(pixels(downscaleToGrid(blurEdges(resizeNearest(sprite(), 128, 128), 8), 8))).toEqual(pixels(sprite()));
+  });
+
+  it('returns the image itself for a cell size of 1', () => {
+    const raster = sprite();
+    expect(downscaleToGrid(raster, 1)).toBe(raster);
+  });
+});
+
+describe('upscaleInteger', () => {
+  it('enlarges by a whole number with hard edges', () => {
+    const scaled = upscaleInteger(sprite(), 2.7);
+    expect([scaled.width, scaled.height]).toEqual([32, 32]);
+    expect(pixels(downscaleToGrid(scaled, 2))).toEqual(pixels(sprite()));
+  });
+
+  it('leaves the image alone for factors below 2', () => {
+    const raster = sprite();
+    expect(upscaleInteger(raster, 1.5)).toBe(raster);
+  });
+});
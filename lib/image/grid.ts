@@ -0,0 +1,144 @@
+/**
+ * Pixel Grid Detection
+ * Providers return pixel art upscaled to 256/512px, where every logical
+ * pixel is a block of several (often slightly blurred) pixels. These
+ * helpers recover the logical resolution and rescale by whole numbers,
+ * so exports stay crisp.
+ */
+
+import { createRaster, resizeNearest, type Raster } from './raster';
+
+export interface PixelGrid {
+  // Size in image pixels of one logical pixel; 1 when no grid was found
+  cellSize: number;
+  // Logical resolution
+  width: number;
+  height: number;
+}
+
+// Smallest logical resolution worth considering
+const MIN_LOGICAL_SIZE = 8;
+// How much stronger block edges must be than the inside of blocks
+const MIN_GRID_CONTRAST = 4;
+// Keeps perfectly flat block interiors from dividing by zero
+const DIFFERENCE_FLOOR = 1;
+
+// Average colour difference between each column (or row) and the previous one
+function edgeProfile(raster: Raster, axis: 'x' | 'y'): Float64Array {
+  const { width, height, data } = raster;
+  const length = axis === 'x' ? width : height;
+  const span = axis === 'x' ? height : width;
+  const profile = new Float64Array(length);
+
+  for (let position = 1; position < length; position++) {
+    let total = 0;
+    for (let along = 0; along < span; along++) {
+      const i = axis === 'x' ? (along * width + position) * 4 : (position * width + along) * 4;
+      const j = axis === 'x' ? i - 4 : i - width * 4;
+      total += Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1])
+        + Math.abs(data[i + 2] - data[j + 2]) + Math.abs(data[i + 3] - data[j + 3]);
+    }
+    profile[position] = total / span;
+  }
+  return profile;
+}
+
+/**
+ * Find the logical pixel grid of an upscaled pixel art image.
+ * Block edges line up with multiples of the cell size, so for the right
+ * size the colour changes between columns and rows concentrate on those
+ * multiples and the inside of the blocks stays (nearly) flat.
+ * @param raster The provider's image
+ * @returns The detected grid; cellSize 1 when the image has no coarser grid
+ */
+export const detectPixelGrid = (raster: Raster): PixelGrid => {
+  const columns = edgeProfile(raster, 'x');
+  const rows = edgeProfile(raster, 'y');
+  const maxCellSize = Math.floor(Math.min(raster.width, raster.height) / MIN_LOGICAL_SIZE);
+
+  let best: PixelGrid = { cellSize: 1, width: raster.width, height: raster.height };
+  let bestContrast = MIN_GRID_CONTRAST;
+
+  for (let cellSize = 2; cellSize <= maxCellSize; cellSize++) {
+    let edgeTotal = 0;
+    let edgeCount = 0;
+    let innerTotal = 0;
+    let innerCount = 0;
+    for (const profile of [columns, rows]) {
+      for (let position = 1; position < profile.length; position++) {
+        if (position % cellSize === 0) {
+          edgeTotal += profile[position];
+          edgeCount++;
+        } else {
+          innerTotal += profile[position];
+          innerCount++;
+        }
+      }
+    }
+    if (edgeCount === 0 || innerCount === 0) continue;
+
+    const contrast = (edgeTotal / edgeCount) / (innerTotal / innerCount + DIFFERENCE_FLOOR);
+    // Multiples of the true size also have flat insides but include real
+    // edges there, so the true size wins on contrast
+    if (contrast > bestContrast) {
+      bestContrast = contrast;
+      best = {
+        cellSize,
+        width: Math.floor(raster.width / cellSize),
+        height: Math.floor(raster.height / cellSize),
+      };
+    }
+  }
+  return best;
+};
+
+/**
+ * Reduce an upscaled image to one pixel per grid cell, using the most
+ * common colour of each cell's centre so blurred block edges are ignored
+ * @param raster The provider's image
+ * @param cellSize Result of detectPixelGrid
+ */
+export const downscaleToGrid = (raster: Raster, cellSize: number): Raster => {
+  if (cellSize <= 1) return raster;
+
+  const width = Math.floor(raster.width / cellSize);
+  const height = Math.floor(raster.height / cellSize);
+  const target = createRaster(width, height);
+  // Skip the outer quarter of larger cells, where blur from neighbours shows
+  const margin = cellSize >= 4 ? Math.floor(cellSize / 4) : 0;
+  const counts = new Map<number, number>();
+
+  for (let cellY = 0; cellY < height; cellY++) {
+    for (let cellX = 0; cellX < width; cellX++) {
+      counts.clear();
+      let bestIndex = -1;
+      let bestCount = 0;
+      for (let y = cellY * cellSize + margin; y < (cellY + 1) * cellSize - margin; y++) {
+        for (let x = cellX * cellSize + margin; x < (cellX + 1) * cellSize - margin; x++) {
+          const i = (y * raster.width + x) * 4;
+          const key = ((raster.data[i] << 24) | (raster.data[i + 1] << 16) | (raster.data[i + 2] << 8) | raster.data[i + 3]) >>> 0;
+          const count = (counts.get(key) || 0) + 1;
+          counts.set(key, count);
+          if (count > bestCount) {
+            bestCount = count;
+            bestIndex = i;
+          }
+        }
+      }
+
+      const t = (cellY * width + cellX) * 4;
+      target.data.set(raster.data.subarray(bestIndex, bestIndex + 4), t);
+    }
+  }
+  return target;
+};
+
+/**
+ * Enlarge an image by a whole number, keeping hard pixel edges
+ * @param raster Image to enlarge
+ * @param factor Integer scale, e.g. 4
+ */
+export const upscaleInteger = (raster: Raster, factor: number): Raster => {
+  const scale = Math.max(1, Math.floor(factor));
+  return scale === 1 ? raster : resizeNearest(raster, raster.width * scale, raster.height * scale);
+};
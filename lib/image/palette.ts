@@ -0,0 +1,99 @@
+/**
+ * Palettes
+ * Fixed console and community palettes plus parsing of custom hex lists,
+ * used to constrain generated images to a target palette.
+ */
+
+import type { RGB } from './raster';
+
+export const MIN_CUSTOM_PALETTE_SIZE = 2;
+export const MAX_CUSTOM_PALETTE_SIZE = 256;
+
+const NAMED_PALETTE_HEX = {
+  pico8: [
+    '000000', '1d2b53', '7e2553', '008751', 'ab5236', '5f574f', 'c2c3c7', 'fff1e8',
+    'ff004d', 'ffa300', 'ffec27', '00e436', '29adff', '83769c', 'ff77a8', 'ffccaa',
+  ],
+  // Original DMG green shades, darkest first
+  gameboy: ['0f380f', '306230', '8bac0f', '9bbc0f'],
+  // NES 2C02 colours, without the duplicated blacks
+  nes: [
+    '7c7c7c', '0000fc', '0000bc', '4428bc', '940084', 'a80020', 'a81000', '881400', '503000', '007800', '006800', '005800', '004058', '000000',
+    'bcbcbc', '0078f8', '0058f8', '6844fc', 'd800cc', 'e40058', 'f83800', 'e45c10', 'ac7c00', '00b800', '00a800', '00a844', '008888',
+    'f8f8f8', '3cbcfc', '6888fc', '9878f8', 'f878f8', 'f85898', 'f87858', 'fca044', 'f8b800', 'b8f818', '58d854', '58f898', '00e8d8', '787878',
+    'fcfcfc', 'a4e4fc', 'b8b8f8', 'd8b8f8', 'f8b8f8', 'f8a4c0', 'f0d0b0', 'fce0a8', 'f8d878', 'd8f878', 'b8f8b8', 'b8f8d8', '00fcfc', 'f8d8f8',
+  ],
+  // Full 16 colour CGA text mode palette
+  cga: [
+    '000000', '0000aa', '00aa00', '00aaaa', 'aa0000', 'aa00aa', 'aa5500', 'aaaaaa',
+    '555555', '5555ff', '55ff55', '55ffff', 'ff5555', 'ff55ff', 'ffff55', 'ffffff',
+  ],
+  endesga32: [
+    'be4a2f', 'd77643', 'ead4aa', 'e4a672', 'b86f50', '733e39', '3e2731', 'a22633',
+    'e43b44', 'f77622', 'feae34', 'fee761', '63c74d', '3e8948', '265c42', '193c3e',
+    '124e89', '0099db', '2ce8f5', 'ffffff', 'c0cbdc', '8b9bb4', '5a6988', '3a4466',
+    '262b44', '181425', 'ff0044', '68386c', 'b55088', 'f6757a', 'e8b796', 'c28569',
+  ],
+} as const;
+
+export type PaletteName = keyof typeof NAMED_PALETTE_HEX;
+
+export const PALETTE_NAMES = Object.keys(NAMED_PALETTE_HEX) as PaletteName[];
+
+// Other spellings people use for the built-in palettes
+const PALETTE_ALIASES: Record<string, PaletteName> = {
+  'pico-8': 'pico8',
+  gb: 'gameboy',
+  dmg: 'gameboy',
+  'game-boy': 'gameboy',
+  'endesga-32': 'endesga32',
+  endesga: 'endesga32',
+};
+
+const hexToRgb = (hex: string): RGB => [
+  parseInt(hex.slice(0, 2), 16),
+  parseInt(hex.slice(2, 4), 16),
+  parseInt(hex.slice(4, 6), 16),
+];
+
+/**
+ * Resolve a palette name or a comma separated list of hex colours
+ * @param spec e.g. "gameboy", "PICO-8" or "#1a1c2c,#5d275d,#b13e53"
+ * @returns The palette's colours
+ * @throws Error with a user-facing message when the spec is not valid
+ */
+export const parsePalette = (spec: string): RGB[] => {
+  const normalized = spec.trim().toLowerCase();
+  const name = PALETTE_ALIASES[normalized] || normalized;
+  if (name in NAMED_PALETTE_HEX) {
+    return NAMED_PALETTE_HEX[name as PaletteName].map(hexToRgb);
+  }
+
+  const entries = normalized.split(',').map(entry => entry.trim().replace(/^#/, ''));
+  if (entries.length < MIN_CUSTOM_PALETTE_SIZE) {
+    throw new Error(`must be one of ${PALETTE_NAMES.join(', ')} or a comma separated list of hex colours`);
+  }
+  if (entries.length > MAX_CUSTOM_PALETTE_SIZE) {
+    throw new Error(`custom palettes can have at most ${MAX_CUSTOM_PALETTE_SIZE} colours`);
+  }
+
+  return entries.map(entry => {
+    // Accept the short #rgb form as well
+    const hex = /^[0-9a-f]{3}$/.test(entry) ? entry.split('').map(digit => digit + digit).join('') : entry;
+    if (!/^[0-9a-f]{6}$/.test(hex)) {
+      throw new Error(`'${entry}' is not a hex colour`);
+    }
+    return hexToRgb(hex);
+  });
+};
+
+/**
+ * Short description of a palette spec for messages, e.g. "gameboy (4 colours)"
+ * @param spec A spec accepted by parsePalette
+ */
+export const describePalette = (spec: string): string => {
+  const normalized = spec.trim().toLowerCase();
+  const name = PALETTE_ALIASES[normalized] || normalized;
+  const size = parsePalette(spec).length;
+  return `${name in NAMED_PALETTE_HEX ? name : 'custom palette'} (${size} colours)`;
+};
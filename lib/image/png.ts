@@ -0,0 +1,71 @@
+/**
+ * PNG Encoding (server only)
+ * Converts between rasters, PNG buffers and data URLs.
+ */
+
+import { PNG } from 'pngjs';
+import type { Raster } from './raster';
+
+/**
+ * Encode a raster as a PNG file
+ * @param raster Pixels to encode
+ * @returns PNG file bytes
+ */
+export const encodePng = (raster: Raster): Buffer => {
+  const png = new PNG({ width: raster.width, height: raster.height });
+  png.data = Buffer.from(raster.data.buffer, raster.data.byteOffset, raster.data.byteLength);
+  return PNG.sync.write(png);
+};
+
+// Offsets of the IHDR chunk, which the PNG format requires to come first
+const IHDR_TYPE_OFFSET = 12;
+const IHDR_WIDTH_OFFSET = 16;
+const IHDR_HEIGHT_OFFSET = 20;
+
+/**
+ * Read a PNG's dimensions from its header without decoding any pixels,
+ * so oversized images can be rejected before they are inflated
+ * @param buffer PNG file bytes
+ * @returns The width and height, or null when the header is missing
+ */
+export const readPngSize = (buffer: Buffer): { width: number; height: number } | null => {
+  if (buffer.length < IHDR_HEIGHT_OFFSET + 4 || buffer.toString('latin1', IHDR_TYPE_OFFSET, IHDR_TYPE_OFFSET + 4) !== 'IHDR') {
+    return null;
+  }
+  return { width: buffer.readUInt32BE(IHDR_WIDTH_OFFSET), height: buffer.readUInt32BE(IHDR_HEIGHT_OFFSET) };
+};
+
+/**
+ * Decode a PNG file into a raster
+ * @param buffer PNG file bytes
+ * @returns The decoded RGBA pixels
+ */
+export const decodePng = (buffer: Buffer): Raster => {
+  const png = PNG.sync.read(buffer);
+  return {
+    width: png.width,
+    height: png.height,
+    data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.byteLength),
+  };
+};
+
+/**
+ * Encode a raster as a PNG data URL
+ * @param raster Pixels to encode
+ */
+export const rasterToDataUrl = (raster: Raster): string => {
+  return `data:image/png;base64,${encodePng(raster).toString('base64')}`;
+};
+
+/**
+ * Decode a PNG data URL into a raster
+ * @param dataUrl A data:image/png;base64 URL
+ * @throws Error when the URL is not a base64 PNG
+ */
+export const dataUrlToRaster = (dataUrl: string): Raster => {
+  const match = dataUrl.match(/^data:image\/png;base64,(.+)$/);
+  if (!match) {
+    throw new Error('Expected a base64 PNG data URL');
+  }
+  return decodePng(Buffer.from(match[1], 'base64'));
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { describePalette, parsePalette } from './palette';
+import { extractPalette, nearestPaletteIndex, quantizeRaster } from './quantize';
+import { createRaster, setPixel, type Raster, type RGB } from './raster';
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [255, 255, 255];
+
+// An opaque image coloured pixel by pixel
+const paint = (width: number, height: number, color: (x: number, y: number) => RGB): Raster => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) setPixel(raster, x, y, color(x, y));
+  }
+  return raster;
+};
+
+// Every pixel's colour, as [r, g, b, a]
+const pixels = (raster: Raster) =>
+  Array.from({ length: raster.width * raster.height }, (_, p) => Array.from(raster.data.slice(p * 4, p * 4 + 4)));
+
+const countWhite = (raster: Raster) => pixels(raster).filter(([r]) => r === 255).length;
+
+describe('parsePalette', () => {
+  it('resolves names and aliases', () => {
+    expect(parsePalette('gameboy')).toEqual([[15, 56, 15], [48, 98, 48], [139, 172, 15], [155, 188, 15]]);
+    expect(parsePalette(' PICO-8 ')).toHaveLength(16);
+    expect(parsePalette('dmg')).toEqual(parsePalette('gameboy'));
+  });
+
+  it('parses custom hex lists, including the short form', () => {
+    expect(parsePalette('#1a1c2c, fff')).toEqual([[26, 28, 44], [255, 255, 255]]);
+  });
+
+  it('rejects unknown names and bad colours', () => {
+    expect(() => parsePalette('sepia')).toThrow('must be one of');
+    expect(() => parsePalette('#000000,#12345')).toThrow("'12345' is not a hex colour");
+  });
+
+  it('describes named and custom palettes', () => {
+    expect(describePalette('GB')).toBe('gameboy (4 colours)');
+    expect(describePalette('000,fff')).toBe('custom palette (2 colours)');
+  });
+});
+
+describe('nearestPaletteIndex', () => {
+  it('picks the closest colour', () => {
+    const palette: RGB[] = [BLACK, [255, 0, 0], WHITE];
+    expect(nearestPaletteIndex(palette, 20, 10, 10)).toBe(0);
+    expect(nearestPaletteIndex(palette, 200, 30, 40)).toBe(1);
+    expect(nearestPaletteIndex(palette, 230, 220, 240)).toBe(2);
+  });
+});
+
+describe('quantizeRaster', () => {
+  it('maps every pixel to its nearest palette colour without touching the source', () => {
+    const source = paint(2, 1, x => (x === 0 ? [40, 30, 20] : [210, 220, 200]));
+    const before = Array.from(source.data);
+    expect(pixels(quantizeRaster(source, [BLACK, WHITE]))).toEqual([[0, 0, 0, 255], [255, 255, 255, 255]]);
+    expect(Array.from(source.data)).toEqual(before);
+  });
+
+  it('makes alpha binary', () => {
+    const source = createRaster(3, 1);
+    setPixel(source, 0, 0, WHITE, 200);
+    setPixel(source, 1, 0, WHITE, 100);
+    expect(pixels(quantizeRaster(source, [BLACK, WHITE]))).toEqual([[255, 255, 255, 255], [0, 0, 0, 0], [0, 0, 0, 0]]);
+  });
+
+  it('rejects an empty palette', () => {
+    expect(() => quantizeRaster(createRaster(1, 1), [])).toThrow('empty palette');
+  });
+
+  describe('dithering', () => {
+    const grey = paint(8, 8, () => [128, 128, 128]);
+
+    it('gives a flat colour without dithering', () => {
+      expect(countWhite(quantizeRaster(grey, [BLACK, WHITE]))).toBe(64);
+    });
+
+    it('mixes the two nearest colours in an ordered pattern', () => {
+      const bayer2 = quantizeRaster(grey, [BLACK, WHITE], 'bayer2');
+      expect(pixels(bayer2).slice(0, 2).map(([r]) => r)).toEqual([0, 255]);
+      expect(pixels(bayer2).slice(8, 10).map(([r]) => r)).toEqual([255, 0]);
+      expect(countWhite(bayer2)).toBe(32);
+      expect(countWhite(quantizeRaster(grey, [BLACK, WHITE], 'bayer8'))).toBe(32);
+    });
+
+    it('diffuses the error so the average tone is kept', () => {
+      // Error pushed past the right and bottom edges is lost, so allow one pixel
+      const dark = paint(8, 8, () => [64, 64, 64]);
+      const dithered = [countWhite(quantizeRaster(dark, [BLACK, WHITE], 'floyd-steinberg')), countWhite(quantizeRaster(grey, [BLACK, WHITE], 'floyd-steinberg'))];
+      expect(Math.abs(dithered[0] - 16)).toBeLessThanOrEqual(1);
+      expect(Math.abs(dithered[1] - 32)).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe('extractPalette', () => {
+  it('finds the colours of an image with few colours', () => {
+    const source = paint(4, 4, x => (x < 2 ? [200, 20, 20] : [20, 20, 200]));
+    expect(extractPalette(source, 4).sort()).toEqual([[20, 20, 200], [200, 20, 20]]);
+  });
+
+  it('averages groups when asked for fewer colours', () => {
+    const source = paint(4, 1, x => [x * 60, 0, 0]);
+    expect(extractPalette(source, 1)).toEqual([[90, 0, 0]]);
+    expect(extractPalette(source, 2)).toEqual([[30, 0, 0], [150, 0, 0]]);
+  });
+
+  it('ignores transparent pixels and falls back to black', () => {
+    const source = createRaster(2, 1);
+    expect(extractPalette(source, 4)).toEqual([BLACK]);
+    setPixel(source, 1, 0, [10, 20, 30]);
+    expect(extractPalette(source, 4)).toEqual([[10, 20, 30]]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Palette Quantization
+ * Maps every pixel of a raster onto a fixed palette, optionally with
+ * ordered (Bayer) or Floyd–Steinberg dithering. Pure functions so they
+ * run on the server and in the browser alike.
+ */
+
+import { createRaster, type Raster, type RGB } from './raster';
+
+export const DITHER_MODES = ['none', 'bayer2', 'bayer4', 'bayer8', 'floyd-steinberg'] as const;
+export type DitherMode = typeof DITHER_MODES[number];
+
+// Pixels less opaque than this become fully transparent; the rest fully opaque
+const ALPHA_THRESHOLD = 128;
+// Pixels looked at when picking a palette from an image
+const MAX_PALETTE_SAMPLES = 65536;
+
+// Build the n x n Bayer threshold matrix (n a power of two), values 0..n*n-1
+function bayerMatrix(size: number): number[][] {
+  let matrix = [[0]];
+  while (matrix.length < size) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array(n * 2).fill(0));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const value = matrix[y][x] * 4;
+        next[y][x] = value;
+        next[y][x + n] = value + 2;
+        next[y + n][x] = value + 3;
+        next[y + n][x + n] = value + 1;
+      }
+    }
+    matrix = next;
+  }
+  return matrix;
+}
+
+const BAYER_SIZES: Partial<Record<DitherMode, number>> = { bayer2: 2, bayer4: 4, bayer8: 8 };
+
+/**
+ * Find the palette colour closest to an RGB value.
+ * Uses the "redmean" weighted distance, which tracks perceived
+ * difference noticeably better than plain RGB distance.
+ * @param palette Colours to choose from
+ * @returns Index into the palette
+ */
+export const nearestPaletteIndex = (palette: RGB[], r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let index = 0; index < palette.length; index++) {
+    const [pr, pg, pb] = palette[index];
+    const redMean = (r + pr) / 2;
+    const dr = r - pr;
+    const dg = g - pg;
+    const db = b - pb;
+    const distance = (2 + redMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - redMean) / 256) * db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  }
+  return best;
+};
+
+/**
+ * Reduce a raster to the colours of a palette
+ * @param source Raster to quantize; it is not modified
+ * @param palette Target colours, at least one
+ * @param dither Dithering to apply while mapping colours
+ * @returns A new raster using only palette colours and binary alpha
+ */
+export const quantizeRaster = (source: Raster, palette: RGB[], dither: DitherMode = 'none'): Raster => {
+  if (palette.length === 0) {
+    throw new Error('Cannot quantize to an empty palette');
+  }
+
+  const { width, height } = source;
+  const target = createRaster(width, height);
+  // Many pixels share a colour, so remember the answers of undithered lookups
+  const cache = new Map<number, number>();
+  const lookup = (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = nearestPaletteIndex(palette, r, g, b);
+      cache.set(key, index);
+    }
+    return palette[index];
+  };
+
+  const write = (i: number, color: RGB) => {
+    target.data[i] = color[0];
+    target.data[i + 1] = color[1];
+    target.data[i + 2] = color[2];
+    target.data[i + 3] = 255;
+  };
+
+  if (dither === 'floyd-steinberg') {
+    // Work on a float copy so diffused error can go below 0 or above 255
+    const buffer = new Float32Array(width * height * 3);
+    for (let p = 0; p < width * height; p++) {
+      buffer[p * 3] = source.data[p * 4];
+      buffer[p * 3 + 1] = source.data[p * 4 + 1];
+      buffer[p * 3 + 2] = source.data[p * 4 + 2];
+    }
+
+    const spread = (x: number, y: number, error: number[], weight: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const p = (y * width + x) * 3;
+      buffer[p] += error[0] * weight;
+      buffer[p + 1] += error[1] * weight;
+      buffer[p + 2] += error[2] * weight;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        // Transparent pixels neither take nor pass on error
+        if (source.data[p * 4 + 3] < ALPHA_THRESHOLD) continue;
+
+        const r = Math.max(0, Math.min(255, Math.round(buffer[p * 3])));
+        const g = Math.max(0, Math.min(255, Math.round(buffer[p * 3 + 1])));
+        const b = Math.max(0, Math.min(255, Math.round(buffer[p * 3 + 2])));
+        const color = lookup(r, g, b);
+        write(p * 4, color);
+
+        const error = [buffer[p * 3] - color[0], buffer[p * 3 + 1] - color[1], buffer[p * 3 + 2] - color[2]];
+        spread(x + 1, y, error, 7 / 16);
+        spread(x - 1, y + 1, error, 3 / 16);
+        spread(x, y + 1, error, 5 / 16);
+        spread(x + 1, y + 1, error, 1 / 16);
+      }
+    }
+    return target;
+  }
+
+  const bayerSize = BAYER_SIZES[dither];
+  const matrix = bayerSize ? bayerMatrix(bayerSize) : null;
+  // Smaller palettes have larger gaps between colours, so they need a stronger offset
+  const strength = 255 / Math.cbrt(palette.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (source.data[i + 3] < ALPHA_THRESHOLD) continue;
+
+      if (!matrix) {
+        write(i, lookup(source.data[i], source.data[i + 1], source.data[i + 2]));
+        continue;
+      }
+
+      const threshold = ((matrix[y % matrix.length][x % matrix.length] + 0.5) / (matrix.length * matrix.length) - 0.5) * strength;
+      write(i, lookup(
+        Math.max(0, Math.min(255, Math.round(source.data[i] + threshold))),
+        Math.max(0, Math.min(255, Math.round(source.data[i + 1] + threshold))),
+        Math.max(0, Math.min(255, Math.round(source.data[i + 2] + threshold)))
+      ));
+    }
+  }
+  return target;
+};
+
+/**
+ * Pick a small palette that represents an image, by median cut: the
+ * opaque pixels are split repeatedly along their widest colour channel
+ * and each group's average becomes a palette colour
+ * @param source Image to take colours from
+ * @param maxColors Palette size to aim for
+ * @returns Between one and maxColors colours; black for a fully transparent image
+ */
+export const extractPalette = (source: Raster, maxColors: number): RGB[] => {
+  const pixels: RGB[] = [];
+  // Large images are sampled; a palette does not need every pixel
+  const step = Math.max(1, Math.floor(source.width * source.height / MAX_PALETTE_SAMPLES)) * 4;
+  for (let i = 0; i < source.data.length; i += step) {
+    if (source.data[i + 3] >= ALPHA_THRESHOLD) {
+      pixels.push([source.data[i], source.data[i + 1], source.data[i + 2]]);
+    }
+  }
+  if (pixels.length === 0) return [[0, 0, 0]];
+
+  const boxes: RGB[][] = [pixels];
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range
+    let widest = -1;
+    let widestChannel = 0;
+    let widestRange = 0;
+    boxes.forEach((box, index) => {
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255;
+        let max = 0;
+        for (const pixel of box) {
+          min = Math.min(min, pixel[channel]);
+          max = Math.max(max, pixel[channel]);
+        }
+        if (max - min > widestRange) {
+          widest = index;
+          widestChannel = channel;
+          widestRange = max - min;
+        }
+      }
+    });
+    // Every box is a single colour already
+    if (widest === -1) break;
+
+    const box = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const total = [0, 0, 0];
+    for (const pixel of box) {
+      total[0] += pixel[0];
+      total[1] += pixel[1];
+      total[2] += pixel[2];
+    }
+    return [Math.round(total[0] / box.length), Math.round(total[1] / box.length), Math.round(total[2] / box.length)] as RGB;
+  });
+};
@@ -0,0 +1,79 @@
+/**
+ * Raster Images
+ * Minimal RGBA pixel buffer shared by the image processing helpers.
+ * The shape matches the browser's ImageData, so canvas pixels can be
+ * passed in directly on the client.
+ */
+
+export interface Raster {
+  width: number;
+  height: number;
+  // RGBA bytes, row-major, 4 per pixel
+  data: Uint8ClampedArray;
+}
+
+export type RGB = [number, number, number];
+
+/**
+ * Allocate a blank (transparent black) raster
+ * @param width Width in pixels
+ * @param height Height in pixels
+ */
+export const createRaster = (width: number, height: number): Raster => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+/**
+ * Set a single pixel
+ * @param raster Raster to modify
+ * @param x Column
+ * @param y Row
+ * @param color RGB color
+ * @param alpha Alpha value (0-255)
+ */
+export const setPixel = (raster: Raster, x: number, y: number, color: RGB, alpha = 255): void => {
+  const i = (y * raster.width + x) * 4;
+  raster.data[i] = color[0];
+  raster.data[i + 1] = color[1];
+  raster.data[i + 2] = color[2];
+  raster.data[i + 3] = alpha;
+};
+
+/**
+ * Nearest-neighbour resize, keeping hard pixel edges
+ * @param source Raster to resize
+ * @param width Target width
+ * @param height Target height
+ */
+export const resizeNearest = (source: Raster, width: number, height: number): Raster => {
+  const target = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(source.height - 1, Math.floor((y * source.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(source.width - 1, Math.floor((x * source.width) / width));
+      const si = (sy * source.width + sx) * 4;
+      const ti = (y * width + x) * 4;
+      target.data[ti] = source.data[si];
+      target.data[ti + 1] = source.data[si + 1];
+      target.data[ti + 2] = source.data[si + 2];
+      target.data[ti + 3] = source.data[si + 3];
+    }
+  }
+  return target;
+};
+
+/**
+ * Mix two rasters of the same size pixel by pixel
+ * @param base Raster shown at amount 0
+ * @param overlay Raster shown at amount 1
+ * @param amount Share of the overlay, between 0 and 1
+ */
+export const blendRasters = (base: Raster, overlay: Raster, amount: number): Raster => {
+  const target = createRaster(base.width, base.height);
+  for (let i = 0; i < target.data.length; i++) {
+    target.data[i] = base.data[i] + (overlay.data[i] - base.data[i]) * amount;
+  }
+  return target;
+};
@@ -0,0 +1,53 @@
+/**
+ * Remote Images (server only)
+ * Hosts the server may fetch generated images from, and loading of an
+ * image URL (remote or data URL) into a raster for post-processing.
+ */
+
+import { dataUrlToRaster, decodePng } from './png';
+import type { Raster } from './raster';
+import { isStoredImageUrl } from './storage';
+
+// Only fetch images from the provider's own hosts
+export const ALLOWED_IMAGE_HOSTS = [
+  'api.retrodiffusion.ai',
+  'da8ztllw6by0f.cloudfront.net',
+  'cloudfront.net'
+];
+
+// Time allowed for downloading a remote image
+const FETCH_TIMEOUT_MS = 20000;
+
+/**
+ * Check whether a URL points at one of the allowed image hosts or at a
+ * generated image in the project's storage
+ * @param url Absolute URL
+ */
+export const isAllowedImageUrl = (url: URL): boolean => {
+  return isStoredImageUrl(url) || ALLOWED_IMAGE_HOSTS.some(domain =>
+    url.hostname === domain ||
+    url.hostname.endsWith('.' + domain)
+  );
+};
+
+/**
+ * Load a PNG image into a raster
+ * @param imageUrl A PNG data URL or an https URL on an allowed host
+ * @throws Error when the URL is not allowed or the image is not a PNG
+ */
+export const loadImageRaster = async (imageUrl: string): Promise<Raster> => {
+  if (imageUrl.startsWith('data:')) {
+    return dataUrlToRaster(imageUrl);
+  }
+
+  const url = new URL(imageUrl);
+  if (url.protocol !== 'https:' || !isAllowedImageUrl(url)) {
+    throw new Error(`Images cannot be loaded from ${url.hostname}`);
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  return decodePng(Buffer.from(await response.arrayBuffer()));
+};
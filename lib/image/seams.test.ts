@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createRaster, resizeNearest, setPixel, type Raster, type RGB } from './raster';
+import { blendSeams, MAX_SEAM_RATIO, measureSeams } from './seams';
+
+// An opaque image coloured pixel by pixel
+const paint = (width: number, height: number, color: (x: number, y: number) => RGB): Raster => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) setPixel(raster, x, y, color(x, y));
+  }
+  return raster;
+};
+
+// Waves that repeat exactly once across the tile in both directions
+const tiling = () => paint(32, 32, (x, y) => {
+  const value = Math.round(128 + 60 * Math.sin((2 * Math.PI * x) / 32) + 60 * Math.cos((2 * Math.PI * y) / 32));
+  return [value, 255 - value, 128];
+});
+
+// Left to right ramp: smooth inside, a hard jump where it wraps
+const horizontalRamp = () => paint(32, 32, x => [x * 8, x * 8, x * 8]);
+
+describe('measureSeams', () => {
+  it('passes an image that wraps smoothly', () => {
+    const report = measureSeams(tiling(), ['x', 'y']);
+    expect(report.passed).toBe(true);
+    expect(report.x).toBeLessThanOrEqual(MAX_SEAM_RATIO);
+    expect(report.y).toBeLessThanOrEqual(MAX_SEAM_RATIO);
+  });
+
+  it('fails an image with a visible seam, only along that axis', () => {
+    const report = measureSeams(horizontalRamp(), ['x', 'y']);
+    expect(report.passed).toBe(false);
+    expect(report.x).toBeGreaterThan(MAX_SEAM_RATIO * 5);
+    expect(report.y).toBe(0);
+  });
+
+  it('checks only the axes asked for', () => {
+    expect(measureSeams(horizontalRamp(), ['y'])).toEqual({ passed: true, y: 0 });
+  });
+
+  it('judges upscaled pixel art by its logical pixels', () => {
+    const upscaled = resizeNearest(tiling(), 256, 256);
+    expect(measureSeams(upscaled, ['x', 'y'])).toEqual(measureSeams(tiling(), ['x', 'y']));
+    expect(measureSeams(resizeNearest(horizontalRamp(), 256, 256), ['x']).passed).toBe(false);
+  });
+});
+
+describe('blendSeams', () => {
+  it('hides the seam so the image passes the check', () => {
+    const ramp = horizontalRamp();
+    const blended = blendSeams(ramp, ['x']);
+    expect([blended.width, blended.height]).toEqual([32, 32]);
+    expect(measureSeams(blended, ['x']).passed).toBe(true);
+    // The middle of the tile is left alone, and so is the source
+    expect(blended.data[16 * 4]).toBe(ramp.data[16 * 4]);
+    expect(ramp.data[0]).toBe(0);
+  });
+
+  it('keeps the size and pixel grid of upscaled images', () => {
+    const blended = blendSeams(resizeNearest(horizontalRamp(), 128, 128), ['x']);
+    expect([blended.width, blended.height]).toEqual([128, 128]);
+    expect(blended.data.slice(0, 4)).toEqual(blended.data.slice(12, 16));
+    expect(measureSeams(blended, ['x']).passed).toBe(true);
+  });
+});
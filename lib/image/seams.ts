@@ -0,0 +1,108 @@
+/**
+ * Seamless Tiling Checks
+ * Measures how visible the seam is where a tiling image wraps around,
+ * and hides a seam by cross-fading the opposite edges. Both work on the
+ * logical pixel grid, so upscaled pixel art is judged and repaired by
+ * its real pixels. Pure, so it runs on the server and in the browser.
+ */
+
+import { detectPixelGrid, downscaleToGrid } from './grid';
+import { createRaster, resizeNearest, type Raster } from './raster';
+
+export type SeamAxis = 'x' | 'y';
+
+export interface SeamReport {
+  // Colour difference across the wrap-around edge divided by the typical
+  // difference between neighbouring pixels; about 1 for a seamless tile
+  x?: number;
+  y?: number;
+  passed: boolean;
+}
+
+// Wrap edges may differ this much more than neighbouring pixels do
+export const MAX_SEAM_RATIO = 2;
+// Keeps flat images from dividing by zero
+const DIFFERENCE_FLOOR = 4;
+// Share of the tile cross-faded on each side of a seam
+const BLEND_SHARE = 1 / 8;
+
+// Summed RGBA difference of two pixels
+function pixelDifference(data: Uint8ClampedArray, i: number, j: number): number {
+  return Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1])
+    + Math.abs(data[i + 2] - data[j + 2]) + Math.abs(data[i + 3] - data[j + 3]);
+}
+
+// Index of the pixel at a position along the axis and a position across it
+function pixelIndex(raster: Raster, axis: SeamAxis, along: number, across: number): number {
+  return axis === 'x' ? (across * raster.width + along) * 4 : (along * raster.width + across) * 4;
+}
+
+// Seam ratio of one axis of a logical resolution image
+function seamRatio(raster: Raster, axis: SeamAxis): number {
+  const length = axis === 'x' ? raster.width : raster.height;
+  const span = axis === 'x' ? raster.height : raster.width;
+  let seam = 0;
+  let interior = 0;
+
+  for (let across = 0; across < span; across++) {
+    seam += pixelDifference(raster.data, pixelIndex(raster, axis, length - 1, across), pixelIndex(raster, axis, 0, across));
+    for (let along = 1; along < length; along++) {
+      interior += pixelDifference(raster.data, pixelIndex(raster, axis, along - 1, across), pixelIndex(raster, axis, along, across));
+    }
+  }
+  return (seam / span) / (interior / (span * Math.max(1, length - 1)) + DIFFERENCE_FLOOR);
+}
+
+/**
+ * Check whether an image wraps around without a visible seam
+ * @param raster The image, upscaled or not
+ * @param axes Directions the image is meant to tile in
+ * @returns The seam ratio of each axis checked, and whether all are within MAX_SEAM_RATIO
+ */
+export const measureSeams = (raster: Raster, axes: SeamAxis[]): SeamReport => {
+  const logical = downscaleToGrid(raster, detectPixelGrid(raster).cellSize);
+  const report: SeamReport = { passed: true };
+  for (const axis of axes) {
+    const ratio = seamRatio(logical, axis);
+    report[axis] = ratio;
+    report.passed = report.passed && ratio <= MAX_SEAM_RATIO;
+  }
+  return report;
+};
+
+/**
+ * Hide the seams of a tiling image by cross-fading each edge with the
+ * opposite one, strongest right at the edge, so both sides meet in the
+ * same colours
+ * @param raster The image, upscaled or not; it is not modified
+ * @param axes Directions the image is meant to tile in
+ * @returns A new image at the same size
+ */
+export const blendSeams = (raster: Raster, axes: SeamAxis[]): Raster => {
+  const { cellSize } = detectPixelGrid(raster);
+  const logical = downscaleToGrid(raster, cellSize);
+  const blended = createRaster(logical.width, logical.height);
+  blended.data.set(logical.data);
+
+  for (const axis of axes) {
+    const length = axis === 'x' ? blended.width : blended.height;
+    const span = axis === 'x' ? blended.height : blended.width;
+    const band = Math.max(1, Math.round(length * BLEND_SHARE));
+    const source = new Uint8ClampedArray(blended.data);
+
+    for (let offset = 0; offset < band; offset++) {
+      // Half and half at the edge, fading out towards the inside
+      const weight = 0.5 * (1 - offset / band);
+      for (let across = 0; across < span; across++) {
+        const near = pixelIndex(blended, axis, offset, across);
+        const far = pixelIndex(blended, axis, length - 1 - offset, across);
+        for (let channel = 0; channel < 4; channel++) {
+          blended.data[near + channel] = source[near + channel] * (1 - weight) + source[far + channel] * weight;
+          blended.data[far + channel] = source[far + channel] * (1 - weight) + source[near + channel] * weight;
+        }
+      }
+    }
+  }
+
+  return cellSize > 1 ? resizeNearest(blended, raster.width, raster.height) : blended;
+};
@@ -0,0 +1,163 @@
+/**
+ * Sprite Sheets
+ * Packs animation frames or tiles into one image in a grid and describes
+ * where each one is in a JSON atlas. The atlas uses the array layout that
+ * Aseprite and TexturePacker export, which Phaser, PixiJS and most
+ * engine importers read as is.
+ */
+
+import { createRaster, resizeNearest, type Raster } from './raster';
+
+// Wide sheets are wrapped into rows to stay within texture size limits
+const MAX_SHEET_COLUMNS = 8;
+
+export interface SpriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteAtlasFrame {
+  filename: string;
+  frame: SpriteRect;
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: SpriteRect;
+  sourceSize: { w: number; h: number };
+  // How long the frame is shown, in milliseconds
+  duration: number;
+}
+
+export interface SpriteFrameTag {
+  name: string;
+  from: number;
+  to: number;
+  direction: 'forward' | 'reverse' | 'pingpong';
+}
+
+export interface SpriteAtlas {
+  frames: SpriteAtlasFrame[];
+  meta: {
+    app: string;
+    // File name of the sheet image, next to the atlas
+    image: string;
+    format: 'RGBA8888';
+    size: { w: number; h: number };
+    scale: '1';
+    frameTags: SpriteFrameTag[];
+  };
+}
+
+export interface SpriteSheetLayout {
+  frameWidth: number;
+  frameHeight: number;
+  frameCount: number;
+  columns: number;
+  rows: number;
+}
+
+export interface SpriteAtlasOptions {
+  // Animation or tileset name, used for frame names and the frame tag
+  name: string;
+  image: string;
+  // One per frame; sheets without them (tilesets) get no animation tag
+  durations?: number[];
+}
+
+// Frame time Aseprite gives frames that have none
+const DEFAULT_FRAME_DURATION = 100;
+
+/**
+ * Grid a number of equally sized frames will be packed into
+ * @param frameCount Frames in the animation
+ * @param frameWidth Width of one frame in pixels
+ * @param frameHeight Height of one frame in pixels
+ * @param columns Frames per row; up to 8 in one row when not given
+ */
+export const spriteSheetLayout = (frameCount: number, frameWidth: number, frameHeight: number, columns?: number): SpriteSheetLayout => {
+  const perRow = Math.max(1, Math.min(frameCount, columns ?? MAX_SHEET_COLUMNS));
+  return { frameWidth, frameHeight, frameCount, columns: perRow, rows: Math.ceil(frameCount / perRow) };
+};
+
+/**
+ * Position of a frame on the sheet
+ * @param layout Result of spriteSheetLayout
+ * @param index Frame number, from 0
+ */
+export const spriteFrameRect = (layout: SpriteSheetLayout, index: number): SpriteRect => ({
+  x: (index % layout.columns) * layout.frameWidth,
+  y: Math.floor(index / layout.columns) * layout.frameHeight,
+  w: layout.frameWidth,
+  h: layout.frameHeight,
+});
+
+/**
+ * Pack frames left to right, top to bottom into one image. Frames of a
+ * different size than the first are resized to match it.
+ * @param frames Frames in playback order, at least one
+ * @param columns Frames per row, as for spriteSheetLayout
+ * @returns The sheet and its layout
+ */
+export const assembleSpriteSheet = (frames: Raster[], columns?: number): { sheet: Raster; layout: SpriteSheetLayout } => {
+  if (frames.length === 0) {
+    throw new Error('A sprite sheet needs at least one frame');
+  }
+
+  const { width, height } = frames[0];
+  const layout = spriteSheetLayout(frames.length, width, height, columns);
+  const sheet = createRaster(layout.columns * width, layout.rows * height);
+
+  frames.forEach((frame, index) => {
+    const source = frame.width === width && frame.height === height ? frame : resizeNearest(frame, width, height);
+    const { x, y } = spriteFrameRect(layout, index);
+    for (let row = 0; row < height; row++) {
+      const start = row * width * 4;
+      sheet.data.set(source.data.subarray(start, start + width * 4), ((y + row) * sheet.width + x) * 4);
+    }
+  });
+  return { sheet, layout };
+};
+
+/**
+ * Copy one frame out of a sheet
+ * @param sheet Sheet image
+ * @param rect Frame rectangle, e.g. from the atlas
+ */
+export const cropSpriteFrame = (sheet: Raster, rect: SpriteRect): Raster => {
+  const frame = createRaster(rect.w, rect.h);
+  for (let row = 0; row < rect.h; row++) {
+    const start = ((rect.y + row) * sheet.width + rect.x) * 4;
+    frame.data.set(sheet.data.subarray(start, start + rect.w * 4), row * rect.w * 4);
+  }
+  return frame;
+};
+
+/**
+ * Describe a sheet's frames, timing and animation tag as a JSON atlas
+ * @param layout Layout of the sheet
+ * @param options Animation name, sheet file name and frame durations
+ */
+export const buildSpriteAtlas = (layout: SpriteSheetLayout, options: SpriteAtlasOptions): SpriteAtlas => {
+  const frames = Array.from({ length: layout.frameCount }, (_, index) => ({
+    filename: `${options.name}_${index}`,
+    frame: spriteFrameRect(layout, index),
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: layout.frameWidth, h: layout.frameHeight },
+    sourceSize: { w: layout.frameWidth, h: layout.frameHeight },
+    duration: options.durations?.[index] ?? DEFAULT_FRAME_DURATION,
+  }));
+
+  return {
+    frames,
+    meta: {
+      app: 'promixel',
+      image: options.image,
+      format: 'RGBA8888',
+      size: { w: layout.columns * layout.frameWidth, h: layout.rows * layout.frameHeight },
+      scale: '1',
+      frameTags: options.durations ? [{ name: options.name, from: 0, to: layout.frameCount - 1, direction: 'forward' }] : [],
+    },
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * Generated Image Storage (server only)
+ * Generated images are uploaded to a public Supabase Storage bucket and
+ * history and gallery rows keep the object's URL, so pages of them stay
+ * small. Objects are named at random under the owner's id; only the
+ * server uploads, with the service role.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const GENERATION_IMAGE_BUCKET = 'generations';
+
+/**
+ * Upload a generated image to storage
+ * @param supabase Service role client; users cannot write to the bucket
+ * @param userId Owner of the image
+ * @param imageUrl PNG data URL; remote provider URLs are returned unchanged
+ * @returns The public URL to store for the image
+ * @throws Error when the upload fails
+ */
+export const storeGenerationImage = async (supabase: SupabaseClient, userId: string, imageUrl: string): Promise<string> => {
+  const match = imageUrl.match(/^data:image\/png;base64,(.+)$/);
+  if (!match) return imageUrl;
+
+  const bucket = supabase.storage.from(GENERATION_IMAGE_BUCKET);
+  const path = `${userId}/${crypto.randomUUID()}.png`;
+  const { error } = await bucket.upload(path, Buffer.from(match[1], 'base64'), { contentType: 'image/png' });
+  if (error) {
+    throw new Error(`Failed to upload generated image: ${error.message}`);
+  }
+  return bucket.getPublicUrl(path).data.publicUrl;
+};
+
+/**
+ * Check whether a URL is an image in the project's generation bucket
+ * @param url Absolute URL
+ */
+export const isStoredImageUrl = (url: URL): boolean => {
+  const projectUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!projectUrl) return false;
+  return url.host === new URL(projectUrl).host
+    && url.pathname.startsWith(`/storage/v1/object/public/${GENERATION_IMAGE_BUCKET}/`);
+};
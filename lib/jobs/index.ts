@@ -0,0 +1,39 @@
+/**
+ * Generation Jobs
+ * The shared job queue used by the /api/jobs routes. Concurrency is set
+ * with GENERATION_CONCURRENCY (default 2).
+ */
+
+import { createJobQueue, type JobQueue } from './queue';
+import { createMemoryJobStore } from './memory-store';
+import type { GenerationJob } from './types';
+
+export { FINISHED_JOB_STATUSES } from './types';
+export type { GenerationJob, JobEvent, JobEventType, JobStatus, JobStore, JobTask } from './types';
+export type { JobQueue } from './queue';
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Kept on globalThis so development hot reloads do not orphan running jobs
+const globalForJobs = globalThis as typeof globalThis & { generationJobQueue?: JobQueue };
+
+/**
+ * Get the process-wide generation job queue, creating it on first use
+ */
+export const getJobQueue = (): JobQueue => {
+  if (!globalForJobs.generationJobQueue) {
+    const concurrency = Number(process.env.GENERATION_CONCURRENCY) || DEFAULT_CONCURRENCY;
+    globalForJobs.generationJobQueue = createJobQueue({
+      store: createMemoryJobStore(),
+      concurrency: Math.max(1, Math.floor(concurrency)),
+    });
+  }
+  return globalForJobs.generationJobQueue;
+};
+
+/**
+ * Public shape of a job returned by the API (the owner id is left out)
+ */
+export const toJobView = ({ userId, ...job }: GenerationJob) => job;
+
+export type JobView = ReturnType<typeof toJobView>;
@@ -0,0 +1,57 @@
+/**
+ * In-memory Job Store
+ * Keeps jobs in a Map for the lifetime of the server process. Jobs are lost
+ * on restart, which is acceptable because their tasks are too.
+ */
+
+import { FINISHED_JOB_STATUSES, type GenerationJob, type JobStore } from './types';
+
+export const createMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, GenerationJob>();
+
+  return {
+    create: async (job) => {
+      jobs.set(job.id, { ...job, events: [...job.events] });
+      return { ...job };
+    },
+
+    get: async (id) => {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    update: async (id, update) => {
+      const job = jobs.get(id);
+      if (!job) return null;
+
+      const updated = { ...job, ...update };
+      jobs.set(id, updated);
+      return { ...updated };
+    },
+
+    appendEvent: async (id, event) => {
+      const job = jobs.get(id);
+      if (job) {
+        jobs.set(id, { ...job, events: [...job.events, event] });
+      }
+    },
+
+    listByUser: async (userId) => {
+      return Array.from(jobs.values())
+        .filter(job => job.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(job => ({ ...job }));
+    },
+
+    prune: async (finishedBefore) => {
+      let removed = 0;
+      for (const [id, job] of jobs.entries()) {
+        if (FINISHED_JOB_STATUSES.includes(job.status) && job.finishedAt && new Date(job.finishedAt) < finishedBefore) {
+          jobs.delete(id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+};
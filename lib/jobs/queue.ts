@@ -0,0 +1,191 @@
+/**
+ * Generation Job Queue (server only)
+ * Runs queued generation tasks in this process with a concurrency limit.
+ * Job state goes through a JobStore so it can be read by any request.
+ */
+
+import {
+  FINISHED_JOB_STATUSES,
+  type GenerationJob,
+  type JobEvent,
+  type JobEventType,
+  type JobStore,
+  type JobTask,
+} from './types';
+import type { GenerationParams } from '@/lib/generation/params';
+
+// Finished jobs are kept this long so clients can still poll their result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export interface JobQueueOptions {
+  store: JobStore;
+  concurrency: number;
+}
+
+export interface EnqueueInput {
+  userId: string;
+  params: GenerationParams;
+}
+
+export interface JobQueue {
+  enqueue: (input: EnqueueInput, task: JobTask) => Promise<GenerationJob>;
+  /**
+   * Find one of a user's jobs by full id or unique prefix
+   */
+  find: (userId: string, idOrPrefix: string) => Promise<GenerationJob | null>;
+  list: (userId: string) => Promise<GenerationJob[]>;
+  /**
+   * Cancel a queued or running job
+   * @returns The job after cancelling, or null when it does not exist
+   */
+  cancel: (jobId: string) => Promise<GenerationJob | null>;
+  /**
+   * Listen for new events of a job, e.g. to stream them to a client
+   * @returns A function that removes the listener
+   */
+  subscribe: (jobId: string, listener: JobListener) => () => void;
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+export const createJobQueue = ({ store, concurrency }: JobQueueOptions): JobQueue => {
+  // Tasks cannot be serialized, so they stay here rather than in the store
+  const tasks = new Map<string, JobTask>();
+  const pending: GenerationJob[] = [];
+  const running = new Map<string, AbortController>();
+
+  const listeners = new Map<string, Set<JobListener>>();
+
+  const now = () => new Date().toISOString();
+
+  // Store an event and pass it to the job's listeners straight away
+  function record(job: GenerationJob, type: JobEventType, message: string) {
+    const event: JobEvent = {
+      type,
+      message,
+      at: now(),
+      elapsedMs: Date.now() - new Date(job.createdAt).getTime(),
+    };
+    listeners.get(job.id)?.forEach(listener => listener(event));
+    store.appendEvent(job.id, event).catch(error => {
+      console.error(`Could not store event for job ${job.id}:`, error);
+    });
+  }
+
+  const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+  async function runJob(job: GenerationJob, task: JobTask) {
+    const controller = new AbortController();
+    running.set(job.id, controller);
+    await store.update(job.id, { status: 'running', startedAt: now() });
+    record(job, 'started', 'Generation started');
+
+    try {
+      const result = await task.run(controller.signal, (type, message) => record(job, type, message));
+      // A cancel that arrived after the task could stop leaves the job cancelled
+      if (controller.signal.aborted) {
+        throw new Error('Generation was cancelled');
+      }
+      await store.update(job.id, { status: 'succeeded', result, finishedAt: now() });
+      record(job, 'succeeded', `Finished in ${formatSeconds(Date.now() - new Date(job.createdAt).getTime())}`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await store.update(job.id, { status: 'cancelled', finishedAt: now() });
+        record(job, 'cancelled', 'Cancelled while generating');
+      } else {
+        console.error(`Generation job ${job.id} failed:`, error);
+        const message = error instanceof Error ? error.message : 'Generation failed';
+        await store.update(job.id, { status: 'failed', error: message, finishedAt: now() });
+        record(job, 'failed', message);
+      }
+    } finally {
+      running.delete(job.id);
+      tasks.delete(job.id);
+      drain();
+    }
+  }
+
+  // Start queued jobs until the concurrency limit is reached
+  function drain() {
+    while (running.size < concurrency && pending.length > 0) {
+      const job = pending.shift() as GenerationJob;
+      const task = tasks.get(job.id);
+      if (task) {
+        runJob(job, task).catch(error => {
+          console.error(`Generation job ${job.id} could not be updated:`, error);
+        });
+      }
+    }
+  }
+
+  return {
+    enqueue: async ({ userId, params }, task) => {
+      await store.prune(new Date(Date.now() - FINISHED_JOB_TTL_MS));
+
+      const job = await store.create({
+        id: crypto.randomUUID(),
+        userId,
+        params,
+        status: 'queued',
+        createdAt: now(),
+        events: [],
+      });
+      record(job, 'validated', `Validated ${params.model} ${params.width}x${params.height}, style: ${params.style}`);
+      record(job, 'queued', running.size < concurrency
+        ? 'Queued, starting now'
+        : `Queued behind ${running.size + pending.length} other generation${running.size + pending.length === 1 ? '' : 's'}`);
+
+      tasks.set(job.id, task);
+      pending.push(job);
+      drain();
+
+      return (await store.get(job.id)) || job;
+    },
+
+    find: async (userId, idOrPrefix) => {
+      const id = idOrPrefix.toLowerCase();
+      const exact = await store.get(id);
+      if (exact) {
+        return exact.userId === userId ? exact : null;
+      }
+
+      const matches = (await store.listByUser(userId)).filter(job => job.id.startsWith(id));
+      return matches.length === 1 ? matches[0] : null;
+    },
+
+    list: (userId) => store.listByUser(userId),
+
+    cancel: async (jobId) => {
+      const job = await store.get(jobId);
+      if (!job || FINISHED_JOB_STATUSES.includes(job.status)) return job;
+
+      const controller = running.get(jobId);
+      if (controller) {
+        // The running task refunds its quota when it sees the abort
+        controller.abort();
+        return store.update(jobId, { status: 'cancelled', finishedAt: now() });
+      }
+
+      const index = pending.findIndex(queued => queued.id === jobId);
+      if (index !== -1) pending.splice(index, 1);
+      const task = tasks.get(jobId);
+      tasks.delete(jobId);
+      await task?.release('cancelled');
+
+      const cancelled = await store.update(jobId, { status: 'cancelled', finishedAt: now() });
+      record(job, 'cancelled', 'Cancelled before it started');
+      return cancelled;
+    },
+
+    subscribe: (jobId, listener) => {
+      const jobListeners = listeners.get(jobId) || new Set<JobListener>();
+      jobListeners.add(listener);
+      listeners.set(jobId, jobListeners);
+
+      return () => {
+        jobListeners.delete(listener);
+        if (jobListeners.size === 0) listeners.delete(jobId);
+      };
+    },
+  };
+};
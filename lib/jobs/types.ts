@@ -0,0 +1,64 @@
+/**
+ * Generation Job Types
+ * Jobs are the serializable record of a queued generation. The work itself
+ * (a JobTask) lives only in the process that accepted the job.
+ */
+
+import type { GenerationParams } from '@/lib/generation/params';
+import type { GenerationEventType, GenerationOutcome } from '@/lib/generation/pipeline';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export type JobEventType = GenerationEventType | JobStatus;
+
+export interface JobEvent {
+  type: JobEventType;
+  message: string;
+  at: string;
+  // Time since the job was created
+  elapsedMs: number;
+}
+
+export interface GenerationJob {
+  id: string;
+  userId: string;
+  status: JobStatus;
+  params: GenerationParams;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: GenerationOutcome;
+  error?: string;
+  // Lifecycle events in the order they happened
+  events: JobEvent[];
+}
+
+export type JobUpdate = Partial<Omit<GenerationJob, 'id' | 'userId' | 'params' | 'createdAt' | 'events'>>;
+
+/**
+ * Where jobs are kept. The in-memory store is enough for a single server;
+ * a database-backed store can replace it without touching the queue.
+ */
+export interface JobStore {
+  create: (job: GenerationJob) => Promise<GenerationJob>;
+  get: (id: string) => Promise<GenerationJob | null>;
+  update: (id: string, update: JobUpdate) => Promise<GenerationJob | null>;
+  appendEvent: (id: string, event: JobEvent) => Promise<void>;
+  // Newest first
+  listByUser: (userId: string) => Promise<GenerationJob[]>;
+  // Remove finished jobs that ended before the cutoff, returning how many were removed
+  prune: (finishedBefore: Date) => Promise<number>;
+}
+
+export type JobEmitter = (type: GenerationEventType, message: string) => void;
+
+/**
+ * The work behind a job, supplied when it is enqueued
+ */
+export interface JobTask {
+  run: (signal: AbortSignal, emit: JobEmitter) => Promise<GenerationOutcome>;
+  // Called when a job is cancelled before it started, e.g. to refund quota
+  release: (reason: string) => Promise<void>;
+}
@@ -0,0 +1,142 @@
+/**
+ * ASCII Portraits
+ * Settings of the portrait studio and storage of the portraits users save.
+ * The schemas are shared with the browser; saving must use a Supabase
+ * client bound to the user's session.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ASCII_CHARSET_NAMES, ASCII_MODES, MAX_ASCII_WIDTH, MIN_ASCII_WIDTH } from './ascii';
+
+export const MIN_PORTRAIT_CONTRAST = 0.5;
+export const MAX_PORTRAIT_CONTRAST = 3;
+export const MIN_PORTRAIT_BRIGHTNESS = 0.2;
+export const MAX_PORTRAIT_BRIGHTNESS = 2;
+
+// Enough for the widest grid at a tall aspect ratio, with line breaks
+const MAX_CONTENT_LENGTH = (MAX_ASCII_WIDTH + 1) * MAX_ASCII_WIDTH * 2;
+const MAX_NAME_LENGTH = 120;
+
+const fraction = z.number().min(0).max(1);
+
+/**
+ * Everything needed to convert the photo to the same portrait again
+ */
+export const portraitSettingsSchema = z.object({
+  crop: z.object({ x: fraction, y: fraction, width: fraction.positive(), height: fraction.positive() }).optional(),
+  width: z.number().int().min(MIN_ASCII_WIDTH).max(MAX_ASCII_WIDTH),
+  contrast: z.number().min(MIN_PORTRAIT_CONTRAST).max(MAX_PORTRAIT_CONTRAST),
+  brightness: z.number().min(MIN_PORTRAIT_BRIGHTNESS).max(MAX_PORTRAIT_BRIGHTNESS),
+  charset: z.enum(ASCII_CHARSET_NAMES),
+  mode: z.enum(ASCII_MODES).default('luminance'),
+  invert: z.boolean().default(true),
+});
+
+export type PortraitSettings = z.output<typeof portraitSettingsSchema>;
+
+export const savePortraitSchema = z
+  .object({
+    referenceImageId: z.string().uuid(),
+    name: z.string().trim().max(MAX_NAME_LENGTH).optional(),
+    settings: portraitSettingsSchema,
+    columns: z.number().int().positive().max(MAX_ASCII_WIDTH),
+    rows: z.number().int().positive(),
+    // The portrait as plain text, one line per row without trailing spaces
+    content: z.string().min(1).max(MAX_CONTENT_LENGTH),
+  })
+  .superRefine((portrait, ctx) => {
+    const lines = portrait.content.split('\n');
+    if (lines.length !== portrait.rows || lines.some(line => Array.from(line).length > portrait.columns)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['content'],
+        message: `does not match the portrait's ${portrait.columns}x${portrait.rows} size`,
+      });
+    }
+  });
+
+export type SavePortraitInput = z.input<typeof savePortraitSchema>;
+export type SavePortrait = z.output<typeof savePortraitSchema>;
+
+export interface AsciiPortraitRecord {
+  id: string;
+  shortId: string;
+  referenceImageId: string | null;
+  name: string | null;
+  settings: PortraitSettings;
+  columns: number;
+  rows: number;
+  content: string;
+  createdAt: string;
+}
+
+// An ascii_portraits row as selected by PORTRAIT_COLUMNS
+interface PortraitRow {
+  id: string;
+  short_id: string;
+  reference_image_id: string | null;
+  name: string | null;
+  settings: PortraitSettings;
+  columns: number;
+  rows: number;
+  content: string;
+  created_at: string;
+}
+
+const PORTRAIT_COLUMNS = 'id, short_id, reference_image_id, name, settings, columns, rows, content, created_at';
+
+// Map a database row to the camelCase shape used by the app
+const toPortrait = (row: PortraitRow): AsciiPortraitRecord => ({
+  id: row.id,
+  shortId: row.short_id,
+  referenceImageId: row.reference_image_id,
+  name: row.name,
+  settings: row.settings,
+  columns: row.columns,
+  rows: row.rows,
+  content: row.content,
+  createdAt: row.created_at,
+});
+
+/**
+ * Turn a zod validation error into a single readable line
+ * @param error The error returned from safeParse
+ */
+export const formatPortraitError = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => (issue.path.length ? `Invalid ${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('\n');
+};
+
+/**
+ * Store a portrait made in the studio
+ * @param supabase Client bound to the user's session
+ * @param userId Owner of the portrait
+ * @param portrait Validated portrait
+ */
+export const savePortrait = async (
+  supabase: SupabaseClient,
+  userId: string,
+  portrait: SavePortrait
+): Promise<AsciiPortraitRecord> => {
+  const { data, error } = await supabase
+    .from('ascii_portraits')
+    .insert({
+      user_id: userId,
+      reference_image_id: portrait.referenceImageId,
+      name: portrait.name || null,
+      settings: portrait.settings,
+      columns: portrait.columns,
+      rows: portrait.rows,
+      content: portrait.content,
+    })
+    .select(PORTRAIT_COLUMNS)
+    .single()
+    .overrideTypes<PortraitRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to store portrait: ${error.message}`);
+  }
+  return toPortrait(data);
+};
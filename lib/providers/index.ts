@@ -0,0 +1,32 @@
+/**
+ * Image Provider Selection
+ * IMAGE_PROVIDER picks the backend used by the API routes:
+ *   retrodiffusion (default) - the RetroDiffusion API, needs RETRODIFFUSION_API_KEY
+ *   procedural               - deterministic offline sprites for development and CI
+ */
+
+import { proceduralProvider } from './procedural';
+import { retroDiffusionProvider } from './retrodiffusion';
+import type { ImageProvider } from './types';
+
+export * from './types';
+
+const providers: Record<string, ImageProvider> = {
+  [retroDiffusionProvider.id]: retroDiffusionProvider,
+  [proceduralProvider.id]: proceduralProvider,
+};
+
+/**
+ * Get the provider configured through the IMAGE_PROVIDER env var
+ * @returns The selected provider, falling back to RetroDiffusion for unknown ids
+ */
+export const getImageProvider = (): ImageProvider => {
+  const id = (process.env.IMAGE_PROVIDER || retroDiffusionProvider.id).trim().toLowerCase();
+  const provider = providers[id];
+
+  if (!provider) {
+    console.error(`Unknown IMAGE_PROVIDER "${id}", falling back to ${retroDiffusionProvider.id}`);
+    return retroDiffusionProvider;
+  }
+  return provider;
+};
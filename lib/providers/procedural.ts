@@ -0,0 +1,116 @@
+/**
+ * Procedural Pixel Provider
+ * Deterministic, offline image provider for development and CI. The
+ * same prompt, seed and size always produce the same sprite, so the
+ * whole generate flow can run without network access or credits.
+ */
+
+import { DEFAULT_STRENGTH, GENERATION_MODELS, MAX_BATCH_SIZE, MAX_SEED, type GenerationParams } from '@/lib/generation/params';
+import { dataUrlToRaster, rasterToDataUrl } from '@/lib/image/png';
+import { blendRasters, createRaster, resizeNearest, setPixel, type Raster, type RGB } from '@/lib/image/raster';
+import type { ImageProvider, ProviderRequest } from './types';
+
+// Size of the logical pixel grid before it is scaled to the requested size
+const GRID_SIZE = 16;
+
+// FNV-1a hash of a string
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Mulberry32 PRNG returning floats in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+// Draw a horizontally mirrored sprite over a banded background
+function drawSprite(random: () => number, columns: number, rows: number, tileX: boolean, tileY: boolean): Raster {
+  const sprite = createRaster(columns, rows);
+  const hue = random() * 360;
+  const palette: RGB[] = [
+    hslToRgb(hue, 0.35, 0.12),
+    hslToRgb(hue, 0.3, 0.2),
+    hslToRgb((hue + 180) % 360, 0.7, 0.45),
+    hslToRgb((hue + 180) % 360, 0.8, 0.65),
+    hslToRgb((hue + 30) % 360, 0.9, 0.85),
+  ];
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      setPixel(sprite, x, y, palette[y % 4 < 2 ? 0 : 1]);
+    }
+  }
+
+  // Tiling output is a texture, so the sprite covers the whole grid and wraps
+  const margin = tileX || tileY ? 0 : 2;
+  const half = Math.ceil(columns / 2);
+  for (let y = margin; y < rows - margin; y++) {
+    for (let x = margin; x < half; x++) {
+      const roll = random();
+      if (roll < 0.45) continue;
+      const color = palette[roll < 0.75 ? 2 : roll < 0.93 ? 3 : 4];
+      setPixel(sprite, x, y, color);
+      setPixel(sprite, columns - 1 - x, y, color);
+    }
+  }
+  return sprite;
+}
+
+export const proceduralProvider: ImageProvider = {
+  id: 'procedural',
+
+  capabilities: () => ({
+    id: 'procedural',
+    name: 'Procedural Pixel (offline)',
+    models: [...GENERATION_MODELS],
+    maxImages: MAX_BATCH_SIZE,
+    supportsSeed: true,
+    supportsNegative: false,
+    supportsTiling: true,
+    supportsInitImage: true,
+    offline: true,
+  }),
+
+  estimateCost: (_params: GenerationParams) => 0,
+
+  generate: async ({ params, prompt, seed, initImage, onProgress }: ProviderRequest) => {
+    onProgress?.({
+      stage: 'request_sent',
+      message: `Drawing ${params.count === 1 ? 'a procedural sprite' : `${params.count} procedural sprites`} (${params.width}x${params.height})`
+    });
+    const columns = Math.max(4, Math.min(GRID_SIZE, params.width));
+    const rows = Math.max(4, Math.round((columns * params.height) / params.width));
+    // A reference image is reduced to the sprite grid and mixed in by strength
+    const reference = initImage && resizeNearest(dataUrlToRaster(initImage), columns, rows);
+
+    // Batch images use consecutive seeds so each one can be reproduced on its own
+    const images = Array.from({ length: params.count }, (_, index) => {
+      const imageSeed = (seed + index) % (MAX_SEED + 1);
+      const random = createRandom(hashString(`${prompt}:${imageSeed}`));
+      const drawn = drawSprite(random, columns, rows, params.tileX, params.tileY);
+      const sprite = reference ? blendRasters(reference, drawn, params.strength ?? DEFAULT_STRENGTH) : drawn;
+      return { imageUrl: rasterToDataUrl(resizeNearest(sprite, params.width, params.height)), seed: imageSeed };
+    });
+
+    return { images, creditCost: 0 };
+  },
+};
@@ -0,0 +1,288 @@
+/**
+ * RetroDiffusion Image Provider
+ * Server-side client for the RetroDiffusion inference API, including the
+ * alternate endpoint fallbacks and both response shapes it has used
+ * (`base64_images` and `output_images[].uri`).
+ */
+
+import { GENERATION_MODELS, MAX_BATCH_SIZE, generationImageCount, type GenerationParams } from '@/lib/generation/params';
+import { ProviderError, type ImageProvider, type ProviderImage, type ProviderRequest } from './types';
+
+// Global API configuration
+const RETRODIFFUSION_API_KEY = process.env.RETRODIFFUSION_API_KEY || '';
+const RETRODIFFUSION_API_ENDPOINT = process.env.RETRODIFFUSION_API_ENDPOINT || 'https://api.retrodiffusion.ai/v1/inferences';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Validate API key at startup
+if (!RETRODIFFUSION_API_KEY) {
+  console.warn('RETRODIFFUSION_API_KEY is not set; the retrodiffusion provider will reject requests');
+}
+
+// Endpoints to try when the configured one answers 404
+const ALTERNATIVE_ENDPOINTS = [
+  `https://api.retrodiffusion.ai/v1/inferences`, // Try /inferences first
+  `https://api.retrodiffusion.ai/api/v1/inferences`,
+  `https://api.retrodiffusion.ai/v1/generate`,
+  `https://api.retrodiffusion.ai/api/v1/generate`
+];
+
+/**
+ * Clean and validate the API key format
+ * @param apiKey The API key to clean
+ * @returns A cleaned version of the API key
+ */
+function cleanApiKey(apiKey: string): string {
+  if (!apiKey) return '';
+
+  // Remove any whitespace
+  let cleaned = apiKey.trim();
+
+  // Ensure it has the correct prefix
+  if (!cleaned.startsWith('rdpk-')) {
+    // If it contains the prefix somewhere in the string, extract from there
+    if (cleaned.includes('rdpk-')) {
+      cleaned = 'rdpk-' + cleaned.split('rdpk-')[1];
+    }
+    // Otherwise, add the prefix
+    else {
+      cleaned = `rdpk-${cleaned}`;
+    }
+  }
+
+  return cleaned;
+}
+
+// Create API request payload according to RetroDiffusion documentation
+function buildPayload({ params, prompt, negative, seed, initImage }: ProviderRequest) {
+  return {
+    prompt,
+    height: params.height,
+    width: params.width,
+    negative,
+    num_inference_steps: 20,
+    guidance_scale: 5,
+    strength: params.strength ?? 0.75,
+    seed,
+    num_images: params.count,
+    tiling_x: params.tileX,
+    tiling_y: params.tileY,
+    loras: {},
+    expand_prompt: false,
+    model: params.model,
+    prompt_style: params.style,
+    substyle: {
+      id: "",
+      name: "",
+      required_prompt_style_key: "",
+      model_override: "",
+      loras_override: {},
+      prompt_style_override: "",
+      latent_size_override: 0,
+      post_pipeline_override: "",
+      steps_override: 0,
+      img2img_steps_override: 0
+    },
+    pre_processing: {
+      pipeline: ""
+    },
+    // img2img: the API takes the raw base64 PNG without the data URL prefix
+    ...(initImage ? { input_image: initImage.slice(initImage.indexOf(',') + 1) } : {})
+  };
+}
+
+// POST a payload with a timeout, also honouring the caller's abort signal
+async function postInference(endpoint: string, payload: unknown, apiKey: string, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller);
+
+  try {
+    return await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-RD-Token': apiKey,
+        'Accept': 'application/json',
+        'User-Agent': 'Promixel/1.0 (NextJS Server)'
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+// Body of a successful inference. Fields come straight off the wire, so
+// each is checked before use.
+interface InferenceResponse {
+  // Format 1: hosted images
+  output_images?: unknown;
+  // Format 2: raw base64 PNGs
+  base64_images?: unknown;
+  seed?: unknown;
+  credit_cost?: unknown;
+}
+
+// Body of a failed request; `detail` lists validation errors
+interface InferenceError {
+  message?: unknown;
+  error?: unknown;
+  detail?: unknown;
+}
+
+// Read a JSON body as an object whose fields are still to be checked
+function asObject<T extends object>(value: unknown): Partial<T> {
+  return value && typeof value === 'object' ? (value as Partial<T>) : {};
+}
+
+// A numeric response field, or undefined when it is missing or malformed
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+// Turn a failed API response into a ProviderError with a user-facing message
+async function toProviderError(response: Response): Promise<ProviderError> {
+  const errorText = await response.text();
+  console.error(`API error (HTTP ${response.status}): ${errorText.substring(0, 200)}`);
+
+  let errorJson: unknown;
+  try {
+    errorJson = JSON.parse(errorText);
+  } catch (parseError) {
+    return new ProviderError(`API Error: ${response.statusText}`, response.status, errorText);
+  }
+  const body = asObject<InferenceError>(errorJson);
+
+  // Check if this is an authentication error
+  const tokenRejected = Array.isArray(body.detail) && body.detail.some(detail => {
+    const { msg } = asObject<{ msg: unknown }>(detail);
+    return typeof msg === 'string' && msg.includes('X-RD-Token');
+  });
+  if (response.status === 401 || tokenRejected) {
+    return new ProviderError('API Key Authentication Failed: Please check your API key', 401, errorJson);
+  }
+
+  const message = [body.message, body.error].find(value => typeof value === 'string' && value);
+  return new ProviderError(`API Error: ${message || 'The API request failed'}`, response.status, errorJson);
+}
+
+// Read images out of either response format
+function parseImages(data: InferenceResponse, seed: number): ProviderImage[] {
+  const responseSeed = optionalNumber(data.seed) ?? seed;
+
+  if (Array.isArray(data.output_images) && data.output_images.length > 0) {
+    return data.output_images.flatMap(entry => {
+      const image = asObject<{ uri: unknown; seed: unknown }>(entry);
+      return typeof image.uri === 'string' && image.uri
+        ? [{ imageUrl: image.uri, seed: optionalNumber(image.seed) ?? responseSeed }]
+        : [];
+    });
+  }
+
+  if (Array.isArray(data.base64_images) && data.base64_images.length > 0) {
+    return data.base64_images
+      .filter((base64): base64 is string => typeof base64 === 'string')
+      .map(base64 => ({
+        imageUrl: `data:image/png;base64,${base64.replace(/[\n\r\s]/g, '')}`,
+        seed: responseSeed,
+      }));
+  }
+
+  return [];
+}
+
+export const retroDiffusionProvider: ImageProvider = {
+  id: 'retrodiffusion',
+
+  capabilities: () => ({
+    id: 'retrodiffusion',
+    name: 'RetroDiffusion',
+    models: [...GENERATION_MODELS],
+    maxImages: MAX_BATCH_SIZE,
+    supportsSeed: true,
+    supportsNegative: true,
+    supportsTiling: true,
+    supportsInitImage: true,
+    offline: false,
+  }),
+
+  // One credit per 256x256 block of each output image or animation frame
+  estimateCost: (params: GenerationParams) => Math.max(1, Math.ceil((params.width * params.height) / (256 * 256))) * generationImageCount(params),
+
+  generate: async (request) => {
+    if (!RETRODIFFUSION_API_KEY) {
+      console.error('Missing API key for Retro Diffusion');
+      throw new ProviderError('API key not configured on server. Please contact support.', 500);
+    }
+
+    const { params } = request;
+    const apiKey = cleanApiKey(RETRODIFFUSION_API_KEY);
+    const payload = buildPayload(request);
+
+    try {
+      request.onProgress?.({ stage: 'request_sent', message: `Request sent to ${new URL(RETRODIFFUSION_API_ENDPOINT).host} (${params.count} x ${params.model} ${params.width}x${params.height})` });
+      let response = await postInference(RETRODIFFUSION_API_ENDPOINT, payload, apiKey, request.signal);
+
+      // If we get a 404, try alternative API endpoints
+      if (response.status === 404) {
+        // The last format leaves out the style and substyle fields
+        const { prompt_style, substyle, pre_processing, ...minimalPayload } = payload;
+        const alternativePayloads = [payload, minimalPayload];
+
+        let attempt = 0;
+
+        search:
+        for (const altEndpoint of ALTERNATIVE_ENDPOINTS) {
+          for (const altPayload of alternativePayloads) {
+            request.onProgress?.({
+              stage: 'retrying_endpoint',
+              message: `Endpoint not found, retrying with endpoint ${++attempt} of ${ALTERNATIVE_ENDPOINTS.length * alternativePayloads.length}`
+            });
+            try {
+              const altResponse = await postInference(altEndpoint, altPayload, apiKey, request.signal);
+              if (altResponse.status !== 404) {
+                response = altResponse;
+                break search;
+              }
+            } catch (altError) {
+              if (request.signal?.aborted) throw altError;
+              console.error(`Error with alternative endpoint ${altEndpoint}:`, altError);
+            }
+          }
+        }
+      }
+
+      if (!response.ok) {
+        throw await toProviderError(response);
+      }
+
+      const data = asObject<InferenceResponse>(await response.json());
+      const images = parseImages(data, request.seed);
+      if (images.length === 0) {
+        console.error('Invalid API response structure');
+        throw new ProviderError('Invalid response from the API', 500);
+      }
+
+      return { images, creditCost: optionalNumber(data.credit_cost) };
+    } catch (error) {
+      if (error instanceof ProviderError) throw error;
+
+      console.error('Fetch error when calling RetroDiffusion API:', error);
+
+      // Check for specific error types
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          throw new ProviderError('The request to the image generation API timed out. Please try again.', 504); // Gateway Timeout
+        }
+        if (error.message.includes('ENOTFOUND') || error.message.includes('ECONNREFUSED')) {
+          throw new ProviderError('Could not connect to the image generation API. Please try again later.', 503); // Service Unavailable
+        }
+      }
+      throw new ProviderError('Network error when connecting to the image generation API', 500);
+    }
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Image Provider Types
+ * Every image backend implements ImageProvider so the API routes never
+ * depend on a specific service's payloads or response shapes.
+ */
+
+import type { GenerationModel, GenerationParams } from '@/lib/generation/params';
+
+export interface ProviderCapabilities {
+  id: string;
+  name: string;
+  models: GenerationModel[];
+  maxImages: number;
+  supportsSeed: boolean;
+  supportsNegative: boolean;
+  supportsTiling: boolean;
+  supportsInitImage: boolean;
+  // True when the provider works without network access or credentials
+  offline: boolean;
+}
+
+// Steps a provider reports while a request is in flight
+export type ProviderProgressStage = 'request_sent' | 'retrying_endpoint';
+
+export interface ProviderProgress {
+  stage: ProviderProgressStage;
+  message: string;
+}
+
+export interface ProviderRequest {
+  params: GenerationParams;
+  // Sanitized, style-expanded prompt to send to the backend
+  prompt: string;
+  negative: string;
+  seed: number;
+  // PNG data URL at the output size to start from; params.strength says how far to move from it
+  initImage?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ProviderProgress) => void;
+}
+
+export interface ProviderImage {
+  // PNG data URL or remote URL
+  imageUrl: string;
+  seed: number;
+}
+
+export interface ProviderResult {
+  images: ProviderImage[];
+  creditCost?: number;
+}
+
+export interface ImageProvider {
+  id: string;
+  capabilities: () => ProviderCapabilities;
+  // Approximate credits a request will consume, before sending it
+  estimateCost: (params: GenerationParams) => number;
+  generate: (request: ProviderRequest) => Promise<ProviderResult>;
+}
+
+/**
+ * Error raised by providers with the HTTP status the API route should
+ * answer with and a message that is safe to show to users.
+ */
+export class ProviderError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status = 500, details?: unknown) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Generation Quota (server only)
+ * Thin wrappers around the Supabase quota functions. Consuming and reading
+ * must use a client bound to the user's session (createRouteHandlerClient)
+ * so auth.uid() resolves to the caller inside the database; refunds are
+ * only open to the service role.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface QuotaStatus {
+  allowed: boolean;
+  tier: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+  // Ledger entry of a consumption, used to refund it
+  ledgerId: number | null;
+}
+
+interface QuotaRow {
+  allowed: boolean;
+  tier: string;
+  quota_limit: number;
+  used: number;
+  remaining: number;
+  reset_at: string;
+  ledger_id: number | null;
+}
+
+async function callQuotaFunction(
+  supabase: SupabaseClient,
+  fn: string,
+  args?: Record<string, unknown>
+): Promise<QuotaStatus> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    throw new Error(`Quota check failed: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as QuotaRow | undefined;
+  if (!row) {
+    throw new Error('Quota check failed: no quota returned');
+  }
+
+  return {
+    allowed: row.allowed,
+    tier: row.tier,
+    limit: row.quota_limit,
+    used: row.used,
+    remaining: row.remaining,
+    resetAt: row.reset_at,
+    ledgerId: row.ledger_id,
+  };
+}
+
+/**
+ * Check and consume quota in a single atomic database call
+ * @param supabase Client bound to the user's session
+ * @param amount Number of generations to consume
+ * @returns The balance after consuming; `allowed` is false when the quota was insufficient
+ */
+export const consumeGenerationQuota = (supabase: SupabaseClient, amount = 1): Promise<QuotaStatus> => {
+  return callQuotaFunction(supabase, 'consume_generation_quota', { p_amount: amount });
+};
+
+/**
+ * Return a consumption to the user's balance, e.g. when the provider failed
+ * @param supabase Service role client (createServiceRoleSupabaseClient)
+ * @param userId User the consumption belongs to
+ * @param ledgerId Ledger entry returned by consumeGenerationQuota
+ * @param reason Short note stored in the ledger
+ */
+export const refundGenerationQuota = (supabase: SupabaseClient, userId: string, ledgerId: number, reason = 'refund'): Promise<QuotaStatus> => {
+  return callQuotaFunction(supabase, 'refund_generation_quota', { p_user_id: userId, p_ledger_id: ledgerId, p_reason: reason });
+};
+
+/**
+ * Read the user's balance without consuming anything
+ * @param supabase Client bound to the user's session
+ */
+export const getGenerationQuota = (supabase: SupabaseClient): Promise<QuotaStatus> => {
+  return callQuotaFunction(supabase, 'get_generation_quota');
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { encodePng, rasterToDataUrl } from './image/png';
+import { createRaster } from './image/raster';
+import { validateReferenceImage } from './references';
+
+// A PNG that is only a signature and an IHDR chunk claiming the given size
+const pngHeader = (width: number, height: number) => {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  header.writeUInt8(8, 24);
+  header.writeUInt8(6, 25);
+  return `data:image/png;base64,${header.toString('base64')}`;
+};
+
+describe('validateReferenceImage', () => {
+  it('accepts a PNG within the limits', () => {
+    const png = encodePng(createRaster(64, 32));
+    expect(validateReferenceImage(rasterToDataUrl(createRaster(64, 32)))).toEqual({ width: 64, height: 32, byteSize: png.length });
+  });
+
+  it('rejects a huge size from the header without decoding the pixels', () => {
+    expect(() => validateReferenceImage(pngHeader(20000, 20000))).toThrow('got 20000x20000');
+  });
+
+  it('rejects images smaller than the minimum', () => {
+    expect(() => validateReferenceImage(rasterToDataUrl(createRaster(8, 64)))).toThrow('got 8x64');
+  });
+
+  it('rejects data that is not a PNG', () => {
+    expect(() => validateReferenceImage('data:image/jpeg;base64,AAAA')).toThrow('must be uploaded as PNG data');
+    expect(() => validateReferenceImage(`data:image/png;base64,${Buffer.from('not a png at all').toString('base64')}`)).toThrow('not a valid PNG');
+  });
+
+  it('rejects a PNG whose pixels cannot be decoded', () => {
+    expect(() => validateReferenceImage(pngHeader(64, 64))).toThrow('could not be read');
+  });
+});
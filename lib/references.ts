@@ -0,0 +1,173 @@
+/**
+ * Reference Images (server only)
+ * Validates and stores images users upload to guide a generation. The
+ * browser converts uploads to PNG, so only PNG data URLs are accepted here.
+ * Reads must use a Supabase client bound to the user's session; uploads
+ * are stored with the service role once they pass validation, since
+ * users cannot write the table themselves.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isFullId } from './generations';
+import {
+  MAX_REFERENCE_BYTES,
+  MAX_REFERENCE_SIZE,
+  MIN_REFERENCE_SIZE,
+} from './generation/params';
+import { decodePng, readPngSize } from './image/png';
+import { createServiceRoleSupabaseClient } from './supabase';
+
+export interface ReferenceImage {
+  id: string;
+  shortId: string;
+  name: string | null;
+  imageUrl: string;
+  width: number;
+  height: number;
+  byteSize: number;
+  createdAt: string;
+}
+
+/**
+ * Error raised when an upload is rejected, with a message safe to show users
+ */
+export class ReferenceImageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ReferenceImageError';
+    this.status = status;
+  }
+}
+
+// A reference_images row as selected by REFERENCE_COLUMNS
+interface ReferenceImageRow {
+  id: string;
+  short_id: string;
+  name: string | null;
+  image_url: string;
+  width: number;
+  height: number;
+  byte_size: number;
+  created_at: string;
+}
+
+const REFERENCE_COLUMNS = 'id, short_id, name, image_url, width, height, byte_size, created_at';
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_NAME_LENGTH = 120;
+
+// Map a database row to the camelCase shape used by the app
+const toReference = (row: ReferenceImageRow): ReferenceImage => ({
+  id: row.id,
+  shortId: row.short_id,
+  name: row.name,
+  imageUrl: row.image_url,
+  width: row.width,
+  height: row.height,
+  byteSize: row.byte_size,
+  createdAt: row.created_at,
+});
+
+/**
+ * Check that an upload is a PNG within the size and dimension limits
+ * @param dataUrl The uploaded image as a PNG data URL
+ * @returns The image's dimensions and size in bytes
+ * @throws ReferenceImageError describing the first problem found
+ */
+export const validateReferenceImage = (dataUrl: unknown): { width: number; height: number; byteSize: number } => {
+  if (typeof dataUrl !== 'string' || !dataUrl.startsWith(PNG_DATA_URL_PREFIX)) {
+    throw new ReferenceImageError('Reference images must be uploaded as PNG data');
+  }
+
+  // Reject oversized payloads before decoding them
+  const base64 = dataUrl.slice(PNG_DATA_URL_PREFIX.length);
+  if ((base64.length * 3) / 4 > MAX_REFERENCE_BYTES + 3) {
+    throw new ReferenceImageError(`Reference images must be smaller than ${MAX_REFERENCE_BYTES / (1024 * 1024)} MB`, 413);
+  }
+
+  const bytes = Buffer.from(base64, 'base64');
+  if (bytes.length > MAX_REFERENCE_BYTES) {
+    throw new ReferenceImageError(`Reference images must be smaller than ${MAX_REFERENCE_BYTES / (1024 * 1024)} MB`, 413);
+  }
+  if (!bytes.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new ReferenceImageError('The uploaded file is not a valid PNG image');
+  }
+
+  // Check the dimensions in the header first: a small file can claim a
+  // huge size and inflate to gigabytes of pixels when decoded
+  const size = readPngSize(bytes);
+  if (!size) {
+    throw new ReferenceImageError('The uploaded image could not be read');
+  }
+  const { width, height } = size;
+  if (Math.min(width, height) < MIN_REFERENCE_SIZE || Math.max(width, height) > MAX_REFERENCE_SIZE) {
+    throw new ReferenceImageError(
+      `Reference images must be between ${MIN_REFERENCE_SIZE} and ${MAX_REFERENCE_SIZE} pixels on each side (got ${width}x${height})`
+    );
+  }
+
+  try {
+    decodePng(bytes);
+  } catch (error) {
+    throw new ReferenceImageError('The uploaded image could not be read');
+  }
+
+  return { width, height, byteSize: bytes.length };
+};
+
+/**
+ * Validate and store an uploaded reference image
+ * @param userId Owner of the image, taken from the user's session
+ * @param upload PNG data URL and the original file name
+ * @throws ReferenceImageError when the image is rejected
+ */
+export const saveReferenceImage = async (
+  userId: string,
+  upload: { imageUrl: unknown; name?: unknown }
+): Promise<ReferenceImage> => {
+  const { width, height, byteSize } = validateReferenceImage(upload.imageUrl);
+  const name = typeof upload.name === 'string' ? upload.name.trim().substring(0, MAX_NAME_LENGTH) || null : null;
+
+  const { data, error } = await createServiceRoleSupabaseClient()
+    .from('reference_images')
+    .insert({
+      user_id: userId,
+      name,
+      image_url: upload.imageUrl,
+      width,
+      height,
+      byte_size: byteSize,
+    })
+    .select(REFERENCE_COLUMNS)
+    .single()
+    .overrideTypes<ReferenceImageRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to store reference image: ${error.message}`);
+  }
+  return toReference(data);
+};
+
+/**
+ * Find one reference image by full or short id
+ * @param supabase Client bound to the user's session
+ * @param id UUID or its 8 character prefix
+ * @returns The image, or null when it does not exist
+ */
+export const getReferenceImage = async (supabase: SupabaseClient, id: string): Promise<ReferenceImage | null> => {
+  const { data, error } = await supabase
+    .from('reference_images')
+    .select(REFERENCE_COLUMNS)
+    .eq(isFullId(id) ? 'id' : 'short_id', id.toLowerCase())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<ReferenceImageRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load reference image: ${error.message}`);
+  }
+  return data ? toReference(data) : null;
+};
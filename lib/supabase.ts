@@ -46,4 +46,22 @@ export const createBrowserSupabaseClient = () => {
     console.error('Error creating browser Supabase client:', error);
     return null;
   }
-}; 
\ No newline at end of file
+}; 
+// For server-only writes users must not make themselves (generation
+// history, quota refunds). Bypasses RLS, so never use it with user input
+// that has not been checked, and never in client components.
+export const createServiceRoleSupabaseClient = () => {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase credentials for the service role client');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    }
+  });
+};
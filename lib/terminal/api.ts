@@ -0,0 +1,125 @@
+/**
+ * Terminal API Helpers
+ * Small fetch wrapper for commands that call the app's own API routes,
+ * plus typed helpers for the routes several commands share.
+ */
+
+import type { GalleryItem, PublishGalleryInput } from '@/lib/gallery';
+import type { GenerationRecord } from '@/lib/generations';
+import type { GenerationOptions, RecolorOptions } from '@/lib/generation/params';
+import type { JobView } from '@/lib/jobs';
+
+// Fields every API route answers with, checked before the body is trusted
+interface ApiStatus {
+  success?: unknown;
+  message?: unknown;
+}
+
+/**
+ * Fetch a JSON API route, throwing the route's message when it fails
+ * @param url API route to call
+ * @param init Optional fetch options
+ * @returns The parsed JSON body
+ * @throws Error with the server's user-facing message on failure
+ */
+export const requestJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch (error) {
+    // Non-JSON bodies are reported by status below
+  }
+
+  const status = (body && typeof body === 'object' ? body : {}) as ApiStatus;
+  if (!response.ok || status.success === false) {
+    throw new Error((typeof status.message === 'string' && status.message) || `Request failed (HTTP ${response.status})`);
+  }
+  return body as T;
+};
+
+/**
+ * Load one of the user's stored generations
+ * @param id Full or short generation id
+ * @throws Error when the generation does not exist or the user is signed out
+ */
+export const fetchGeneration = async (id: string): Promise<GenerationRecord> => {
+  const { generation } = await requestJson<{ generation: GenerationRecord }>(`/api/generations/${encodeURIComponent(id)}`);
+  return generation;
+};
+
+export interface RecoloredGeneration {
+  generation: { id: string; shortId: string; imageUrl: string };
+  // e.g. "gameboy (4 colours) with bayer4 dithering"
+  description: string;
+}
+
+/**
+ * Quantize a stored generation to a palette, saving the result as a new entry
+ * @param id Full or short generation id
+ * @param options Palette and dithering (validated on the server)
+ */
+export const recolorGeneration = (id: string, options: RecolorOptions): Promise<RecoloredGeneration> => {
+  return requestJson<RecoloredGeneration>(`/api/generations/${encodeURIComponent(id)}/recolor`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+};
+
+/**
+ * Publish a stored generation to the public gallery
+ * @param input Generation id with an optional title, description and tags (validated on the server)
+ * @throws Error when the generation does not exist or is already published
+ */
+export const publishToGallery = async (input: PublishGalleryInput): Promise<GalleryItem> => {
+  const { item } = await requestJson<{ item: GalleryItem }>('/api/gallery', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return item;
+};
+
+export interface SubmittedJob {
+  jobId: string;
+  job: JobView;
+  remainingCredits?: number;
+  resetAt?: string;
+}
+
+/**
+ * Queue a generation job; quota is consumed when the job is accepted
+ * @param prompt Text prompt to generate pixel art from
+ * @param options Model, size, seed, style and tiling options (validated on the server)
+ */
+export const submitGenerationJob = (prompt: string, options: GenerationOptions = {}): Promise<SubmittedJob> => {
+  return requestJson<SubmittedJob>('/api/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ prompt, ...options }),
+  });
+};
+
+/**
+ * Load the current state of one of the user's jobs
+ * @param id Full or short job id
+ */
+export const fetchJob = async (id: string): Promise<JobView> => {
+  const { job } = await requestJson<{ job: JobView }>(`/api/jobs/${encodeURIComponent(id)}`);
+  return job;
+};
+
+/**
+ * Cancel a queued or running job
+ * @param id Full or short job id
+ * @throws Error when the job does not exist or has already finished
+ */
+export const cancelJob = async (id: string): Promise<JobView | null> => {
+  const { job } = await requestJson<{ job: JobView | null }>(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  return job;
+};
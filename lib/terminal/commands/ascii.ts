@@ -0,0 +1,93 @@
+import {
+  ASCII_CHARSET_NAMES,
+  ASCII_COLOR_MODES,
+  ASCII_EXPORT_FORMATS,
+  ASCII_MODES,
+  DEFAULT_ASCII_WIDTH,
+  MAX_ASCII_WIDTH,
+  MIN_ASCII_WIDTH,
+  type AsciiCharset,
+  type AsciiColorMode,
+  type AsciiExportFormat,
+  type AsciiMode,
+} from '@/lib/ascii';
+import { convertImageToAscii } from '@/lib/ascii/browser';
+import { downloadAscii } from '@/lib/ascii/download';
+import { fetchGeneration } from '../api';
+import type { CommandDefinition } from '../types';
+
+export const asciiCommand: CommandDefinition = {
+  name: 'ascii',
+  description: 'Show a past image as ASCII art (usage: ascii <id> [--width 64] [--charset name] [--color mode] [--mode edges] [--format txt])',
+  args: [{ name: 'id', description: 'Generation id from history (the 8 character prefix is enough)', required: true }],
+  flags: [
+    { name: 'width', alias: 'w', type: 'number', description: `Characters per line (${MIN_ASCII_WIDTH}-${MAX_ASCII_WIDTH}, default ${DEFAULT_ASCII_WIDTH})` },
+    { name: 'charset', alias: 'c', type: 'string', description: `Character set (${ASCII_CHARSET_NAMES.join(', ')})` },
+    { name: 'color', type: 'string', description: `Colour mode (${ASCII_COLOR_MODES.join(', ')}, default truecolor)` },
+    { name: 'mode', alias: 'm', type: 'string', description: `How characters are chosen (${ASCII_MODES.join(', ')}, default luminance); edges draws outlines with | / - \\ _` },
+    { name: 'format', alias: 'f', type: 'string', description: `Also download the art as a file (${ASCII_EXPORT_FORMATS.join(', ')})` },
+    { name: 'invert', type: 'boolean', description: 'Use dense characters for dark pixels, for light backgrounds' },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to view your images as ASCII art.');
+      return;
+    }
+
+    const width = flags.width ?? DEFAULT_ASCII_WIDTH;
+    if (typeof width !== 'number' || !Number.isInteger(width) || width < MIN_ASCII_WIDTH || width > MAX_ASCII_WIDTH) {
+      terminal.print('error', `Invalid --width: must be a whole number between ${MIN_ASCII_WIDTH} and ${MAX_ASCII_WIDTH}`);
+      return;
+    }
+    const charset = typeof flags.charset === 'string' ? flags.charset.toLowerCase() : 'standard';
+    if (!ASCII_CHARSET_NAMES.includes(charset as AsciiCharset)) {
+      terminal.print('error', `Invalid --charset: must be one of ${ASCII_CHARSET_NAMES.join(', ')}`);
+      return;
+    }
+    const colorMode = typeof flags.color === 'string' ? flags.color.toLowerCase() : 'truecolor';
+    if (!ASCII_COLOR_MODES.includes(colorMode as AsciiColorMode)) {
+      terminal.print('error', `Invalid --color: must be one of ${ASCII_COLOR_MODES.join(', ')}`);
+      return;
+    }
+
+    const mode = typeof flags.mode === 'string' ? flags.mode.toLowerCase() : 'luminance';
+    if (!ASCII_MODES.includes(mode as AsciiMode)) {
+      terminal.print('error', `Invalid --mode: must be one of ${ASCII_MODES.join(', ')}`);
+      return;
+    }
+
+    const format = typeof flags.format === 'string' ? flags.format.toLowerCase() : undefined;
+    if (format !== undefined && !ASCII_EXPORT_FORMATS.includes(format as AsciiExportFormat)) {
+      terminal.print('error', `Invalid --format: must be one of ${ASCII_EXPORT_FORMATS.join(', ')}`);
+      return;
+    }
+
+    const [id] = args;
+    try {
+      const generation = await fetchGeneration(id);
+      if (!generation.imageUrl) {
+        terminal.print('error', `Generation ${generation.shortId} has no stored image.`);
+        return;
+      }
+
+      const art = await convertImageToAscii(generation.imageUrl, {
+        width,
+        charset: charset as AsciiCharset,
+        colorMode: colorMode as AsciiColorMode,
+        mode: mode as AsciiMode,
+        invert: Boolean(flags.invert),
+      });
+      terminal.print('info', `${generation.shortId}: "${generation.prompt}" (${art.columns}x${art.rows} characters)`);
+      const name = `${generation.shortId}-ascii`;
+      terminal.printAscii(art, name);
+
+      if (format) {
+        const filename = await downloadAscii(art, format as AsciiExportFormat, name, { title: generation.prompt });
+        terminal.print('success', `Saved ${filename}`);
+      }
+    } catch (error) {
+      console.error('ASCII conversion error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to convert the image. Please try again.');
+    }
+  },
+};
@@ -0,0 +1,25 @@
+import type { CommandDefinition } from '../types';
+
+export const loginCommand: CommandDefinition = {
+  name: 'login',
+  aliases: ['signin'],
+  description: 'Log in or sign up to use Promixel',
+  handler: ({ terminal }) => {
+    // Authentication happens in the modal opened from the page header
+    terminal.print('output', 'Please use the login button at the top left corner of the screen.');
+  },
+};
+
+export const logoutCommand: CommandDefinition = {
+  name: 'logout',
+  aliases: ['signout'],
+  description: 'Log out of your account',
+  handler: async ({ supabase, terminal }) => {
+    try {
+      await supabase.auth.signOut();
+      terminal.print('output', 'You have been logged out.');
+    } catch (error) {
+      terminal.print('error', 'Failed to log out.');
+    }
+  },
+};
@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const clearCommand: CommandDefinition = {
+  name: 'clear',
+  aliases: ['cls'],
+  description: 'Clear terminal history',
+  handler: ({ terminal }) => {
+    terminal.clearScreen();
+  },
+};
@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const exitCommand: CommandDefinition = {
+  name: 'exit',
+  aliases: ['quit'],
+  description: 'Exit the application',
+  handler: ({ terminal }) => {
+    terminal.print('output', 'Goodbye!');
+  },
+};
@@ -0,0 +1,105 @@
+import { ENGINE_TARGETS, engineTargetName, isEngineTarget } from '@/lib/engines';
+import { exportForEngine } from '@/lib/engines/download';
+import { buildSequenceAtlas } from '@/lib/generation/frames';
+import { buildTilesetAtlas } from '@/lib/generation/tiles';
+import type { GenerationRecord } from '@/lib/generations';
+import {
+  describePixelGrid,
+  EXPORT_FORMATS,
+  EXPORT_SCALES,
+  exportAseprite,
+  exportPixelArt,
+  isExportFormat,
+  isExportScale,
+} from '@/lib/image/export';
+import { parsePalette } from '@/lib/image/palette';
+import type { SpriteAtlas } from '@/lib/image/spritesheet';
+import { fetchGeneration } from '../api';
+import type { CommandDefinition } from '../types';
+
+// Atlas of an animation or tileset, rebuilt from the parameters it was generated with
+function sheetAtlas({ params, shortId }: GenerationRecord): SpriteAtlas | undefined {
+  const { width, height } = params;
+  if (!width || !height) return undefined;
+  const image = `promixel-${shortId}.png`;
+  if (params.frames) return buildSequenceAtlas({ frames: params.frames, cycle: params.cycle, width, height }, image);
+  if (params.tileset) return buildTilesetAtlas({ tileset: params.tileset, width, height }, image);
+  return undefined;
+}
+
+export const exportCommand: CommandDefinition = {
+  name: 'export',
+  description: 'Download a past image at its true pixel resolution or packaged for a game engine (usage: export <id> [--scale 4] [--format aseprite] [--target godot])',
+  args: [{ name: 'id', description: 'Generation id from history (the 8 character prefix is enough)', required: true }],
+  flags: [
+    { name: 'scale', alias: 's', type: 'number', description: `Also save a copy enlarged by ${EXPORT_SCALES.filter(scale => scale > 1).join(', ')}x` },
+    { name: 'format', alias: 'f', type: 'string', description: `File format: ${EXPORT_FORMATS.join(', ')} (default png); aseprite keeps animation frames and the palette` },
+    { name: 'target', alias: 't', type: 'string', description: `Package for a game engine or map editor as a zip: ${ENGINE_TARGETS.join(', ')}` },
+    { name: 'ppu', type: 'number', description: 'Pixels per unit for engine packages (default: one frame or tile per unit)' },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to export your images.');
+      return;
+    }
+
+    const scale = flags.scale ?? 1;
+    if (!isExportScale(scale)) {
+      terminal.print('error', `Invalid --scale: must be one of ${EXPORT_SCALES.join(', ')}`);
+      return;
+    }
+
+    const format = typeof flags.format === 'string' ? flags.format.toLowerCase() : 'png';
+    if (!isExportFormat(format)) {
+      terminal.print('error', `Invalid --format: must be one of ${EXPORT_FORMATS.join(', ')}`);
+      return;
+    }
+
+    const target = flags.target;
+    if (target !== undefined && !isEngineTarget(target)) {
+      terminal.print('error', `Invalid --target: must be one of ${ENGINE_TARGETS.join(', ')}`);
+      return;
+    }
+
+    const ppu = typeof flags.ppu === 'number' ? flags.ppu : undefined;
+    if (ppu !== undefined && (!Number.isInteger(ppu) || ppu < 1)) {
+      terminal.print('error', 'Invalid --ppu: must be a whole number of at least 1');
+      return;
+    }
+
+    const [id] = args;
+    try {
+      const generation = await fetchGeneration(id);
+      if (!generation.imageUrl) {
+        terminal.print('error', `Generation ${generation.shortId} has no stored image.`);
+        return;
+      }
+
+      if (target) {
+        const { file, asset, frameWidth, frameHeight } = await exportForEngine(generation, target, { pixelsPerUnit: ppu });
+        const count = asset.atlas.frames.length;
+        const parts = asset.kind === 'sprite' ? 'sprite' : `${count} ${asset.kind === 'tileset' ? 'tiles' : 'frames'}`;
+        terminal.print('info', `Packaged ${parts} of ${frameWidth}x${frameHeight} at ${asset.pixelsPerUnit} pixels per unit.`);
+        terminal.print('success', `Downloaded ${file} for ${engineTargetName(target)}.`);
+        return;
+      }
+
+      if (format === 'aseprite') {
+        const palette = generation.params.palette ? parsePalette(generation.params.palette) : undefined;
+        const { file, frames, colors } = await exportAseprite(generation.imageUrl, `promixel-${generation.shortId}`, {
+          atlas: sheetAtlas(generation),
+          palette,
+        });
+        terminal.print('success', `Downloaded ${file} (${frames} ${frames === 1 ? 'frame' : 'frames'}, ${colors} colour palette).`);
+        return;
+      }
+
+      const { grid, files } = await exportPixelArt(generation.imageUrl, `promixel-${generation.shortId}`, scale);
+      terminal.print('info', `Detected ${describePixelGrid(grid)}.`);
+      terminal.print('success', `Downloaded ${files.join(' and ')}.`);
+    } catch (error) {
+      console.error('Export error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to export the image. Please try again.');
+    }
+  },
+};
@@ -0,0 +1,84 @@
+import {
+  formatGenerationParamsError,
+  generationParamsSchema,
+  ANIMATION_CYCLES,
+  DEFAULT_CYCLE,
+  DEFAULT_STRENGTH,
+  GENERATION_MODELS,
+  MAX_BATCH_SIZE,
+  MAX_FRAMES,
+  MAX_TILESET_TILES,
+  MIN_FRAMES,
+  MIN_STRENGTH,
+} from '@/lib/generation/params';
+import { PALETTE_NAMES } from '@/lib/image/palette';
+import { DITHER_MODES } from '@/lib/image/quantize';
+import { startGenerationJob } from '../jobs';
+import type { CommandDefinition } from '../types';
+
+export const generateCommand: CommandDefinition = {
+  name: 'generate',
+  aliases: ['gen'],
+  description: 'Generate pixel art (usage: generate [flags] <your prompt>) - Uses 1 generation per image or animation frame from your quota',
+  args: [{ name: 'prompt', description: 'What to draw', required: true, variadic: true }],
+  flags: [
+    { name: 'width', alias: 'W', type: 'number', description: 'Image width in pixels' },
+    { name: 'height', alias: 'H', type: 'number', description: 'Image height in pixels' },
+    { name: 'seed', alias: 's', type: 'number', description: 'Seed for reproducible results' },
+    { name: 'model', alias: 'm', type: 'string', description: `Model to use (${GENERATION_MODELS.join(', ')})` },
+    { name: 'style', type: 'string', description: 'Prompt style, e.g. default or anime' },
+    { name: 'negative', type: 'string', description: 'Things to keep out of the image (quote multiple words)' },
+    { name: 'tile', type: 'boolean', description: 'Make the image tile in both directions, checking its seams' },
+    { name: 'tile-x', type: 'boolean', description: 'Make the image tile horizontally' },
+    { name: 'tile-y', type: 'boolean', description: 'Make the image tile vertically' },
+    { name: 'count', alias: 'n', type: 'number', description: `Number of images to generate (1-${MAX_BATCH_SIZE})` },
+    { name: 'ref', type: 'string', description: "Reference image id to start from (defaults to the one attached with 'upload')" },
+    { name: 'strength', type: 'number', description: `How far to move away from the reference (${MIN_STRENGTH}-1, default ${DEFAULT_STRENGTH})` },
+    { name: 'palette', type: 'string', description: `Reduce the result to a palette (${PALETTE_NAMES.join(', ')} or "#rrggbb,#rrggbb,...")` },
+    { name: 'dither', type: 'string', description: `Dithering when reducing to the palette (${DITHER_MODES.join(', ')})` },
+    { name: 'frames', alias: 'f', type: 'number', description: `Generate an animation of this many frames as a sprite sheet (${MIN_FRAMES}-${MAX_FRAMES})` },
+    { name: 'cycle', type: 'string', description: `Animation to draw with --frames (${ANIMATION_CYCLES.join(', ')}; default ${DEFAULT_CYCLE})` },
+    { name: 'tileset', type: 'string', description: `Generate a grid of related tiles as one atlas, e.g. 3x3 (up to ${MAX_TILESET_TILES} tiles)` },
+    { name: 'remix', type: 'string', description: 'Gallery item this generation remixes, recorded as its parent (set by Remix in the gallery)' },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to generate pixel art.');
+      return;
+    }
+
+    const validation = generationParamsSchema.safeParse({
+      prompt: args.join(' '),
+      model: typeof flags.model === 'string' ? flags.model.toUpperCase() : undefined,
+      width: flags.width,
+      height: flags.height,
+      seed: flags.seed,
+      style: typeof flags.style === 'string' ? flags.style.toLowerCase() : undefined,
+      negative: flags.negative,
+      tileX: flags['tile-x'] ?? flags.tile,
+      tileY: flags['tile-y'] ?? flags.tile,
+      count: flags.count,
+      referenceId: typeof flags.ref === 'string' ? flags.ref : terminal.attachedReference()?.id,
+      strength: flags.strength,
+      palette: flags.palette,
+      dither: typeof flags.dither === 'string' ? flags.dither.toLowerCase() : undefined,
+      frames: flags.frames,
+      cycle: typeof flags.cycle === 'string' ? flags.cycle.toLowerCase() : undefined,
+      tileset: typeof flags.tileset === 'string' ? flags.tileset : undefined,
+      remixOf: typeof flags.remix === 'string' ? flags.remix : undefined,
+    });
+    if (!validation.success) {
+      terminal.print('error', formatGenerationParamsError(validation.error));
+      return;
+    }
+
+    try {
+      // Generations run as jobs on the server, which holds the provider key and
+      // applies validation, quota and rate limiting
+      await startGenerationJob(validation.data, terminal);
+    } catch (error) {
+      console.error('Generation error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to generate image. Please try again.');
+    }
+  },
+};
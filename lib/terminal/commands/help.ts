@@ -0,0 +1,37 @@
+import { formatUsage } from '../parser';
+import type { CommandDefinition } from '../types';
+
+export const helpCommand: CommandDefinition = {
+  name: 'help',
+  aliases: ['?'],
+  description: 'List available commands (usage: help [command])',
+  args: [{ name: 'command', description: 'Show details for a single command' }],
+  handler: ({ args, registry, terminal }) => {
+    if (args[0]) {
+      const command = registry.resolve(args[0].toLowerCase());
+      if (!command) {
+        terminal.print('error', `No help available for '${args[0]}'.`);
+        return;
+      }
+
+      const lines = [
+        `${command.name} - ${command.description}`,
+        `Usage: ${formatUsage(command)}`,
+      ];
+      if (command.aliases?.length) {
+        lines.push(`Aliases: ${command.aliases.join(', ')}`);
+      }
+      for (const flag of command.flags || []) {
+        lines.push(`  --${flag.name}${flag.alias ? `, -${flag.alias}` : ''}  ${flag.description}`);
+      }
+      terminal.print('output', lines.join('\n'));
+      return;
+    }
+
+    const helpOutput = [
+      'Available commands:',
+      ...registry.list().map(command => `  ${command.name} - ${command.description}`),
+    ].join('\n');
+    terminal.print('output', helpOutput);
+  },
+};
@@ -0,0 +1,93 @@
+import type { GenerationPage } from '@/lib/generations';
+import type { ReferenceImage } from '@/lib/references';
+import { fetchGeneration, requestJson } from '../api';
+import type { CommandDefinition } from '../types';
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const historyCommand: CommandDefinition = {
+  name: 'history',
+  aliases: ['hist'],
+  description: 'Browse your saved generations (usage: history [show|delete <id>] [--search <text>] [--page <n>])',
+  args: [
+    { name: 'action', description: 'show or delete' },
+    { name: 'id', description: 'Generation id (the 8 character prefix is enough)' },
+  ],
+  flags: [
+    { name: 'search', alias: 's', type: 'string', description: 'Only list generations whose prompt contains this text' },
+    { name: 'page', alias: 'p', type: 'number', description: 'Page of results to show' },
+    { name: 'limit', alias: 'l', type: 'number', description: 'Results per page (max 50)' },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to view your generation history.');
+      return;
+    }
+
+    const [action, id] = args;
+
+    if (action === 'show' || action === 'delete') {
+      if (!id) {
+        terminal.print('error', `Usage: history ${action} <id>`);
+        return;
+      }
+
+      if (action === 'delete') {
+        await requestJson(`/api/generations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        terminal.print('success', `Deleted generation ${id}.`);
+        await terminal.refreshRecent();
+        return;
+      }
+
+      const generation = await fetchGeneration(id);
+      const { width, height, style, negative } = generation.params;
+      terminal.print('output', [
+        `Generation ${generation.id}`,
+        `Prompt: ${generation.prompt}`,
+        `Model: ${generation.model || 'unknown'}${width && height ? ` (${width}x${height})` : ''}${style ? `, style: ${style}` : ''}`,
+        `Seed: ${generation.seed ?? 'unknown'}`,
+        ...(negative ? [`Negative: ${negative}`] : []),
+        `Created: ${formatDate(generation.createdAt)}`,
+      ].join('\n'));
+      if (generation.imageUrl) {
+        terminal.print('image', generation.imageUrl);
+        terminal.showImage(generation.imageUrl, generation.prompt);
+      }
+      if (generation.referenceImageId) {
+        const { reference } = await requestJson<{ reference: ReferenceImage }>(`/api/references/${generation.referenceImageId}`);
+        terminal.print('output', `Source image: reference ${reference.shortId}${reference.name ? ` (${reference.name}, ` : ' ('}${reference.width}x${reference.height}) at strength ${generation.params.strength ?? 'unknown'}`);
+        terminal.print('image', reference.imageUrl);
+      }
+      return;
+    }
+
+    if (action) {
+      terminal.print('error', `Unknown history action '${action}'. Use 'history', 'history show <id>' or 'history delete <id>'.`);
+      return;
+    }
+
+    const query = new URLSearchParams();
+    if (typeof flags.search === 'string') query.set('search', flags.search);
+    if (typeof flags.page === 'number') query.set('page', String(flags.page));
+    if (typeof flags.limit === 'number') query.set('limit', String(flags.limit));
+
+    const result = await requestJson<GenerationPage>(`/api/generations?${query.toString()}`);
+    if (result.items.length === 0) {
+      terminal.print('output', flags.search ? `No generations match "${flags.search}".` : 'No generations yet. Try \'generate <your prompt>\'.');
+      return;
+    }
+
+    const totalPages = Math.max(1, Math.ceil(result.total / result.pageSize));
+    terminal.print('output', [
+      ...result.items.map(item =>
+        `${item.shortId}  ${formatDate(item.createdAt)}  ${item.model || '?'}  seed ${item.seed ?? '?'}  "${item.prompt}"`
+      ),
+      '',
+      `Page ${result.page} of ${totalPages} (${result.total} total)${result.hasMore ? ` - 'history --page ${result.page + 1}' for more` : ''}`,
+      `Use 'history show <id>' to view one.`,
+    ].join('\n'));
+  },
+};
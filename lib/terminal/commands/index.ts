@@ -0,0 +1,41 @@
+/**
+ * Built-in Terminal Commands
+ * New commands live in their own module and are added to this list.
+ */
+
+import type { CommandDefinition } from '../types';
+import { helpCommand } from './help';
+import { clearCommand } from './clear';
+import { generateCommand } from './generate';
+import { varyCommand } from './vary';
+import { uploadCommand } from './upload';
+import { recolorCommand } from './recolor';
+import { exportCommand } from './export';
+import { publishCommand } from './publish';
+import { asciiCommand } from './ascii';
+import { recentCommand } from './recent';
+import { historyCommand } from './history';
+import { cancelCommand, jobsCommand } from './jobs';
+import { quotaCommand } from './quota';
+import { loginCommand, logoutCommand } from './auth';
+import { exitCommand } from './exit';
+
+export const defaultCommands: CommandDefinition[] = [
+  helpCommand,
+  clearCommand,
+  generateCommand,
+  varyCommand,
+  uploadCommand,
+  recolorCommand,
+  exportCommand,
+  publishCommand,
+  asciiCommand,
+  jobsCommand,
+  cancelCommand,
+  recentCommand,
+  historyCommand,
+  quotaCommand,
+  loginCommand,
+  logoutCommand,
+  exitCommand,
+];
@@ -0,0 +1,48 @@
+import type { JobView } from '@/lib/jobs';
+import { cancelJob, requestJson } from '../api';
+import { shortJobId } from '../jobs';
+import type { CommandDefinition } from '../types';
+
+// How long ago a job was created, e.g. "42s ago" or "5m ago"
+const formatAge = (value: string) => {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(value).getTime()) / 1000));
+  return seconds < 60 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+};
+
+export const jobsCommand: CommandDefinition = {
+  name: 'jobs',
+  description: 'List your queued, running and recently finished generations',
+  handler: async ({ terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to view your jobs.');
+      return;
+    }
+
+    const { jobs } = await requestJson<{ jobs: JobView[] }>('/api/jobs');
+    if (jobs.length === 0) {
+      terminal.print('info', "No recent jobs. Use 'generate <prompt>' to start one.");
+      return;
+    }
+
+    terminal.print('output', jobs.map(job => {
+      const detail = job.status === 'failed' && job.error ? ` - ${job.error}` : '';
+      return `${shortJobId(job.id)}  ${job.status.padEnd(9)}  ${formatAge(job.createdAt).padStart(7)}  "${job.params.prompt}"${detail}`;
+    }).join('\n'));
+  },
+};
+
+export const cancelCommand: CommandDefinition = {
+  name: 'cancel',
+  description: 'Cancel a queued or running generation (usage: cancel <job id>)',
+  args: [{ name: 'id', description: 'Job id (the 8 character prefix is enough)', required: true }],
+  handler: async ({ args, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to manage your jobs.');
+      return;
+    }
+
+    const [id] = args;
+    await cancelJob(id);
+    terminal.print('success', `Cancelled job ${id}. The generation was returned to your quota.`);
+  },
+};
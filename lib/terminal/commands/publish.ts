@@ -0,0 +1,35 @@
+import { MAX_GALLERY_TAGS, MAX_GALLERY_TITLE_LENGTH } from '@/lib/gallery';
+import { publishToGallery } from '../api';
+import type { CommandDefinition } from '../types';
+
+export const publishCommand: CommandDefinition = {
+  name: 'publish',
+  description: 'Share a past image in the public gallery (usage: publish <id> [--title "..."] [--tags a,b])',
+  args: [{ name: 'id', description: 'Generation id from history (the 8 character prefix is enough)', required: true }],
+  flags: [
+    { name: 'title', alias: 't', type: 'string', description: `Title shown in the gallery (default: the prompt, up to ${MAX_GALLERY_TITLE_LENGTH} characters)` },
+    { name: 'description', alias: 'd', type: 'string', description: 'A line about the image' },
+    { name: 'tags', type: 'string', description: `Up to ${MAX_GALLERY_TAGS} comma separated tags people can filter by, e.g. fantasy,character` },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to publish your images.');
+      return;
+    }
+
+    const [id] = args;
+    terminal.print('info', `Publishing ${id}...`);
+    try {
+      const item = await publishToGallery({
+        generationId: id,
+        title: typeof flags.title === 'string' ? flags.title : undefined,
+        description: typeof flags.description === 'string' ? flags.description : undefined,
+        tags: typeof flags.tags === 'string' ? flags.tags : undefined,
+      });
+      terminal.print('success', `Published "${item.title}" to the gallery as ${item.shortId}${item.tags.length ? ` (tags: ${item.tags.join(', ')})` : ''}.`);
+    } catch (error) {
+      console.error('Publish error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to publish the image. Please try again.');
+    }
+  },
+};
@@ -0,0 +1,30 @@
+import { requestJson } from '../api';
+import type { CommandDefinition } from '../types';
+
+interface QuotaResponse {
+  tier: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export const quotaCommand: CommandDefinition = {
+  name: 'quota',
+  aliases: ['credits'],
+  description: 'Show your remaining generations and when they reset',
+  handler: async ({ terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to view your generation quota.');
+      return;
+    }
+
+    const quota = await requestJson<QuotaResponse>('/api/quota');
+    const resetAt = new Date(quota.resetAt);
+    terminal.print('output', [
+      `Tier: ${quota.tier}`,
+      `Remaining: ${quota.remaining} of ${quota.limit} generations (${quota.used} used)`,
+      `Resets: ${resetAt.toLocaleString()}`,
+    ].join('\n'));
+  },
+};
@@ -0,0 +1,10 @@
+import type { CommandDefinition } from '../types';
+
+export const recentCommand: CommandDefinition = {
+  name: 'recent',
+  description: 'Toggle view of recent generations',
+  handler: ({ terminal }) => {
+    const visible = terminal.toggleRecent();
+    terminal.print('output', visible ? 'Showing recent generations.' : 'Recent generations hidden.');
+  },
+};
@@ -0,0 +1,45 @@
+import { formatGenerationParamsError, recolorOptionsSchema } from '@/lib/generation/params';
+import { PALETTE_NAMES } from '@/lib/image/palette';
+import { DITHER_MODES } from '@/lib/image/quantize';
+import { recolorGeneration } from '../api';
+import type { CommandDefinition } from '../types';
+
+export const recolorCommand: CommandDefinition = {
+  name: 'recolor',
+  description: 'Reduce a past image to a fixed palette (usage: recolor <id> --palette <name> [--dither mode]) - Free',
+  args: [{ name: 'id', description: 'Generation id from history (the 8 character prefix is enough)', required: true }],
+  flags: [
+    { name: 'palette', alias: 'p', type: 'string', description: `Palette (${PALETTE_NAMES.join(', ')} or "#rrggbb,#rrggbb,...")` },
+    { name: 'dither', alias: 'd', type: 'string', description: `Dithering (${DITHER_MODES.join(', ')}, default none)` },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to recolor images.');
+      return;
+    }
+    if (typeof flags.palette !== 'string') {
+      terminal.print('error', `Please choose a palette with --palette (${PALETTE_NAMES.join(', ')} or a list of hex colours).`);
+      return;
+    }
+
+    const validation = recolorOptionsSchema.safeParse({
+      palette: flags.palette,
+      dither: typeof flags.dither === 'string' ? flags.dither.toLowerCase() : undefined,
+    });
+    if (!validation.success) {
+      terminal.print('error', formatGenerationParamsError(validation.error));
+      return;
+    }
+
+    const [id] = args;
+    terminal.print('info', `Recoloring ${id}...`);
+    try {
+      const { generation, description } = await recolorGeneration(id, validation.data);
+      terminal.print('success', `Recolored to ${description}. Saved to history as ${generation.shortId}.`);
+      terminal.print('image', generation.imageUrl);
+    } catch (error) {
+      console.error('Recolor error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to recolor the image. Please try again.');
+    }
+  },
+};
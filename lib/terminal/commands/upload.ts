@@ -0,0 +1,30 @@
+import { ACCEPTED_REFERENCE_TYPES, attachReferenceFile } from '../upload';
+import type { CommandDefinition } from '../types';
+
+export const uploadCommand: CommandDefinition = {
+  name: 'upload',
+  description: 'Attach a reference image for image-to-image generation (or drop an image on the terminal)',
+  flags: [
+    { name: 'clear', type: 'boolean', description: 'Detach the current reference image' },
+  ],
+  handler: async ({ flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to upload reference images.');
+      return;
+    }
+
+    if (flags.clear) {
+      const attached = terminal.attachedReference();
+      terminal.attachReference(null);
+      terminal.print('info', attached ? `Detached reference ${attached.shortId}.` : 'No reference image is attached.');
+      return;
+    }
+
+    const file = await terminal.pickFile(ACCEPTED_REFERENCE_TYPES.join(','));
+    if (!file) {
+      terminal.print('info', 'No image selected.');
+      return;
+    }
+    await attachReferenceFile(file, terminal);
+  },
+};
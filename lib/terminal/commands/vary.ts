@@ -0,0 +1,65 @@
+import {
+  formatGenerationParamsError,
+  generationParamsSchema,
+  MAX_BATCH_SIZE,
+} from '@/lib/generation/params';
+import { jitterSeed, perturbPrompt } from '@/lib/generation/variations';
+import { fetchGeneration } from '../api';
+import { startGenerationJob } from '../jobs';
+import type { CommandDefinition } from '../types';
+
+const DEFAULT_VARIATIONS = 4;
+
+export const varyCommand: CommandDefinition = {
+  name: 'vary',
+  description: 'Generate variations of a past image (usage: vary <id> [-n count] [--prompt]) - Uses 1 generation per image',
+  args: [{ name: 'id', description: 'Generation id from history (the 8 character prefix is enough)', required: true }],
+  flags: [
+    { name: 'count', alias: 'n', type: 'number', description: `Number of variations (1-${MAX_BATCH_SIZE}, default ${DEFAULT_VARIATIONS})` },
+    { name: 'prompt', alias: 'p', type: 'boolean', description: 'Reword the prompt slightly instead of changing the seed' },
+  ],
+  handler: async ({ args, flags, terminal, user }) => {
+    if (!user) {
+      terminal.print('error', 'Please log in to generate variations.');
+      return;
+    }
+
+    const [id] = args;
+    const generation = await fetchGeneration(id);
+    const count = typeof flags.count === 'number' ? flags.count : DEFAULT_VARIATIONS;
+    const originalSeed = generation.seed ?? generation.params.seed;
+
+    // Stored parameters are re-validated, so older history entries get today's defaults
+    const validation = generationParamsSchema.safeParse({
+      ...generation.params,
+      prompt: generation.prompt,
+      count,
+    });
+    if (!validation.success) {
+      terminal.print('error', formatGenerationParamsError(validation.error));
+      return;
+    }
+    const params = validation.data;
+
+    try {
+      if (!flags.prompt) {
+        // Seed jitter: one batch around a seed close to the original
+        const seed = originalSeed === undefined ? undefined : jitterSeed(originalSeed);
+        terminal.print('info', `Varying ${generation.shortId} with ${count} image${count === 1 ? '' : 's'} near seed ${originalSeed ?? 'random'}...`);
+        await startGenerationJob({ ...params, seed }, terminal);
+        return;
+      }
+
+      // Prompt perturbation: keep the seed and reword the prompt, one job per wording
+      terminal.print('info', `Varying ${generation.shortId} with ${count} reworded prompt${count === 1 ? '' : 's'}...`);
+      for (let index = 0; index < count; index++) {
+        const prompt = perturbPrompt(generation.prompt, index);
+        terminal.print('output', `  ${index + 1}. "${prompt}"`);
+        await startGenerationJob({ ...params, prompt, seed: originalSeed, count: 1 }, terminal);
+      }
+    } catch (error) {
+      console.error('Variation error:', error);
+      terminal.print('error', error instanceof Error ? error.message : 'Failed to generate variations. Please try again.');
+    }
+  },
+};
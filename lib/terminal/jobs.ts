@@ -0,0 +1,190 @@
+/**
+ * Terminal Job Watcher
+ * Follows a queued generation until it finishes and reports its progress
+ * and outcome in the terminal, so the prompt stays usable while images are
+ * generated. Progress is streamed over Server-Sent Events, with polling as
+ * a fallback when the stream is unavailable.
+ */
+
+import { buildSequenceAtlas } from '@/lib/generation/frames';
+import { buildTilesetAtlas } from '@/lib/generation/tiles';
+import type { GenerationParams } from '@/lib/generation/params';
+import type { JobEvent, JobView } from '@/lib/jobs';
+import { fetchJob, submitGenerationJob } from './api';
+import type { TerminalActions } from './types';
+
+const POLL_INTERVAL_MS = 1500;
+// Stop polling eventually; the job keeps running and shows up in 'jobs'
+const MAX_POLL_DURATION_MS = 5 * 60 * 1000;
+const MAX_CONSECUTIVE_POLL_ERRORS = 3;
+
+// Final events are reported by reportOutcome instead of as progress lines
+const FINAL_EVENT_TYPES = ['succeeded', 'failed', 'cancelled'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Short form of a job id, as shown to the user and accepted by the API
+ */
+export const shortJobId = (jobId: string) => jobId.slice(0, 8);
+
+const isFinishedJob = (job: JobView) => FINAL_EVENT_TYPES.includes(job.status);
+
+/**
+ * Prints each lifecycle event once, whether it arrives over the stream
+ * or in a polled job
+ */
+function createEventPrinter(jobId: string, terminal: TerminalActions) {
+  const label = shortJobId(jobId);
+  let printed = 0;
+
+  return {
+    print: (event: JobEvent) => {
+      printed++;
+      if (FINAL_EVENT_TYPES.includes(event.type)) return;
+      terminal.print('info', `[${label} +${(event.elapsedMs / 1000).toFixed(1)}s] ${event.message}`);
+    },
+    // Print the events of a polled job that have not been printed yet
+    catchUp(job: JobView) {
+      job.events.slice(printed).forEach(event => this.print(event));
+    },
+  };
+}
+
+// Follow the job over SSE. Resolves with the finished job, or null when
+// the stream failed and the caller should fall back to polling.
+function streamJob(jobId: string, printer: ReturnType<typeof createEventPrinter>): Promise<JobView | null> {
+  if (typeof EventSource === 'undefined') return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    // The server closes the stream once the job has finished
+    const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+    const settle = (job: JobView | null) => {
+      source.close();
+      resolve(job);
+    };
+
+    source.addEventListener('progress', message => {
+      printer.print(JSON.parse((message as MessageEvent).data));
+    });
+    source.addEventListener('done', message => {
+      settle(JSON.parse((message as MessageEvent).data).job);
+    });
+    // EventSource reconnects on its own; a separate poll is simpler to reason about
+    source.onerror = () => settle(null);
+  });
+}
+
+// Follow the job by polling its status
+async function pollJob(jobId: string, printer: ReturnType<typeof createEventPrinter>, terminal: TerminalActions): Promise<JobView | null> {
+  const startedAt = Date.now();
+  let pollErrors = 0;
+
+  while (Date.now() - startedAt < MAX_POLL_DURATION_MS) {
+    await sleep(POLL_INTERVAL_MS);
+
+    try {
+      const job = await fetchJob(jobId);
+      pollErrors = 0;
+      printer.catchUp(job);
+      if (isFinishedJob(job)) return job;
+    } catch (error) {
+      if (++pollErrors >= MAX_CONSECUTIVE_POLL_ERRORS) {
+        terminal.print('error', `Lost track of job ${shortJobId(jobId)}: ${error instanceof Error ? error.message : 'unknown error'}`);
+        return null;
+      }
+    }
+  }
+
+  terminal.print('info', `Job ${shortJobId(jobId)} is still in progress. Type 'jobs' to check on it.`);
+  return null;
+}
+
+// Print the result of a finished job
+async function reportOutcome(job: JobView, terminal: TerminalActions) {
+  const label = shortJobId(job.id);
+
+  switch (job.status) {
+    case 'succeeded': {
+      const images = job.result?.images || [];
+      if (images.length === 0) {
+        terminal.print('error', `Job ${label} finished without an image.`);
+        return;
+      }
+      const [first] = images;
+      const historyLabel = first.generationId ? first.generationId.slice(0, 8) : label;
+      if (job.params.frames) {
+        const name = `promixel-${historyLabel}-${job.params.cycle}`;
+        terminal.print('success', `Job ${label}: ${job.params.frames}-frame ${job.params.cycle} animation generated! (Seed: ${first.seed})`);
+        terminal.printSprite({ imageUrl: first.imageUrl, atlas: buildSequenceAtlas(job.params, `${name}.png`), name });
+      } else if (job.params.tileset) {
+        const name = `promixel-${historyLabel}-tileset`;
+        terminal.print('success', `Job ${label}: ${job.params.tileset} tileset generated! (Seed: ${first.seed})`);
+        terminal.printTile({ imageUrl: first.imageUrl, atlas: buildTilesetAtlas(job.params, `${name}.png`), name });
+      } else if (images.length === 1) {
+        terminal.print('success', `Job ${label}: image generated successfully! (Seed: ${images[0].seed})`);
+      } else {
+        terminal.print('success', `Job ${label}: ${images.length} images generated. Click a thumbnail to select it:`);
+        terminal.print('output', images
+          .map((image, index) => `  ${index + 1}. seed ${image.seed}${image.generationId ? `  (history ${image.generationId.slice(0, 8)})` : ''}`)
+          .join('\n'));
+      }
+      images.forEach(image => terminal.print('image', image.imageUrl));
+      if ((job.params.tileX || job.params.tileY) && !job.params.frames && !job.params.tileset) {
+        images.forEach(image => terminal.printTile({ imageUrl: image.imageUrl, name: `promixel-${image.generationId?.slice(0, 8) ?? label}` }));
+      }
+      terminal.showCandidates(images, job.params.prompt);
+      await terminal.refreshRecent();
+      return;
+    }
+    case 'failed':
+      terminal.print('error', `Job ${label} failed: ${job.error || 'Failed to generate image. Please try again.'}`);
+      return;
+    case 'cancelled':
+      terminal.print('info', `Job ${label} was cancelled.`);
+      return;
+  }
+}
+
+/**
+ * Follow a job until it succeeds, fails or is cancelled, printing each
+ * lifecycle step with its elapsed time and then the result
+ * @param jobId Job returned by submitGenerationJob
+ * @param terminal Terminal to report progress and the image to
+ */
+export const watchJob = async (jobId: string, terminal: TerminalActions): Promise<void> => {
+  const printer = createEventPrinter(jobId, terminal);
+
+  const job = (await streamJob(jobId, printer)) || (await pollJob(jobId, printer, terminal));
+  if (job && isFinishedJob(job)) {
+    await reportOutcome(job, terminal);
+  }
+};
+
+/**
+ * Queue a generation and follow it in the background. The terminal stays
+ * usable while the job runs.
+ * @param params Validated generation parameters
+ * @param terminal Terminal to report the job to
+ * @returns The id of the queued job
+ * @throws Error with the server's message when the job is rejected (e.g. quota)
+ */
+export const startGenerationJob = async (params: GenerationParams, terminal: TerminalActions): Promise<string> => {
+  const { prompt, ...options } = params;
+  const { jobId, remainingCredits } = await submitGenerationJob(prompt, options);
+
+  const label = shortJobId(jobId);
+  const images = params.frames
+    ? `${params.frames} ${params.cycle} frames, `
+    : params.tileset ? `${params.tileset} tileset, ` : params.count === 1 ? '' : `${params.count} images, `;
+  const reference = params.referenceId ? `, from reference ${params.referenceId.slice(0, 8)} at strength ${params.strength}` : '';
+  const palette = params.palette ? `, palette: ${params.palette}${params.dither === 'none' ? '' : ` (${params.dither})`}` : '';
+  const remix = params.remixOf ? `, remixing gallery item ${params.remixOf.slice(0, 8)}` : '';
+  terminal.print('info', `Queued job ${label} (${images}${params.model}, ${params.width}x${params.height}, style: ${params.style}${reference}${palette}${remix}). Type 'cancel ${label}' to stop it.`);
+  if (remainingCredits !== undefined) {
+    terminal.print('info', `Generations remaining: ${remainingCredits}. Type 'quota' for details.`);
+  }
+
+  terminal.trackJob(jobId, watchJob(jobId, terminal));
+  return jobId;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { formatUsage, parseArguments, parseCommandLine, tokenize } from './parser';
+import type { CommandDefinition } from './types';
+
+const command: CommandDefinition = {
+  name: 'generate',
+  description: 'Generate pixel art',
+  args: [{ name: 'prompt', description: 'What to draw', required: true, variadic: true }],
+  flags: [
+    { name: 'seed', alias: 's', type: 'number', description: 'Seed' },
+    { name: 'negative', type: 'string', description: 'Negative prompt' },
+    { name: 'tile', type: 'boolean', description: 'Tile' },
+  ],
+  handler: () => undefined,
+};
+
+describe('tokenize', () => {
+  it('splits on whitespace', () => {
+    expect(tokenize('  a   knight\twith a sword ')).toEqual(['a', 'knight', 'with', 'a', 'sword']);
+  });
+
+  it('groups double and single quoted words', () => {
+    expect(tokenize('--negative "blurry, low detail" \'two words\'')).toEqual(['--negative', 'blurry, low detail', 'two words']);
+  });
+
+  it('keeps an apostrophe inside a word', () => {
+    expect(tokenize("a knight's sword")).toEqual(['a', "knight's", 'sword']);
+    expect(tokenize("the knights' swords and a dragon's egg")).toEqual(['the', "knights'", 'swords', 'and', 'a', "dragon's", 'egg']);
+  });
+
+  it('keeps an unmatched single quote at the start of a word', () => {
+    expect(tokenize("'90s arcade hero")).toEqual(["'90s", 'arcade', 'hero']);
+  });
+
+  it('unescapes backslashes outside single quotes', () => {
+    expect(tokenize('say \\"hi\\" "a \\"b\\""')).toEqual(['say', '"hi"', 'a "b"']);
+    expect(tokenize("'a\\b'")).toEqual(['a\\b']);
+  });
+
+  it('keeps empty quoted tokens', () => {
+    expect(tokenize('--negative ""')).toEqual(['--negative', '']);
+  });
+
+  it('rejects an unterminated double quote', () => {
+    expect(() => tokenize('"a knight')).toThrow('Unterminated double quote');
+  });
+});
+
+describe('parseCommandLine', () => {
+  it('lower-cases the command name and keeps the rest raw', () => {
+    expect(parseCommandLine('  GEN  a "red" fox ')).toEqual({ name: 'gen', raw: 'a "red" fox' });
+  });
+
+  it('returns an empty name for a blank line', () => {
+    expect(parseCommandLine('   ')).toEqual({ name: '', raw: '' });
+  });
+});
+
+describe('parseArguments', () => {
+  it('maps flags and positional arguments', () => {
+    const tokens = tokenize("--seed 42 -s 7 --tile --negative=blur a knight's sword");
+    expect(parseArguments(tokens, command)).toEqual({
+      args: ['a', "knight's", 'sword'],
+      flags: { seed: 7, tile: true, negative: 'blur' },
+    });
+  });
+
+  it('treats everything after -- as positional', () => {
+    expect(parseArguments(['--', '--tile'], command)).toEqual({ args: ['--tile'], flags: {} });
+  });
+
+  it('reports unknown flags, bad numbers and missing values', () => {
+    expect(() => parseArguments(['--size', '3', 'x'], command)).toThrow("Unknown flag --size for 'generate'");
+    expect(() => parseArguments(['--seed', 'abc', 'x'], command)).toThrow('Flag --seed expects a number, got "abc"');
+    expect(() => parseArguments(['x', '--negative'], command)).toThrow('Flag --negative requires a value');
+  });
+
+  it('requires the prompt', () => {
+    expect(() => parseArguments(['--tile'], command)).toThrow("Missing <prompt> for 'generate'");
+  });
+});
+
+describe('formatUsage', () => {
+  it('lists flags and arguments', () => {
+    expect(formatUsage(command)).toBe('generate [--seed <number>] [--negative <string>] [--tile] <prompt...>');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Terminal Command Line Parser
+ * Splits an input line into a command name and its arguments,
+ * then maps the arguments onto a command's flag/argument schema.
+ */
+
+import type { CommandDefinition, FlagSpec, FlagValue, ParsedArguments } from './types';
+
+export interface CommandLine {
+  name: string;
+  raw: string;
+}
+
+/**
+ * Split text into shell-style tokens. Double quotes group words (so
+ * --negative "blurry, low detail" is one value) and a backslash escapes
+ * the next character. Single quotes group words too, but only when they
+ * open a token and are closed later; any other ' is an apostrophe, so
+ * prompts like "a knight's sword" need no escaping.
+ * @param text Text to tokenize
+ * @returns The tokens with quotes removed
+ * @throws Error when a double quote is left unterminated
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && quote !== "'" && i + 1 < text.length) {
+      current += text[++i];
+      inToken = true;
+    } else if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || (char === "'" && !inToken && text.indexOf("'", i + 1) !== -1)) {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error('Unterminated double quote');
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+};
+
+/**
+ * Split an input line into the command name and the text after it
+ * @param line Raw text typed into the terminal
+ * @returns The lower-cased command name and the raw remainder
+ */
+export const parseCommandLine = (line: string): CommandLine => {
+  const trimmed = line.trim();
+  const match = trimmed.match(/^(\S+)\s*([\s\S]*)$/);
+
+  if (!match) {
+    return { name: '', raw: '' };
+  }
+
+  return {
+    name: match[1].toLowerCase(),
+    raw: match[2],
+  };
+};
+
+// Convert a flag's raw string value into its declared type
+function coerceFlagValue(spec: FlagSpec, value: string): FlagValue {
+  if (spec.type === 'number') {
+    const parsed = Number(value);
+    if (value === '' || Number.isNaN(parsed)) {
+      throw new Error(`Flag --${spec.name} expects a number, got "${value}"`);
+    }
+    return parsed;
+  }
+  return value;
+}
+
+/**
+ * Map tokens onto a command's declared flags and positional arguments
+ * @param tokens Tokens following the command name
+ * @param command The command whose schema should be applied
+ * @returns Positional arguments and typed flag values
+ * @throws Error with a user-facing message when the input does not match the schema
+ */
+export const parseArguments = (tokens: string[], command: CommandDefinition): ParsedArguments => {
+  const flagSpecs = command.flags || [];
+  const args: string[] = [];
+  const flags: Record<string, FlagValue> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // Everything after a bare "--" is positional
+    if (token === '--') {
+      args.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    const isLongFlag = token.startsWith('--');
+    const isShortFlag = /^-[a-zA-Z]$/.test(token);
+    if (!isLongFlag && !isShortFlag) {
+      args.push(token);
+      continue;
+    }
+
+    const body = token.slice(isLongFlag ? 2 : 1);
+    const equalsIndex = isLongFlag ? body.indexOf('=') : -1;
+    const flagName = equalsIndex === -1 ? body : body.slice(0, equalsIndex);
+    const inlineValue = equalsIndex === -1 ? undefined : body.slice(equalsIndex + 1);
+    const spec = flagSpecs.find(flag => (isLongFlag ? flag.name : flag.alias) === flagName);
+    if (!spec) {
+      throw new Error(`Unknown flag ${isLongFlag ? '--' : '-'}${flagName} for '${command.name}'. Type 'help ${command.name}' for usage.`);
+    }
+
+    if (spec.type === 'boolean') {
+      flags[spec.name] = inlineValue === undefined ? true : inlineValue !== 'false';
+      continue;
+    }
+
+    const value = inlineValue !== undefined ? inlineValue : tokens[++i];
+    if (value === undefined) {
+      throw new Error(`Flag --${spec.name} requires a value`);
+    }
+    flags[spec.name] = coerceFlagValue(spec, value);
+  }
+
+  for (const arg of command.args || []) {
+    if (arg.required && args.length === 0) {
+      throw new Error(`Missing <${arg.name}> for '${command.name}'`);
+    }
+  }
+
+  return { args, flags };
+};
+
+/**
+ * Build a one-line usage string from a command's schema
+ * @param command The command to describe
+ * @returns e.g. "generate [--seed <number>] <prompt...>"
+ */
+export const formatUsage = (command: CommandDefinition): string => {
+  const flags = (command.flags || []).map(flag =>
+    flag.type === 'boolean' ? `[--${flag.name}]` : `[--${flag.name} <${flag.type}>]`
+  );
+  const args = (command.args || []).map(arg => {
+    const label = `${arg.name}${arg.variadic ? '...' : ''}`;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return [command.name, ...flags, ...args].join(' ');
+};
@@ -0,0 +1,85 @@
+/**
+ * Terminal Command Registry
+ * Single source of truth for the commands the terminal understands.
+ * Help output, autocomplete and the quick-command buttons are all
+ * generated from the definitions registered here.
+ */
+
+import { parseArguments, parseCommandLine, tokenize } from './parser';
+import type { CommandContext, CommandDefinition } from './types';
+
+export interface CommandRegistry {
+  register: (command: CommandDefinition) => void;
+  resolve: (name: string) => CommandDefinition | undefined;
+  list: () => CommandDefinition[];
+  complete: (input: string) => string[];
+  execute: (line: string, context: Omit<CommandContext, 'args' | 'flags' | 'raw' | 'registry'>) => Promise<void>;
+}
+
+/**
+ * Create a registry pre-populated with the given commands
+ * @param commands Command definitions to register
+ * @returns A registry that resolves names and aliases and executes input lines
+ */
+export const createCommandRegistry = (commands: CommandDefinition[] = []): CommandRegistry => {
+  const byName = new Map<string, CommandDefinition>();
+  const byAlias = new Map<string, CommandDefinition>();
+
+  const register = (command: CommandDefinition) => {
+    if (byName.has(command.name) || byAlias.has(command.name)) {
+      throw new Error(`Command '${command.name}' is already registered`);
+    }
+    byName.set(command.name, command);
+    for (const alias of command.aliases || []) {
+      byAlias.set(alias, command);
+    }
+  };
+
+  const resolve = (name: string) => byName.get(name) || byAlias.get(name);
+
+  const list = () => Array.from(byName.values()).filter(command => !command.hidden);
+
+  // Suggest command names for a partially typed line. Once a command name
+  // is followed by a space, only that command is suggested.
+  const complete = (input: string) => {
+    const trimmed = input.trimStart();
+    if (!trimmed) return [];
+
+    const { name } = parseCommandLine(trimmed);
+    if (/\s/.test(trimmed)) {
+      const command = resolve(name);
+      return command ? [command.name] : [];
+    }
+    return list()
+      .filter(command => command.name.startsWith(name) || (command.aliases || []).some(alias => alias.startsWith(name)))
+      .map(command => command.name);
+  };
+
+  const registry: CommandRegistry = {
+    register,
+    resolve,
+    list,
+    complete,
+    execute: async (line, context) => {
+      const { name, raw } = parseCommandLine(line);
+      if (!name) return;
+
+      const command = resolve(name);
+      if (!command) {
+        context.terminal.print('error', `Unknown command: ${line.trim()}. Type 'help' for available commands.`);
+        return;
+      }
+
+      try {
+        const parsed = parseArguments(tokenize(raw), command);
+        await command.handler({ ...context, ...parsed, raw, registry });
+      } catch (error) {
+        console.error(`Command '${command.name}' failed:`, error);
+        context.terminal.print('error', error instanceof Error ? error.message : `Command '${command.name}' failed`);
+      }
+    },
+  };
+
+  commands.forEach(register);
+  return registry;
+};
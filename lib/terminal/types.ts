@@ -0,0 +1,136 @@
+/**
+ * Terminal Command Types
+ * Shared shapes for the command registry, command modules and the
+ * Terminal component that executes them.
+ */
+
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { AsciiArt } from '@/lib/ascii';
+import type { SpriteAtlas } from '@/lib/image/spritesheet';
+import type { ReferenceImage } from '@/lib/references';
+import type { CommandRegistry } from './registry';
+
+// Kinds of lines the terminal can render in its history
+export type HistoryEntryType = 'input' | 'output' | 'error' | 'info' | 'success' | 'image' | 'ascii' | 'sprite' | 'tile';
+
+// An animation packed into one image, previewed by playing its frames
+export interface SpritePreview {
+  imageUrl: string;
+  atlas: SpriteAtlas;
+  // File name (without extension) for the downloaded sheet and atlas
+  name: string;
+}
+
+// A tiling image or tileset, previewed repeated 3x3 so seams stand out
+export interface TilePreview {
+  imageUrl: string;
+  // For tilesets, where each tile is on the sheet
+  atlas?: SpriteAtlas;
+  // File name (without extension) for the downloaded tileset and atlas
+  name: string;
+}
+
+export interface HistoryEntry {
+  type: HistoryEntryType;
+  // For 'ascii' entries, the art as plain text; for 'sprite' and 'tile' entries, the image URL
+  content: string;
+  ascii?: AsciiArt;
+  // File name (without extension) offered when the art is exported
+  asciiName?: string;
+  sprite?: SpritePreview;
+  tile?: TilePreview;
+}
+
+export interface RecentGeneration {
+  id: string;
+  prompt: string;
+  imageUrl: string;
+  timestamp: Date;
+}
+
+// One image of a batch, selectable in the terminal's image panel
+export interface ImageCandidate {
+  imageUrl: string;
+  seed?: number;
+  generationId?: string;
+}
+
+// Value types a flag can be parsed into
+export type FlagType = 'string' | 'number' | 'boolean';
+
+export interface FlagSpec {
+  name: string;
+  alias?: string;
+  type: FlagType;
+  description: string;
+}
+
+export interface ArgSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+  // Collects every remaining positional token (e.g. a free-text prompt)
+  variadic?: boolean;
+}
+
+export type FlagValue = string | number | boolean;
+
+export interface ParsedArguments {
+  args: string[];
+  flags: Record<string, FlagValue>;
+}
+
+/**
+ * Actions the Terminal component exposes to command handlers.
+ * Handlers never touch React state directly, only through these.
+ */
+export interface TerminalActions {
+  print: (type: HistoryEntryType, content: string) => void;
+  // Show ASCII art inline in the history, with buttons to copy and export it
+  printAscii: (art: AsciiArt, name?: string) => void;
+  // Play a sprite sheet's frames inline, with a button to download it and its atlas
+  printSprite: (sprite: SpritePreview) => void;
+  // Show a tiling image repeated 3x3; tilesets can be stepped through tile by tile
+  printTile: (tile: TilePreview) => void;
+  clearScreen: () => void;
+  toggleRecent: () => boolean;
+  setLoading: (loading: boolean) => void;
+  showImage: (imageUrl: string, prompt: string) => void;
+  // Show several images as a grid; the first one is selected
+  showCandidates: (candidates: ImageCandidate[], prompt: string) => void;
+  // Reload the "Recent Generations" grid from the stored history
+  refreshRecent: () => Promise<void>;
+  // Show a job as active until its watcher settles
+  trackJob: (jobId: string, watcher: Promise<void>) => void;
+  // Open the browser's file picker; resolves with null when nothing was picked
+  pickFile: (accept: string) => Promise<File | null>;
+  // Reference image the next generations start from, until detached with null
+  attachReference: (reference: ReferenceImage | null) => void;
+  attachedReference: () => ReferenceImage | null;
+}
+
+export interface CommandContext extends ParsedArguments {
+  // Everything typed after the command name, untouched
+  raw: string;
+  terminal: TerminalActions;
+  registry: CommandRegistry;
+  supabase: SupabaseClient;
+  user: User | null;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args?: ArgSpec[];
+  flags?: FlagSpec[];
+  // Hidden commands still run but are left out of help and quick buttons
+  hidden?: boolean;
+  handler: (context: CommandContext) => Promise<void> | void;
+}
+
+// A command line placed in the terminal's input from outside it, e.g. by
+// the gallery's Remix button; a new object each time, so repeats apply
+export interface TerminalPrefill {
+  command: string;
+}
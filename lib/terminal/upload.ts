@@ -0,0 +1,104 @@
+/**
+ * Reference Image Uploads
+ * Converts a picked or dropped image file to PNG in the browser, uploads it
+ * and attaches it to the terminal so the next generation starts from it.
+ */
+
+import {
+  MAX_REFERENCE_BYTES,
+  MAX_REFERENCE_SIZE,
+  MIN_REFERENCE_SIZE,
+} from '@/lib/generation/params';
+import type { ReferenceImage } from '@/lib/references';
+import { requestJson } from './api';
+import type { TerminalActions } from './types';
+
+export const ACCEPTED_REFERENCE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Files larger than this are not decoded at all, whatever they would compress to
+const MAX_SOURCE_FILE_BYTES = 10 * 1024 * 1024;
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Decode an image file and re-encode it as a PNG data URL, scaling it
+// down to maxSide first when given
+async function fileToPngDataUrl(file: File, maxSide?: number): Promise<{ dataUrl: string; width: number; height: number }> {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image();
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error(`Could not read ${file.name} as an image`));
+      element.src = objectUrl;
+    });
+
+    const scale = maxSide ? Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    if (Math.min(width, height) < MIN_REFERENCE_SIZE || Math.max(width, height) > MAX_REFERENCE_SIZE) {
+      throw new Error(`Reference images must be between ${MIN_REFERENCE_SIZE} and ${MAX_REFERENCE_SIZE} pixels on each side (got ${width}x${height})`);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Your browser could not prepare the image for upload');
+    }
+    // Keep pixel art crisp; photos being scaled down need smoothing
+    context.imageSmoothingEnabled = scale < 1;
+    context.drawImage(image, 0, 0, width, height);
+
+    return { dataUrl: canvas.toDataURL('image/png'), width, height };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+/**
+ * Validate, convert and upload an image file as a reference image
+ * @param file Image picked by the user or dropped on the terminal
+ * @param options maxSide scales larger images down to fit instead of
+ *   rejecting them, e.g. for photos
+ * @returns The stored reference image
+ * @throws Error with a user-facing message when the file is rejected
+ */
+export const uploadReferenceImage = async (file: File, options: { maxSide?: number } = {}): Promise<ReferenceImage> => {
+  if (!ACCEPTED_REFERENCE_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a supported image. Use PNG, JPEG, WebP or GIF.`);
+  }
+  if (file.size > MAX_SOURCE_FILE_BYTES) {
+    throw new Error(`${file.name} is too large (max ${formatMegabytes(MAX_SOURCE_FILE_BYTES)}).`);
+  }
+
+  const { dataUrl } = await fileToPngDataUrl(file, options.maxSide);
+  // base64 grows data by a third; compare the decoded size with the server's limit
+  if (((dataUrl.length - dataUrl.indexOf(',') - 1) * 3) / 4 > MAX_REFERENCE_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatMegabytes(MAX_REFERENCE_BYTES)} as a PNG. Try a smaller image.`);
+  }
+
+  const { reference } = await requestJson<{ reference: ReferenceImage }>('/api/references', {
+    method: 'POST',
+    body: JSON.stringify({ imageUrl: dataUrl, name: file.name }),
+  });
+  return reference;
+};
+
+/**
+ * Upload a file and attach it as the terminal's reference image,
+ * reporting progress and errors in the terminal
+ * @param file Image picked by the user or dropped on the terminal
+ * @param terminal Terminal to attach the image to
+ */
+export const attachReferenceFile = async (file: File, terminal: TerminalActions): Promise<void> => {
+  terminal.print('info', `Uploading ${file.name}...`);
+  try {
+    const reference = await uploadReferenceImage(file);
+    terminal.attachReference(reference);
+    terminal.print('success', `Attached reference ${reference.shortId} (${reference.width}x${reference.height}). The next 'generate' starts from it; add --strength 0.05-1 to control how far it may move away.`);
+    terminal.print('image', reference.imageUrl);
+  } catch (error) {
+    terminal.print('error', error instanceof Error ? error.message : 'Failed to upload the image.');
+  }
+};
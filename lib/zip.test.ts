@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  time: number;
+  date: number;
+  flags: number;
+  offset: number;
+}
+
+// Read an archive back through its central directory, checking each
+// central entry against the local header it points to
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  let position = centralOffset;
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    const size = view.getUint32(position + 20, true);
+    expect(view.getUint32(position + 24, true)).toBe(size);
+    expect(view.getUint16(position + 10, true)).toBe(0);
+
+    // The local header repeats the fields from "version needed" to the name length
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(bytes.subarray(offset + 4, offset + 28)).toEqual(bytes.subarray(position + 6, position + 30));
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    expect(decoder.decode(bytes.subarray(offset + 30, dataStart))).toBe(name);
+
+    entries.push({
+      name,
+      data: bytes.subarray(dataStart, dataStart + size),
+      crc: view.getUint32(position + 16, true),
+      time: view.getUint16(position + 12, true),
+      date: view.getUint16(position + 14, true),
+      flags: view.getUint16(position + 8, true),
+      offset,
+    });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  const modified = new Date(2024, 4, 17, 13, 45, 30);
+
+  it('stores files with their names, data and CRC-32s', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+    const entries = readZip(createZip([
+      { path: 'hero/hero.png', data: png },
+      { path: 'hero/hero.json', data: 'hello' },
+      { path: 'empty.txt', data: '' },
+    ], modified));
+
+    expect(entries.map(entry => entry.name)).toEqual(['hero/hero.png', 'hero/hero.json', 'empty.txt']);
+    expect(entries[0].data).toEqual(png);
+    expect(new TextDecoder().decode(entries[1].data)).toBe('hello');
+    expect(entries[1].crc).toBe(0x3610a686);
+    expect(entries[2].data.length).toBe(0);
+    expect(entries[2].crc).toBe(0);
+  });
+
+  it('points each central directory entry at its local header', () => {
+    const entries = readZip(createZip([
+      { path: 'a.txt', data: 'first' },
+      { path: 'b/c.txt', data: 'second file' },
+    ], modified));
+    expect(entries.map(entry => entry.offset)).toEqual([0, 30 + 5 + 5]);
+  });
+
+  it('records the modification time in MS-DOS format', () => {
+    const [entry] = readZip(createZip([{ path: 'a.txt', data: 'x' }], modified));
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('flags names as UTF-8', () => {
+    const [entry] = readZip(createZip([{ path: 'drache/größe.txt', data: 'x' }], modified));
+    expect(entry.name).toBe('drache/größe.txt');
+    expect(entry.flags).toBe(0x0800);
+  });
+
+  it('writes an empty archive as only the end record', () => {
+    const bytes = createZip([], modified);
+    expect(bytes.length).toBe(22);
+    expect(readZip(bytes)).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Zip Archives
+ * Writes uncompressed ("stored") zip files, enough to hand several
+ * export files over as one download. PNGs are compressed already and
+ * the rest is small text, so deflating would gain little. Pure, so it
+ * runs in the browser and on the server alike.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  path: string;
+  data: Uint8Array | string;
+}
+
+// Bit 11 of the general purpose flags: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+// CRC-32 as used by zip and PNG
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields of a timestamp
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Pack files into a zip archive without compression
+ * @param entries Files in the order they should be listed
+ * @param modified Modification time recorded for every file
+ * @returns The zip file's bytes
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const files = entries.map(entry => {
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name: encoder.encode(entry.path), data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let position = 0;
+
+  const writeHeader = (signature: number, file: typeof files[number], central: boolean) => {
+    view.setUint32(position, signature, true);
+    position += 4;
+    if (central) {
+      view.setUint16(position, ZIP_VERSION, true); // made by
+      position += 2;
+    }
+    view.setUint16(position, ZIP_VERSION, true); // needed to extract
+    view.setUint16(position + 2, UTF8_FLAG, true);
+    view.setUint16(position + 4, 0, true); // stored
+    view.setUint16(position + 6, stamp.time, true);
+    view.setUint16(position + 8, stamp.date, true);
+    view.setUint32(position + 10, file.crc, true);
+    view.setUint32(position + 14, file.data.length, true);
+    view.setUint32(position + 18, file.data.length, true);
+    view.setUint16(position + 22, file.name.length, true);
+    view.setUint16(position + 24, 0, true); // extra field length
+    position += 26;
+    if (central) {
+      // Comment length, disk number, internal and external attributes, then the offset
+      position += 2 + 2 + 2 + 4;
+      view.setUint32(position, file.offset, true);
+      position += 4;
+    }
+    bytes.set(file.name, position);
+    position += file.name.length;
+  };
+
+  for (const file of files) {
+    file.offset = position;
+    writeHeader(0x04034b50, file, false);
+    bytes.set(file.data, position);
+    position += file.data.length;
+  }
+
+  const centralOffset = position;
+  for (const file of files) {
+    writeHeader(0x02014b50, file, true);
+  }
+
+  // End of central directory
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, files.length, true);
+  view.setUint16(position + 10, files.length, true);
+  view.setUint32(position + 12, centralSize, true);
+  view.setUint32(position + 16, centralOffset, true);
+  return bytes;
+};
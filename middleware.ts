@@ -21,6 +21,7 @@ const BLOCK_DURATION = 10 * 60 * 1000; // 10 minute block
 // List of suspicious paths to watch for potential attackers
 const SENSITIVE_PATHS = [
   '/api/generate',
+  '/api/jobs',
   '/api/auth',
   '/api/admin'
 ];
@@ -54,8 +55,11 @@ export async function middleware(req: NextRequest) {
   // Refresh session if expired - required for Server Components
   await supabase.auth.getSession()
   
+  // Polling and cancelling jobs is cheap; only submitting one counts against the limit
+  const isJobStatusRequest = path.startsWith('/api/jobs') && method !== 'POST';
+
   // Only apply API protection to sensitive paths
-  if (SENSITIVE_PATHS.some(sensitivePath => path.startsWith(sensitivePath))) {
+  if (SENSITIVE_PATHS.some(sensitivePath => path.startsWith(sensitivePath)) && !isJobStatusRequest) {
     // Check for valid origin (CORS protection)
     const origin = req.headers.get('origin');
     if (origin && !ALLOWED_ORIGINS.some(allowed => origin === allowed || allowed === '*')) {
@@ -0,0 +1,238 @@
+-- Generation quota
+-- Replaces the client-side localStorage flag with a server-enforced quota.
+-- /api/generate consumes quota through consume_generation_quota() before
+-- calling the image provider; the server refunds it with the service role
+-- when the provider fails. Clients can neither refund quota nor write
+-- generations themselves.
+-- Tiers are assigned by admins (service role) by updating
+-- generation_quotas.tier_id or limit_override for a user.
+
+create extension if not exists pgcrypto;
+
+-- Quota tiers. Assign a tier per user in generation_quotas.tier_id, or set
+-- limit_override for one-off adjustments.
+create table if not exists public.quota_tiers (
+  id text primary key,
+  name text not null,
+  generation_limit integer not null check (generation_limit >= 0),
+  period interval not null default interval '30 days'
+);
+
+insert into public.quota_tiers (id, name, generation_limit, period) values
+  ('free', 'Free', 1, interval '30 days'),
+  ('creator', 'Creator', 50, interval '30 days'),
+  ('studio', 'Studio', 500, interval '30 days')
+on conflict (id) do nothing;
+
+create table if not exists public.generation_quotas (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  tier_id text not null default 'free' references public.quota_tiers (id),
+  limit_override integer check (limit_override >= 0),
+  used integer not null default 0 check (used >= 0),
+  period_start timestamptz not null default now(),
+  reset_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Append-only record of quota changes: negative deltas consume, positive
+-- deltas refund. A consumption can be refunded at most once.
+create table if not exists public.quota_ledger (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  delta integer not null,
+  reason text not null,
+  refund_of bigint unique references public.quota_ledger (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quota_ledger_user_idx on public.quota_ledger (user_id, created_at desc);
+
+-- Every generation attempt that consumed quota
+create table if not exists public.generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  prompt text not null,
+  params jsonb not null default '{}'::jsonb,
+  seed bigint,
+  model text,
+  provider text,
+  image_url text,
+  cost integer not null default 1,
+  quota_ledger_id bigint references public.quota_ledger (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists generations_user_created_idx on public.generations (user_id, created_at desc);
+
+alter table public.quota_tiers enable row level security;
+alter table public.generation_quotas enable row level security;
+alter table public.generations enable row level security;
+alter table public.quota_ledger enable row level security;
+
+create policy "Tiers are readable by everyone" on public.quota_tiers
+  for select using (true);
+
+create policy "Users read their own quota" on public.generation_quotas
+  for select using (auth.uid() = user_id);
+
+create policy "Users read their own generations" on public.generations
+  for select using (auth.uid() = user_id);
+
+create policy "Users read their own ledger" on public.quota_ledger
+  for select using (auth.uid() = user_id);
+
+-- Lock (creating if needed) the caller's quota row and roll it over when
+-- the period has ended. Quota rows are only written by these functions.
+create or replace function public.lock_generation_quota(p_user_id uuid)
+returns public.generation_quotas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quota public.generation_quotas;
+  v_period interval;
+begin
+  insert into public.generation_quotas (user_id, reset_at)
+  select p_user_id, now() + t.period from public.quota_tiers t where t.id = 'free'
+  on conflict (user_id) do nothing;
+
+  select * into v_quota from public.generation_quotas where user_id = p_user_id for update;
+
+  if v_quota.reset_at <= now() then
+    select period into v_period from public.quota_tiers where id = v_quota.tier_id;
+    update public.generation_quotas
+      set used = 0,
+          period_start = now(),
+          reset_at = now() + v_period,
+          updated_at = now()
+      where user_id = p_user_id
+      returning * into v_quota;
+  end if;
+
+  return v_quota;
+end;
+$$;
+
+create or replace function public.quota_status(v_quota public.generation_quotas, p_allowed boolean default null, p_ledger_id bigint default null)
+returns table (allowed boolean, tier text, quota_limit integer, used integer, remaining integer, reset_at timestamptz, ledger_id bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    coalesce(p_allowed, coalesce(v_quota.limit_override, t.generation_limit) > v_quota.used),
+    v_quota.tier_id,
+    coalesce(v_quota.limit_override, t.generation_limit),
+    v_quota.used,
+    greatest(coalesce(v_quota.limit_override, t.generation_limit) - v_quota.used, 0),
+    v_quota.reset_at,
+    p_ledger_id
+  from public.quota_tiers t
+  where t.id = v_quota.tier_id;
+$$;
+
+-- Atomically check and consume quota for the authenticated user. The
+-- returned ledger_id is what refund_generation_quota() accepts.
+create or replace function public.consume_generation_quota(p_amount integer default 1)
+returns table (allowed boolean, tier text, quota_limit integer, used integer, remaining integer, reset_at timestamptz, ledger_id bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_quota public.generation_quotas;
+  v_limit integer;
+  v_ledger_id bigint;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+  if p_amount < 1 then
+    raise exception 'Amount must be positive' using errcode = '22023';
+  end if;
+
+  v_quota := public.lock_generation_quota(v_user_id);
+  select coalesce(v_quota.limit_override, t.generation_limit) into v_limit
+    from public.quota_tiers t where t.id = v_quota.tier_id;
+
+  if v_quota.used + p_amount > v_limit then
+    return query select * from public.quota_status(v_quota, false);
+    return;
+  end if;
+
+  update public.generation_quotas
+    set used = generation_quotas.used + p_amount, updated_at = now()
+    where user_id = v_user_id
+    returning * into v_quota;
+
+  insert into public.quota_ledger (user_id, delta, reason)
+    values (v_user_id, -p_amount, 'generation')
+    returning id into v_ledger_id;
+
+  return query select * from public.quota_status(v_quota, true, v_ledger_id);
+end;
+$$;
+
+-- Give quota back when a generation fails after it was consumed. Only the
+-- server calls this, with the service role; only the user's own, not yet
+-- refunded consumptions can be refunded.
+create or replace function public.refund_generation_quota(p_user_id uuid, p_ledger_id bigint, p_reason text default 'refund')
+returns table (allowed boolean, tier text, quota_limit integer, used integer, remaining integer, reset_at timestamptz, ledger_id bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := p_user_id;
+  v_quota public.generation_quotas;
+  v_entry public.quota_ledger;
+begin
+  v_quota := public.lock_generation_quota(v_user_id);
+
+  select * into v_entry from public.quota_ledger l
+    where l.id = p_ledger_id and l.user_id = v_user_id and l.delta < 0
+      and not exists (select 1 from public.quota_ledger r where r.refund_of = l.id);
+  if not found then
+    raise exception 'Nothing to refund for ledger entry %', p_ledger_id using errcode = '22023';
+  end if;
+
+  -- Consumptions from an earlier period were already cleared by the reset
+  if v_entry.created_at >= v_quota.period_start then
+    update public.generation_quotas
+      set used = greatest(generation_quotas.used + v_entry.delta, 0), updated_at = now()
+      where user_id = v_user_id
+      returning * into v_quota;
+  end if;
+
+  insert into public.quota_ledger (user_id, delta, reason, refund_of)
+    values (v_user_id, -v_entry.delta, p_reason, v_entry.id);
+
+  return query select * from public.quota_status(v_quota);
+end;
+$$;
+
+-- Read the authenticated user's balance without consuming anything
+create or replace function public.get_generation_quota()
+returns table (allowed boolean, tier text, quota_limit integer, used integer, remaining integer, reset_at timestamptz, ledger_id bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  return query select * from public.quota_status(public.lock_generation_quota(v_user_id));
+end;
+$$;
+
+revoke execute on function public.lock_generation_quota(uuid) from public, anon, authenticated;
+grant execute on function public.consume_generation_quota(integer) to authenticated;
+revoke execute on function public.refund_generation_quota(uuid, bigint, text) from public, anon, authenticated;
+grant execute on function public.refund_generation_quota(uuid, bigint, text) to service_role;
+grant execute on function public.get_generation_quota() to authenticated;
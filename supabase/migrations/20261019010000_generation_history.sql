@@ -0,0 +1,21 @@
+-- Generation history
+-- Lets users browse, search and delete their own generations. short_id is
+-- the 8 character prefix the terminal shows and accepts as an id. Images
+-- are stored in the public generations bucket under the owner's id and
+-- rows keep their URL; only the server uploads, with the service role.
+-- Deleting a generation keeps its image, which a gallery item may share.
+
+alter table public.generations
+  add column if not exists short_id text generated always as (left(id::text, 8)) stored;
+
+create index if not exists generations_user_short_id_idx on public.generations (user_id, short_id);
+
+create extension if not exists pg_trgm;
+create index if not exists generations_prompt_trgm_idx on public.generations using gin (prompt gin_trgm_ops);
+
+create policy "Users delete their own generations" on public.generations
+  for delete using (auth.uid() = user_id);
+
+insert into storage.buckets (id, name, public)
+values ('generations', 'generations', true)
+on conflict (id) do nothing;
@@ -0,0 +1,30 @@
+-- Reference images
+-- Images users upload to guide a generation (img2img). They are stored as
+-- PNG data URLs after the server has validated them, and generations made
+-- from one link back to it. Only /api/references inserts rows, with the
+-- service role, so every stored image has passed validation.
+
+create table if not exists public.reference_images (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  short_id text generated always as (left(id::text, 8)) stored,
+  name text,
+  image_url text not null,
+  width integer not null check (width > 0),
+  height integer not null check (height > 0),
+  byte_size integer not null check (byte_size > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reference_images_user_short_id_idx on public.reference_images (user_id, short_id);
+
+alter table public.reference_images enable row level security;
+
+create policy "Users read their own reference images" on public.reference_images
+  for select using (auth.uid() = user_id);
+
+create policy "Users delete their own reference images" on public.reference_images
+  for delete using (auth.uid() = user_id);
+
+alter table public.generations
+  add column if not exists reference_image_id uuid references public.reference_images (id) on delete set null;
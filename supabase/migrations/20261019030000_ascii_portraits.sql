@@ -0,0 +1,31 @@
+-- ASCII portraits
+-- Portraits users tune on /portrait from an uploaded photo. The photo is
+-- stored as a reference image; each portrait keeps the settings it was
+-- made with and the resulting characters, so it can be shown without
+-- converting the photo again.
+
+create table if not exists public.ascii_portraits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  short_id text generated always as (left(id::text, 8)) stored,
+  reference_image_id uuid references public.reference_images (id) on delete set null,
+  name text,
+  settings jsonb not null default '{}'::jsonb,
+  columns integer not null check (columns > 0),
+  rows integer not null check (rows > 0),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ascii_portraits_user_created_idx on public.ascii_portraits (user_id, created_at desc);
+
+alter table public.ascii_portraits enable row level security;
+
+create policy "Users read their own portraits" on public.ascii_portraits
+  for select using (auth.uid() = user_id);
+
+create policy "Users save their own portraits" on public.ascii_portraits
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users delete their own portraits" on public.ascii_portraits
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+-- Public gallery
+-- Generations users publish with `publish <id>`, shown to everyone on the
+-- landing page. Items copy the prompt, parameters and image of their
+-- generation, since generations themselves are private. The server
+-- publishes with the service role, copying those fields from the user's
+-- own generation; users can only read items. like_count is kept for
+-- sorting by most liked; the pixel art that shipped with the site is
+-- seeded as items without an owner.
+
+create table if not exists public.gallery_items (
+  id uuid primary key default gen_random_uuid(),
+  short_id text generated always as (left(id::text, 8)) stored,
+  user_id uuid references auth.users (id) on delete cascade,
+  generation_id uuid unique references public.generations (id) on delete set null,
+  title text not null check (char_length(title) between 1 and 80),
+  description text check (char_length(description) <= 280),
+  prompt text,
+  params jsonb not null default '{}'::jsonb,
+  seed bigint,
+  image_url text not null,
+  width integer check (width > 0),
+  height integer check (height > 0),
+  tags text[] not null default '{}',
+  like_count integer not null default 0 check (like_count >= 0),
+  created_at timestamptz not null default now()
+);
+
+-- One index per sort order, ending in id so cursors are unambiguous
+create index if not exists gallery_items_newest_idx on public.gallery_items (created_at desc, id desc);
+create index if not exists gallery_items_liked_idx on public.gallery_items (like_count desc, created_at desc, id desc);
+create index if not exists gallery_items_tags_idx on public.gallery_items using gin (tags);
+
+alter table public.gallery_items enable row level security;
+
+create policy "Anyone reads the gallery" on public.gallery_items
+  for select using (true);
+
+insert into public.gallery_items (id, title, description, image_url, width, height, tags, created_at) values
+  ('a0000001-0000-4000-8000-000000000000', 'Coca Cola', 'Retro-style beverage advertisement', '/images/gallery/coca-cola.png', 256, 256, '{retro,advertisement}', '2025-01-01T00:00:00Z'),
+  ('a0000002-0000-4000-8000-000000000000', 'Spiderman', 'Web-slinging superhero in pixel form', '/images/gallery/spiderman.png', 256, 256, '{character,superhero}', '2025-01-01T00:01:00Z'),
+  ('a0000003-0000-4000-8000-000000000000', 'Pixel Landscape', 'Serene nature scene with retro aesthetics', '/images/gallery/pixel-landscape.png', 256, 256, '{landscape,nature}', '2025-01-01T00:02:00Z'),
+  ('a0000004-0000-4000-8000-000000000000', 'Beautiful Woman', 'Elegant portrait in pixel art style', '/images/gallery/beautiful-woman.png', 256, 256, '{portrait,character}', '2025-01-01T00:03:00Z'),
+  ('a0000005-0000-4000-8000-000000000000', 'Cute Girl', 'Charming character design with pixelated details', '/images/gallery/cute-girl.png', 256, 256, '{character,cute}', '2025-01-01T00:04:00Z'),
+  ('a0000006-0000-4000-8000-000000000000', 'Pixel Character', 'Original game-style character design', '/images/gallery/pixel-character.png', 256, 256, '{character,game}', '2025-01-01T00:05:00Z'),
+  ('a0000007-0000-4000-8000-000000000000', 'Neon City', 'Cyberpunk urban landscape with glowing elements', '/images/gallery/neon-city.png', 256, 256, '{landscape,cyberpunk}', '2025-01-01T00:06:00Z'),
+  ('a0000008-0000-4000-8000-000000000000', 'Space Explorer', 'Astronaut character in a retro sci-fi style', '/images/gallery/space-explorer.png', 256, 256, '{character,sci-fi}', '2025-01-01T00:07:00Z'),
+  ('a0000009-0000-4000-8000-000000000000', 'Fantasy Castle', 'Magical medieval fortress with pixel details', '/images/gallery/fantasy-castle.png', 256, 256, '{landscape,fantasy}', '2025-01-01T00:08:00Z'),
+  ('a000000a-0000-4000-8000-000000000000', 'Pixel Dragon', 'Mythical creature rendered in classic pixel art', '/images/gallery/pixel-dragon.png', 256, 256, '{creature,fantasy}', '2025-01-01T00:09:00Z'),
+  ('a000000b-0000-4000-8000-000000000000', 'Sunset Beach', 'Tropical shoreline scene with warm pixel colors', '/images/gallery/sunset-beach.png', 256, 256, '{landscape,nature}', '2025-01-01T00:10:00Z'),
+  ('a000000c-0000-4000-8000-000000000000', 'Retro Arcade', 'Nostalgic gaming environment with 80s aesthetics', '/images/gallery/retro-arcade.png', 256, 256, '{retro,game}', '2025-01-01T00:11:00Z')
+on conflict (id) do nothing;
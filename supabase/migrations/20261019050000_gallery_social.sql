@@ -0,0 +1,101 @@
+-- Gallery likes, favourites and remixes
+-- Likes are one row per user and item; a trigger keeps
+-- gallery_items.like_count in step, since users cannot update items.
+-- Favourites are private named collections of gallery items. A remix is
+-- a generation started from a gallery item: the generation records the
+-- item in remix_of and so does the gallery item it is published as,
+-- which links published items into remix trees.
+
+create table if not exists public.gallery_likes (
+  item_id uuid not null references public.gallery_items (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (item_id, user_id)
+);
+
+create index if not exists gallery_likes_user_idx on public.gallery_likes (user_id, created_at desc);
+
+alter table public.gallery_likes enable row level security;
+
+create policy "Users read their own likes" on public.gallery_likes
+  for select using (auth.uid() = user_id);
+
+create policy "Users like items" on public.gallery_likes
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users unlike items" on public.gallery_likes
+  for delete using (auth.uid() = user_id);
+
+create or replace function public.count_gallery_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.gallery_items set like_count = like_count + 1 where id = new.item_id;
+    return new;
+  end if;
+
+  update public.gallery_items set like_count = greatest(like_count - 1, 0) where id = old.item_id;
+  return old;
+end;
+$$;
+
+revoke execute on function public.count_gallery_like() from public, anon, authenticated;
+
+drop trigger if exists gallery_likes_count on public.gallery_likes;
+create trigger gallery_likes_count
+  after insert or delete on public.gallery_likes
+  for each row execute function public.count_gallery_like();
+
+create table if not exists public.gallery_collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.gallery_collection_items (
+  collection_id uuid not null references public.gallery_collections (id) on delete cascade,
+  item_id uuid not null references public.gallery_items (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (collection_id, item_id)
+);
+
+alter table public.gallery_collections enable row level security;
+alter table public.gallery_collection_items enable row level security;
+
+create policy "Users read their own collections" on public.gallery_collections
+  for select using (auth.uid() = user_id);
+
+create policy "Users create their own collections" on public.gallery_collections
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users delete their own collections" on public.gallery_collections
+  for delete using (auth.uid() = user_id);
+
+create policy "Users read their own favourites" on public.gallery_collection_items
+  for select using (exists (
+    select 1 from public.gallery_collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users add favourites to their own collections" on public.gallery_collection_items
+  for insert with check (exists (
+    select 1 from public.gallery_collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users remove favourites from their own collections" on public.gallery_collection_items
+  for delete using (exists (
+    select 1 from public.gallery_collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+alter table public.generations
+  add column if not exists remix_of uuid references public.gallery_items (id) on delete set null;
+
+alter table public.gallery_items
+  add column if not exists remix_of uuid references public.gallery_items (id) on delete set null;
+
+create index if not exists gallery_items_remix_of_idx on public.gallery_items (remix_of);